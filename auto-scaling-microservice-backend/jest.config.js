@@ -2,7 +2,7 @@
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
-  roots: ["<rootDir>/src"], // Test files src
+  roots: ["<rootDir>/src", "<rootDir>/shared"], // Test files src and shared
   testMatch: [
     // Which files will be considered as test files
     "**/__tests__/**/*.+(ts|tsx|js)",
@@ -27,13 +27,23 @@ const sampleProductIds = [
   "054f7a08-4a4d-4bdc-a6d0-3de638debbd7", // wireless mouse
 ];
 
+// Realistic listing queries: filters, free-text search and sorting, as the frontend sends them.
+const listQueries = [
+  "page=1&limit=10",
+  "category=Accessories&sort=price:asc",
+  "minPrice=50&maxPrice=500&inStock=true",
+  "q=laptop&sort=updatedAt:desc",
+  "sort=createdAt:desc&page=2&limit=2",
+];
+
 // --- Test Scenarios ---
 export default function () {
   // 70% of users list products, 30% look at a single product
 
   group("list_products", function () {
-    // Request to list all products
-    const res = http.get(`${BASE_URL}/products?page=1&limit=10`);
+    // Request a product listing with one of the realistic query shapes
+    const query = listQueries[Math.floor(Math.random() * listQueries.length)];
+    const res = http.get(`${BASE_URL}/products?${query}`);
     check(res, { "status is 200 (list)": (r) => r.status === 200 });
   });
 
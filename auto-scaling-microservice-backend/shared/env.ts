@@ -0,0 +1,36 @@
+// --- Environment Variable Helpers ---
+
+const readInt = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  defaultValue: number,
+  min: number,
+  expected: string
+): number => {
+  const raw = env[name];
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${name} '${raw}'. Use a ${expected} integer.`);
+  }
+  return value;
+};
+
+/**
+ * Reads an optional positive integer setting. Invalid values throw at startup
+ * instead of silently falling back to the default.
+ */
+export const readPositiveInt = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  defaultValue: number
+): number => readInt(env, name, defaultValue, 1, "positive");
+
+// Like readPositiveInt, but zero is allowed (e.g. "no retries").
+export const readNonNegativeInt = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  defaultValue: number
+): number => readInt(env, name, defaultValue, 0, "non-negative");
@@ -0,0 +1,62 @@
+// Import Node's file system helpers to create a throwaway directory for each test.
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Import the lock under test.
+import { FileLockTimeoutError, withFileLock } from "./fileLock";
+
+describe("withFileLock", () => {
+  let tempDir: string;
+  let lockPath: string;
+  const options = { timeoutMs: 200, staleMs: 60000, retryDelayMs: 5 };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "file-lock-"));
+    lockPath = path.join(tempDir, "catalog.json.lock");
+  });
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Test case: holders run one after another, and the lock is released after a failure too.
+  it("should run holders one at a time", async () => {
+    // Arrange
+    const events: string[] = [];
+    const hold = (name: string, fail = false) =>
+      withFileLock(
+        lockPath,
+        async () => {
+          events.push(`${name} start`);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          events.push(`${name} end`);
+          if (fail) {
+            throw new Error(`${name} failed`);
+          }
+        },
+        options
+      );
+    // Act
+    const results = await Promise.allSettled([hold("a", true), hold("b")]);
+    // Assert
+    expect(results.map((r) => r.status)).toEqual(["rejected", "fulfilled"]);
+    expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+    await expect(fs.stat(lockPath)).rejects.toThrow("ENOENT");
+  });
+
+  // Test case: a lock left by a crashed process is broken once stale, a live one times out.
+  it("should break stale locks and time out on live ones", async () => {
+    // Arrange
+    await fs.writeFile(lockPath, "12345\n", "utf8");
+    const longAgo = new Date(Date.now() - 120000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+    // Act
+    const result = await withFileLock(lockPath, async () => "ran", options);
+    await fs.writeFile(lockPath, "12345\n", "utf8");
+    // Assert
+    expect(result).toBe("ran");
+    await expect(
+      withFileLock(lockPath, async () => "ran", options)
+    ).rejects.toBeInstanceOf(FileLockTimeoutError);
+  });
+});
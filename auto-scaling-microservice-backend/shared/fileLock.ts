@@ -0,0 +1,98 @@
+import { promises as fs } from "fs";
+
+// --- Cross-Process File Locking ---
+
+export interface FileLockOptions {
+  // How long to wait for another holder before giving up.
+  timeoutMs: number;
+  // A lock file older than this is assumed to belong to a crashed process and is
+  // broken. Must be well above the time any holder keeps the lock.
+  staleMs: number;
+  // Pause between two attempts to take the lock.
+  retryDelayMs: number;
+}
+
+export const DEFAULT_FILE_LOCK_OPTIONS: FileLockOptions = {
+  timeoutMs: 10000,
+  staleMs: 30000,
+  retryDelayMs: 25,
+};
+
+// Thrown when the lock is still held by someone else after timeoutMs.
+export class FileLockTimeoutError extends Error {
+  constructor(readonly lockPath: string) {
+    super(`Timed out waiting for the file lock '${lockPath}'.`);
+    this.name = "FileLockTimeoutError";
+  }
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Creates the lock file, failing with EEXIST while someone else holds it.
+const tryLock = async (lockPath: string): Promise<void> => {
+  const handle = await fs.open(lockPath, "wx");
+  try {
+    await handle.writeFile(`${process.pid}\n`, "utf8");
+  } finally {
+    await handle.close();
+  }
+};
+
+// Removes the lock file if it was left behind by a holder that died. Resolves true
+// when the lock is free again (broken now or released in the meantime).
+const breakIfStale = async (
+  lockPath: string,
+  staleMs: number
+): Promise<boolean> => {
+  try {
+    const { mtimeMs } = await fs.stat(lockPath);
+    if (Date.now() - mtimeMs <= staleMs) {
+      return false;
+    }
+    await fs.unlink(lockPath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return true;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Runs `work` while holding an exclusive lock on `lockPath`, shared by every process
+ * that uses the same path (e.g. replicas mounting one volume). The lock is a file
+ * created with O_EXCL, so only one process can hold it at a time; it is removed when
+ * `work` settles. Keep `work` short: other holders wait for it.
+ */
+export const withFileLock = async <T>(
+  lockPath: string,
+  work: () => Promise<T>,
+  options: FileLockOptions = DEFAULT_FILE_LOCK_OPTIONS
+): Promise<T> => {
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    try {
+      await tryLock(lockPath);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    if (await breakIfStale(lockPath, options.staleMs)) {
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new FileLockTimeoutError(lockPath);
+    }
+    await sleep(options.retryDelayMs);
+  }
+
+  try {
+    return await work();
+  } finally {
+    await fs.unlink(lockPath).catch(() => undefined);
+  }
+};
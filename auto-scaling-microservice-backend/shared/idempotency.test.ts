@@ -0,0 +1,179 @@
+import { EventEmitter } from "events";
+import { Request, RequestHandler, Response } from "express";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  FileIdempotencyStore,
+  IdempotencyStore,
+  InMemoryIdempotencyStore,
+  idempotency,
+} from "./idempotency";
+import { Logger } from "./logger";
+
+// A response stand-in that emits "finish" when a body is sent, like Express does.
+const fakeResponse = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.headers = {};
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.set = (name: any, value?: string) => {
+    const headers = typeof name === "string" ? { [name]: value } : name;
+    Object.keys(headers).forEach((key) => {
+      res.headers[key.toLowerCase()] = headers[key];
+    });
+    return res;
+  };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.json = (payload: unknown) => {
+    res.body = payload;
+    res.writableFinished = true;
+    res.emit("finish");
+    return res;
+  };
+  return res;
+};
+
+describe("idempotency middleware", () => {
+  let now: number;
+  let store: IdempotencyStore;
+  let calls: number;
+  // Answers with a counter, so replays are distinguishable from fresh responses.
+  let status: number;
+  const handler: RequestHandler = (req, res) => {
+    calls++;
+    res.status(status).json({ call: calls });
+  };
+  const middleware = idempotency(() => store, new Logger("test-service"));
+
+  // Resolves once the response went out, i.e. after it was stored.
+  const send = async (key: string | undefined, body: unknown) => {
+    const req = {
+      method: "POST",
+      originalUrl: "/things",
+      body: body,
+      get: (name: string) =>
+        name.toLowerCase() === "idempotency-key" ? key : undefined,
+    } as unknown as Request;
+    const res = fakeResponse();
+    const finished = new Promise((resolve) => res.once("finish", resolve));
+    await middleware(req, res as Response, () => handler(req, res, jest.fn()));
+    await finished;
+    return res;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    store = new InMemoryIdempotencyStore(
+      { ttlSeconds: 60, maxEntries: 10 },
+      () => now
+    );
+    calls = 0;
+    status = 201;
+  });
+
+  // Test case: a retry with the same key and body gets the first response back.
+  it("should replay the stored response for a repeated request", async () => {
+    await send("k1", { a: 1 });
+    const replay = await send("k1", { a: 1 });
+
+    expect(calls).toBe(1);
+    expect(replay.statusCode).toBe(201);
+    expect(replay.body).toEqual({ call: 1 });
+    expect(replay.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  // Test case: the same key with another body is a client bug, not a retry.
+  it("should answer 409 when a key is reused with a different body", async () => {
+    await send("k1", { a: 1 });
+    const conflict = await send("k1", { a: 2 });
+
+    expect(calls).toBe(1);
+    expect(conflict.statusCode).toBe(409);
+    expect(conflict.body.message).toBe(
+      "Idempotency-Key was already used for a different request."
+    );
+  });
+
+  // Test case: server errors and expired keys do not block a fresh attempt.
+  it("should run the request again after a 5xx or once the key expired", async () => {
+    status = 500;
+    await send("k1", { a: 1 });
+    status = 201;
+    await send("k1", { a: 1 });
+    now = 60 * 1000;
+    const fresh = await send("k1", { a: 1 });
+
+    expect(calls).toBe(3);
+    expect(fresh.body).toEqual({ call: 3 });
+  });
+
+  // Test case: requests without the header are never deduplicated.
+  it("should ignore requests without an Idempotency-Key", async () => {
+    await send(undefined, { a: 1 });
+    await send(undefined, { a: 1 });
+
+    expect(calls).toBe(2);
+  });
+});
+
+describe("FileIdempotencyStore", () => {
+  const config = { ttlSeconds: 60, maxEntries: 10 };
+  let tempDir: string;
+  let filePath: string;
+  let now: number;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "idempotency-"));
+    filePath = path.join(tempDir, "idempotency-keys.json");
+    now = 0;
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Test case: two replicas sharing the file see each other's keys.
+  it("should share claims and responses between instances on one file", async () => {
+    const first = new FileIdempotencyStore(filePath, config, () => now);
+    const second = new FileIdempotencyStore(filePath, config, () => now);
+
+    expect(await first.claim("k1", "f1")).toBeUndefined();
+    const pending = await second.claim("k1", "f1");
+    expect(pending && pending.fingerprint).toBe("f1");
+    expect(pending && pending.response).toBeUndefined();
+    await first.complete("k1", { status: 201, headers: {}, body: { id: 1 } });
+
+    expect(await second.claim("k1", "f1")).toMatchObject({
+      response: { status: 201, body: { id: 1 } },
+    });
+  });
+
+  // Test case: a claim left behind by a replica that died does not block retries forever.
+  it("should give up a claim that never got a response", async () => {
+    const store = new FileIdempotencyStore(filePath, config, () => now);
+    await store.claim("k1", "f1");
+
+    now = 59 * 1000;
+    expect(await store.claim("k1", "f1")).toBeDefined();
+    now = 60 * 1000;
+    expect(await store.claim("k1", "f1")).toBeUndefined();
+  });
+
+  // Test case: concurrent claims of one key from two instances let exactly one through.
+  it("should let only one of two concurrent claims take the key", async () => {
+    const first = new FileIdempotencyStore(filePath, config, () => now);
+    const second = new FileIdempotencyStore(filePath, config, () => now);
+
+    const results = await Promise.all([
+      first.claim("k1", "f1"),
+      second.claim("k1", "f1"),
+    ]);
+
+    expect(results.filter((entry) => entry === undefined)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,338 @@
+import { createHash } from "crypto";
+import { RequestHandler } from "express";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { readNonNegativeInt } from "./env";
+import {
+  DEFAULT_FILE_LOCK_OPTIONS,
+  FileLockOptions,
+  withFileLock,
+} from "./fileLock";
+import { Logger } from "./logger";
+
+// --- Idempotency Keys ---
+
+export interface IdempotencyConfig {
+  // How long a stored response is replayed for its key.
+  ttlSeconds: number;
+  // Upper bound of remembered keys; the oldest are forgotten first.
+  maxEntries: number;
+}
+
+// Reads the idempotency settings from environment variables.
+export const readIdempotencyConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): IdempotencyConfig => ({
+  ttlSeconds: readNonNegativeInt(env, "IDEMPOTENCY_TTL_SECONDS", 86400),
+  maxEntries: readNonNegativeInt(env, "IDEMPOTENCY_MAX_ENTRIES", 10000) || 1,
+});
+
+// The first response sent for a key, replayed for every retry with the same request.
+export interface StoredResponse {
+  status: number;
+  headers: { [name: string]: string };
+  body: unknown;
+}
+
+export interface IdempotencyEntry {
+  // Hash of method, path and body, so a reused key with a different request is caught.
+  fingerprint: string;
+  expiresAt: number;
+  // When the first request took the key; see PENDING_CLAIM_TIMEOUT_MS.
+  claimedAt: number;
+  // Undefined while the first request is still being handled.
+  response?: StoredResponse;
+}
+
+export interface IdempotencyStore {
+  // Takes the key for a request that is about to be handled and resolves undefined,
+  // or resolves the entry of the request that already holds it.
+  claim(
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyEntry | undefined>;
+  complete(key: string, response: StoredResponse): Promise<void>;
+  // Releases a key whose request failed, so the client can retry it.
+  abandon(key: string): Promise<void>;
+}
+
+// Response headers worth replaying along with the body.
+const REPLAYED_HEADERS = ["etag", "location", "warning"];
+
+const MAX_KEY_LENGTH = 255;
+
+// A key still waiting for its response after this long is given up: the replica that
+// handled the first request is assumed to have died before it could answer.
+const PENDING_CLAIM_TIMEOUT_MS = 60 * 1000;
+
+// Claims `key` in `entries` as IdempotencyStore.claim describes. Map keeps insertion
+// order, so once the limit is exceeded the first key is always the oldest entry.
+const claimEntry = (
+  entries: Map<string, IdempotencyEntry>,
+  config: IdempotencyConfig,
+  now: number,
+  key: string,
+  fingerprint: string
+): IdempotencyEntry | undefined => {
+  const existing = entries.get(key);
+  if (
+    existing &&
+    existing.expiresAt > now &&
+    (existing.response || existing.claimedAt + PENDING_CLAIM_TIMEOUT_MS > now)
+  ) {
+    return existing;
+  }
+  entries.delete(key);
+  entries.set(key, {
+    fingerprint: fingerprint,
+    expiresAt: now + config.ttlSeconds * 1000,
+    claimedAt: now,
+  });
+  if (entries.size > config.maxEntries) {
+    entries.delete(entries.keys().next().value as string);
+  }
+  return undefined;
+};
+
+/**
+ * Remembers responses by Idempotency-Key in memory. Keys are per replica, so this store
+ * only suits a single replica and tests; replicas that share data use
+ * FileIdempotencyStore instead.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private entries = new Map<string, IdempotencyEntry>();
+
+  constructor(
+    private readonly config: IdempotencyConfig,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async claim(
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyEntry | undefined> {
+    return claimEntry(this.entries, this.config, this.now(), key, fingerprint);
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.response = response;
+    }
+  }
+
+  async abandon(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Keeps the keys in one JSON file that every replica reads and writes under a file
+ * lock, so a retry is recognized whichever Pod the load balancer sends it to. Expired
+ * keys are dropped whenever the file is written.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly lockPath: string;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly config: IdempotencyConfig,
+    private readonly now: () => number = Date.now,
+    private readonly lockOptions: FileLockOptions = DEFAULT_FILE_LOCK_OPTIONS
+  ) {
+    this.lockPath = `${filePath}.lock`;
+  }
+
+  claim(
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyEntry | undefined> {
+    return this.mutate((entries, now) =>
+      claimEntry(entries, this.config, now, key, fingerprint)
+    );
+  }
+
+  complete(key: string, response: StoredResponse): Promise<void> {
+    return this.mutate((entries) => {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.response = response;
+      }
+    });
+  }
+
+  abandon(key: string): Promise<void> {
+    return this.mutate((entries) => {
+      entries.delete(key);
+    });
+  }
+
+  // Runs a read-modify-write cycle on the file while holding the lock.
+  private async mutate<T>(
+    update: (entries: Map<string, IdempotencyEntry>, now: number) => T
+  ): Promise<T> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    return withFileLock(
+      this.lockPath,
+      async () => {
+        const now = this.now();
+        const entries = new Map<string, IdempotencyEntry>();
+        (await this.read()).forEach(([key, entry]) => {
+          if (entry.expiresAt > now) {
+            entries.set(key, entry);
+          }
+        });
+        const result = update(entries, now);
+        await this.write(Array.from(entries.entries()));
+        return result;
+      },
+      this.lockOptions
+    );
+  }
+
+  // Entries are stored as [key, entry] pairs, oldest first.
+  private async read(): Promise<[string, IdempotencyEntry][]> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      return raw.trim() ? JSON.parse(raw) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Writes to a temporary file first, so a crash mid-write keeps the previous keys.
+  private async write(entries: [string, IdempotencyEntry][]): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// Builds the file store when a path is given, so keys are shared exactly when the
+// service's other data is, and the in-memory store otherwise.
+export const createIdempotencyStore = (
+  config: IdempotencyConfig,
+  filePath?: string
+): IdempotencyStore =>
+  filePath
+    ? new FileIdempotencyStore(filePath, config)
+    : new InMemoryIdempotencyStore(config);
+
+const fingerprintOf = (method: string, path: string, body: unknown): string =>
+  createHash("sha256")
+    .update(
+      `${method} ${path}\n${JSON.stringify(body === undefined ? null : body)}`
+    )
+    .digest("hex");
+
+/**
+ * Middleware for mutating routes that honors the Idempotency-Key header. The first
+ * request with a key runs normally and its response is stored unless it failed with
+ * a 5xx; later requests with the same key and the same method, path and body get the
+ * stored response replayed with an Idempotent-Replayed header. Reusing a key for a
+ * different request, or while the first one is still running, answers 409.
+ * A JSON response is only sent once it is stored, so a client that got an answer can
+ * rely on its retries being replayed.
+ */
+export const idempotency =
+  (getStore: () => IdempotencyStore, logger: Logger): RequestHandler =>
+  async (req, res, next) => {
+    const key = req.get("Idempotency-Key");
+    if (key === undefined) {
+      next();
+      return;
+    }
+    if (key.trim() === "" || key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters.`,
+      });
+      return;
+    }
+
+    const store = getStore();
+    const fingerprint = fingerprintOf(req.method, req.originalUrl, req.body);
+    let existing: IdempotencyEntry | undefined;
+    try {
+      existing = await store.claim(key, fingerprint);
+    } catch (error) {
+      logger.error("Error claiming Idempotency-Key", { error: error });
+      res.status(500).json({
+        message: "Server error: Could not check the Idempotency-Key.",
+      });
+      return;
+    }
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        res.status(409).json({
+          message: "Idempotency-Key was already used for a different request.",
+        });
+      } else if (!existing.response) {
+        res.status(409).json({
+          message:
+            "A request with this Idempotency-Key is still being processed.",
+        });
+      } else {
+        res.set(existing.response.headers);
+        res.set("Idempotent-Replayed", "true");
+        res.status(existing.response.status).json(existing.response.body);
+      }
+      return;
+    }
+
+    // Failures to store are logged but never fail the request that already ran.
+    const settle = (update: Promise<void>): Promise<void> =>
+      update.catch((error) => {
+        logger.error("Error storing Idempotency-Key response", {
+          error: error,
+        });
+      });
+    const responseOf = (body: unknown): StoredResponse => {
+      const headers: { [name: string]: string } = {};
+      REPLAYED_HEADERS.forEach((name) => {
+        const value = res.getHeader(name);
+        if (value !== undefined) {
+          headers[name] = String(value);
+        }
+      });
+      // Stored as JSON, so later changes to the sent object cannot leak into replays.
+      return {
+        status: res.statusCode,
+        headers: headers,
+        body: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+      };
+    };
+
+    // Hold the JSON body back until the response (or the released key) is stored.
+    let answered = false;
+    const json = res.json.bind(res);
+    res.json = (payload: unknown) => {
+      answered = true;
+      const update =
+        res.statusCode >= 500
+          ? store.abandon(key)
+          : store.complete(key, responseOf(payload));
+      settle(update).then(() => json(payload));
+      return res;
+    };
+    res.on("finish", () => {
+      // Responses sent without res.json (e.g. an empty 204) are stored afterwards.
+      if (!answered) {
+        settle(
+          res.statusCode >= 500
+            ? store.abandon(key)
+            : store.complete(key, responseOf(undefined))
+        );
+      }
+    });
+    res.on("close", () => {
+      // The connection dropped before the handler answered: let the client retry.
+      if (!answered && !res.writableFinished) {
+        settle(store.abandon(key));
+      }
+    });
+    next();
+  };
@@ -0,0 +1,85 @@
+import { EventEmitter } from "events";
+import { Request, Response } from "express";
+import client from "prom-client";
+
+import {
+  UNMATCHED_ROUTE,
+  httpMetricsMiddleware,
+  metricsHandler,
+} from "./instrumentation";
+import { Logger } from "./logger";
+
+describe("httpMetricsMiddleware", () => {
+  // Runs one request through the middleware and finishes it with the given status.
+  const record = (path: string, status: number, route?: { path: string }) => {
+    const req = { method: "GET", path: path, route: route } as Request;
+    const res: any = new EventEmitter();
+    res.statusCode = status;
+    httpMetricsMiddleware(req, res as Response, jest.fn());
+    res.emit("finish");
+  };
+
+  // Test case: unmatched URLs share one label instead of adding a series each.
+  it("should label unmatched requests with a fixed route and record the status on durations", async () => {
+    // Arrange
+    client.register.resetMetrics();
+
+    // Act
+    record("/wp-admin/setup.php", 404);
+    record("/.env", 404);
+    record("/products/p1", 200, { path: "/products/:id" });
+
+    // Assert
+    const counter = await client.register
+      .getSingleMetric("http_requests_total")!
+      .get();
+    expect(counter.values.map((v) => v.labels)).toEqual([
+      { method: "GET", route: UNMATCHED_ROUTE, status: 404 },
+      { method: "GET", route: "/products/:id", status: 200 },
+    ]);
+    const histogram = await client.register
+      .getSingleMetric("http_request_duration_seconds")!
+      .get();
+    const counts = histogram.values.filter(
+      (v: any) => v.metricName === "http_request_duration_seconds_count"
+    );
+    expect(
+      counts.map((v) => [v.labels.route, v.labels.status, v.value])
+    ).toEqual([
+      [UNMATCHED_ROUTE, 404, 2],
+      ["/products/:id", 200, 1],
+    ]);
+  });
+});
+
+describe("metricsHandler", () => {
+  // Test case: a failing scrape is answered with 500 and logged through the logger.
+  it("should log collection failures through the given logger", async () => {
+    // Arrange
+    new client.Gauge({
+      name: "test_broken_gauge",
+      help: "A gauge whose collection fails",
+      collect() {
+        throw new Error("repository unavailable");
+      },
+    });
+    const logger = new Logger("test-service");
+    const logError = jest.spyOn(logger, "error").mockImplementation(() => {});
+    const res: any = {
+      set: jest.fn().mockReturnThis(),
+      status: jest.fn().mockReturnThis(),
+      send: jest.fn(),
+      end: jest.fn(),
+    };
+
+    // Act
+    await metricsHandler(logger)({} as Request, res as Response, jest.fn());
+    client.register.removeSingleMetric("test_broken_gauge");
+
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(logError).toHaveBeenCalledWith("Error generating metrics", {
+      error: new Error("repository unavailable"),
+    });
+  });
+});
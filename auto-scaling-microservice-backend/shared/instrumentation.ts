@@ -0,0 +1,78 @@
+import { RequestHandler } from "express";
+
+// Import the official Prometheus client for Node.js to create and expose custom metrics.
+import client from "prom-client";
+
+import { Logger } from "./logger";
+
+// --- Prometheus Metrics Instrumentation ---
+//
+// Both services expose the same HTTP metrics through this module.
+
+// Enable the collection of default metrics provided by prom-client.
+// This includes metrics about CPU usage, memory, event loop lag, etc., for the Node.js process.
+export const collectDefaultMetrics = (): void => {
+  client.collectDefaultMetrics();
+};
+
+// Create a custom Prometheus Counter metric to track the total number of HTTP requests.
+const httpRequestCounter = new client.Counter({
+  name: "http_requests_total",
+  help: "Total number of HTTP requests",
+  // 'labelNames' allow us to slice and dice the metric data by different dimensions.
+  labelNames: ["method", "route", "status"],
+});
+
+// Create a custom Prometheus Histogram metric to track the duration of HTTP requests.
+// Histograms are useful for calculating percentiles (e.g., p95, p99 latency).
+const httpRequestDurationHistogram = new client.Histogram({
+  name: "http_request_duration_seconds",
+  help: "Duration of HTTP requests in seconds",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.1, 0.5, 1, 1.5, 2, 5], // 'buckets' define the time ranges (in seconds) for grouping request durations.
+});
+
+// The route label of requests no route matched (404s, scanners probing random URLs).
+// Using their raw path instead would create a new time series per URL.
+export const UNMATCHED_ROUTE = "unmatched";
+
+// Custom Express middleware to intercept all requests and record metrics.
+// This middleware must be registered before the routes to ensure it runs for every request.
+export const httpMetricsMiddleware: RequestHandler = (req, res, next) => {
+  // Start a timer for the request duration histogram.
+  const end = httpRequestDurationHistogram.startTimer();
+
+  // Use the 'finish' event on the response object, which is fired when the response is sent.
+  res.on("finish", () => {
+    // Determine the route path. `req.route.path` provides the matched pattern (e.g., /products/:id).
+    // Unmatched requests share one fixed label, which keeps the label set bounded.
+    const route = req.route ? req.route.path : UNMATCHED_ROUTE;
+
+    // Increment the request counter with the appropriate labels.
+    httpRequestCounter.inc({
+      method: req.method,
+      route: route,
+      status: res.statusCode,
+    });
+
+    // End the timer and record the duration for the corresponding route, method and status.
+    end({ method: req.method, route: route, status: res.statusCode });
+  });
+
+  // Pass control to the next middleware or route handler in the chain.
+  next();
+};
+
+// The endpoint that Prometheus will scrape to collect our custom and default metrics.
+// Failures (e.g. a gauge whose collect() throws) are logged through the service's logger.
+export const metricsHandler =
+  (logger: Logger): RequestHandler =>
+  async (req, res) => {
+    try {
+      res.set("Content-Type", client.register.contentType);
+      res.end(await client.register.metrics());
+    } catch (error) {
+      logger.error("Error generating metrics", { error: error });
+      res.status(500).send("Error generating metrics");
+    }
+  };
@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+
+import { CheckStatus, Lifecycle } from "./lifecycle";
+
+describe("Lifecycle probes", () => {
+  // Runs the readiness handler and resolves with the status code and body it sent.
+  const probe = async (lifecycle: Lifecycle) => {
+    const res: any = {};
+    res.status = jest.fn().mockImplementation((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    res.json = jest.fn().mockImplementation((payload: unknown) => {
+      res.body = payload;
+      return res;
+    });
+    await lifecycle.readinessHandler({} as Request, res as Response, jest.fn());
+    return res;
+  };
+
+  const check = (status: CheckStatus) => async () => status;
+
+  // Test case: degraded optional dependencies are reported but keep the replica ready.
+  it("should answer 200 when no check reports an error", async () => {
+    const lifecycle = new Lifecycle({
+      repository: check("ok"),
+      stockService: check("degraded"),
+    });
+
+    const res = await probe(lifecycle);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({
+      status: "ready",
+      checks: { repository: "ok", stockService: "degraded" },
+    });
+  });
+
+  // Test case: a failing or throwing check takes the replica out of rotation.
+  it("should answer 503 when a check fails or throws", async () => {
+    const lifecycle = new Lifecycle({
+      repository: () => Promise.reject(new Error("disk unavailable")),
+      stockService: check("ok"),
+    });
+
+    const res = await probe(lifecycle);
+
+    expect(res.statusCode).toBe(503);
+    expect(res.body).toEqual({
+      status: "not_ready",
+      checks: { repository: "error", stockService: "ok" },
+    });
+  });
+
+  // Test case: after SIGTERM readiness fails while liveness keeps passing.
+  it("should report shutting_down once shutdown began", async () => {
+    const lifecycle = new Lifecycle({ repository: check("ok") });
+    lifecycle.beginShutdown();
+
+    const res = await probe(lifecycle);
+    const health: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    lifecycle.healthHandler({} as Request, health as Response, jest.fn());
+
+    expect(res.statusCode).toBe(503);
+    expect(res.body.status).toBe("shutting_down");
+    expect(health.status).toHaveBeenCalledWith(200);
+  });
+});
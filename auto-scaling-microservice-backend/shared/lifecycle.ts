@@ -0,0 +1,121 @@
+import { Server } from "http";
+import { RequestHandler } from "express";
+
+import { readNonNegativeInt } from "./env";
+import { Logger } from "./logger";
+
+// --- Health Probes and Graceful Shutdown ---
+
+// The outcome of one readiness check. "degraded" marks an optional dependency that is
+// failing: it is reported, but the replica keeps receiving traffic.
+export type CheckStatus = "ok" | "degraded" | "error";
+
+export type ReadinessCheck = () => Promise<CheckStatus>;
+
+export interface ShutdownConfig {
+  // How long to keep serving after readiness flips, so Kubernetes can take the Pod
+  // out of the Service endpoints before the listener closes.
+  drainDelayMs: number;
+  // How long in-flight requests may take before their connections are cut.
+  timeoutMs: number;
+}
+
+export const readShutdownConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): ShutdownConfig => ({
+  drainDelayMs: readNonNegativeInt(env, "SHUTDOWN_DRAIN_DELAY_MS", 5000),
+  timeoutMs: readNonNegativeInt(env, "SHUTDOWN_TIMEOUT_MS", 20000),
+});
+
+/**
+ * Tracks whether the process should receive traffic and serves the probes:
+ * /healthz (liveness) answers 200 as long as the event loop responds, /readyz
+ * (readiness) runs the registered checks and answers 503 when any of them reports
+ * "error" or the process is shutting down.
+ */
+export class Lifecycle {
+  private shuttingDown = false;
+
+  constructor(private readonly checks: { [name: string]: ReadinessCheck }) {}
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  beginShutdown(): void {
+    this.shuttingDown = true;
+  }
+
+  healthHandler: RequestHandler = (req, res) => {
+    res.status(200).json({ status: "ok" });
+  };
+
+  readinessHandler: RequestHandler = async (req, res) => {
+    const names = Object.keys(this.checks);
+    const results = await Promise.all(
+      names.map((name) => this.checks[name]().catch((): CheckStatus => "error"))
+    );
+    const checks: { [name: string]: CheckStatus } = {};
+    names.forEach((name, index) => {
+      checks[name] = results[index];
+    });
+
+    const ready = !this.shuttingDown && results.indexOf("error") === -1;
+    res.status(ready ? 200 : 503).json({
+      status: this.shuttingDown
+        ? "shutting_down"
+        : ready
+          ? "ready"
+          : "not_ready",
+      checks: checks,
+    });
+  };
+}
+
+/**
+ * Stops the server gracefully on SIGTERM (sent by Kubernetes on scale-down) and
+ * SIGINT: readiness flips first, the listener keeps serving for drainDelayMs, then it
+ * stops accepting connections and waits for in-flight requests. Connections still
+ * open after timeoutMs are closed. `cleanup` runs last, e.g. to stop background loops
+ * or flush buffered telemetry; the process exits once its promise settles.
+ */
+export const installGracefulShutdown = (
+  server: Server,
+  lifecycle: Lifecycle,
+  config: ShutdownConfig,
+  logger: Logger,
+  cleanup: () => void | Promise<void> = () => undefined
+): void => {
+  const shutdown = (signal: string) => {
+    if (lifecycle.isShuttingDown()) {
+      return;
+    }
+    logger.info("Shutting down gracefully", { signal: signal });
+    lifecycle.beginShutdown();
+
+    setTimeout(() => {
+      const forceTimer = setTimeout(() => {
+        logger.warn("Requests still running; closing their connections", {
+          timeoutMs: config.timeoutMs,
+        });
+        server.closeAllConnections();
+      }, config.timeoutMs);
+
+      server.close(async () => {
+        clearTimeout(forceTimer);
+        try {
+          await cleanup();
+        } catch (error) {
+          logger.error("Error during shutdown cleanup", { error: error });
+        }
+        logger.info("Server closed");
+        process.exit(0);
+      });
+      // Keep-alive connections without a request in flight would hold close() open.
+      server.closeIdleConnections();
+    }, config.drainDelayMs);
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+};
@@ -0,0 +1,136 @@
+import { EventEmitter } from "events";
+import { Request, Response } from "express";
+
+import {
+  Logger,
+  currentRequestId,
+  readLogLevel,
+  requestLogging,
+} from "./logger";
+
+// A response stand-in that emits "finish" when a body is sent, like Express does.
+const fakeResponse = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.headers = {};
+  res.locals = {};
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.set = (name: string, value: string) => {
+    res.headers[name.toLowerCase()] = value;
+    return res;
+  };
+  res.json = (payload: unknown) => {
+    res.body = payload;
+    res.emit("finish");
+    return res;
+  };
+  return res;
+};
+
+const fakeRequest = (requestId?: string) =>
+  ({
+    method: "GET",
+    originalUrl: "/products/p1",
+    route: { path: "/products/:id" },
+    get: (name: string) =>
+      name.toLowerCase() === "x-request-id" ? requestId : undefined,
+  }) as unknown as Request;
+
+// The JSON lines written through console.log and console.error.
+let lines: any[];
+
+beforeEach(() => {
+  lines = [];
+  const capture = (line: string) => {
+    lines.push(JSON.parse(line));
+  };
+  jest.spyOn(console, "log").mockImplementation(capture);
+  jest.spyOn(console, "error").mockImplementation(capture);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("Logger", () => {
+  // Test case: entries carry the service name and serialize errors.
+  it("should write JSON lines and skip levels below the minimum", () => {
+    const logger = new Logger("product-service", "info");
+
+    logger.debug("Not written");
+    logger.error("Error listing products", { error: new Error("disk full") });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      level: "error",
+      service: "product-service",
+      message: "Error listing products",
+      error: { name: "Error", message: "disk full" },
+    });
+    expect(typeof lines[0].timestamp).toBe("string");
+  });
+
+  // Test case: unknown levels are configuration mistakes.
+  it("should reject an invalid LOG_LEVEL", () => {
+    expect(readLogLevel({ LOG_LEVEL: "DEBUG" })).toBe("debug");
+    expect(() => readLogLevel({ LOG_LEVEL: "verbose" })).toThrow(
+      "Invalid LOG_LEVEL 'verbose'. Use one of: debug, info, warn, error."
+    );
+  });
+});
+
+describe("requestLogging middleware", () => {
+  const logger = new Logger("product-service", "info");
+  const middleware = requestLogging(logger);
+
+  // Test case: the caller's ID is kept, echoed and attached to logs and error bodies.
+  it("should propagate an incoming X-Request-Id", () => {
+    // Arrange
+    const res = fakeResponse();
+    let seenInHandler: string | undefined;
+
+    // Act
+    middleware(fakeRequest("req-42"), res as Response, () => {
+      seenInHandler = currentRequestId();
+      logger.info("Handling");
+      res.status(404).json({ message: "Product not found." });
+    });
+
+    // Assert
+    expect(seenInHandler).toBe("req-42");
+    expect(res.headers["x-request-id"]).toBe("req-42");
+    expect(res.body).toEqual({
+      message: "Product not found.",
+      requestId: "req-42",
+    });
+    expect(lines[0]).toMatchObject({
+      message: "Handling",
+      requestId: "req-42",
+    });
+    expect(lines[1]).toMatchObject({
+      level: "warn",
+      message: "Request completed",
+      requestId: "req-42",
+      method: "GET",
+      route: "/products/:id",
+      status: 404,
+    });
+    expect(typeof lines[1].durationMs).toBe("number");
+  });
+
+  // Test case: a missing or malformed ID is replaced, and success bodies stay as sent.
+  it("should generate an ID when none or an invalid one was sent", () => {
+    const res = fakeResponse();
+
+    middleware(fakeRequest("bad id\n"), res as Response, () => {
+      res.status(200).json({ id: "p1" });
+    });
+
+    expect(res.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.body).toEqual({ id: "p1" });
+    expect(lines[0].requestId).toBe(res.headers["x-request-id"]);
+  });
+});
@@ -0,0 +1,156 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { RequestHandler } from "express";
+
+// --- Structured Logging ---
+//
+// Both services log through this module, so their logs can be searched together.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Ordered from the most to the least verbose.
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export type LogFields = { [name: string]: unknown };
+
+// Reads the minimum level to log from LOG_LEVEL.
+export const readLogLevel = (
+  env: NodeJS.ProcessEnv = process.env
+): LogLevel => {
+  const raw = env.LOG_LEVEL;
+  if (raw === undefined || raw === "") {
+    return "info";
+  }
+  const level = raw.toLowerCase() as LogLevel;
+  if (LOG_LEVELS.indexOf(level) === -1) {
+    throw new Error(
+      `Invalid LOG_LEVEL '${raw}'. Use one of: ${LOG_LEVELS.join(", ")}.`
+    );
+  }
+  return level;
+};
+
+// The request being handled, available to everything it calls, including async work.
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+// The X-Request-Id of the request being handled, if any.
+export const currentRequestId = (): string | undefined => {
+  const context = requestContext.getStore();
+  return context ? context.requestId : undefined;
+};
+
+// Error objects serialize to {} with JSON.stringify, so their useful parts are copied.
+const serializable = (value: unknown): unknown =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+/**
+ * Writes one JSON object per line: level, timestamp, service, message, the current
+ * request ID when called while handling a request, and any extra fields. Warnings and
+ * errors go to stderr, everything else to stdout.
+ */
+export class Logger {
+  constructor(
+    private readonly service: string,
+    private readonly minLevel: LogLevel = "info"
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.minLevel)) {
+      return;
+    }
+    const entry: LogFields = {
+      level: level,
+      timestamp: new Date().toISOString(),
+      service: this.service,
+      message: message,
+    };
+    const requestId = currentRequestId();
+    if (requestId) {
+      entry.requestId = requestId;
+    }
+    Object.keys(fields).forEach((name) => {
+      entry[name] = serializable(fields[name]);
+    });
+
+    const line = JSON.stringify(entry);
+    if (level === "warn" || level === "error") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// Accepted incoming IDs; anything else is replaced, so clients cannot inject into logs.
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Middleware that assigns every request an ID and logs it once it completes. An
+ * incoming X-Request-Id is kept, so a request can be followed across services;
+ * otherwise a UUID is generated. The ID is sent back in the X-Request-Id header,
+ * added to JSON error bodies as `requestId`, and attached to every log line written
+ * while the request is handled. Register it before the routes.
+ */
+export const requestLogging =
+  (logger: Logger): RequestHandler =>
+  (req, res, next) => {
+    const incoming = req.get("X-Request-Id");
+    const requestId =
+      incoming !== undefined && REQUEST_ID_PATTERN.test(incoming)
+        ? incoming
+        : randomUUID();
+    const startedAt = Date.now();
+    res.locals.requestId = requestId;
+    res.set("X-Request-Id", requestId);
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (
+        res.statusCode >= 400 &&
+        body !== null &&
+        typeof body === "object" &&
+        !Array.isArray(body) &&
+        (body as LogFields).requestId === undefined
+      ) {
+        return json({ ...(body as LogFields), requestId: requestId });
+      }
+      return json(body);
+    };
+
+    res.on("finish", () => {
+      const status = res.statusCode;
+      logger.log(
+        status >= 500 ? "error" : status >= 400 ? "warn" : "info",
+        "Request completed",
+        {
+          requestId: requestId,
+          method: req.method,
+          // The matched pattern (e.g. /products/:id) keeps IDs out of the field.
+          route: req.route ? req.route.path : undefined,
+          path: req.originalUrl,
+          status: status,
+          durationMs: Date.now() - startedAt,
+        }
+      );
+    });
+
+    requestContext.run({ requestId: requestId }, () => next());
+  };
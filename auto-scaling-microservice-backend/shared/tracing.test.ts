@@ -0,0 +1,195 @@
+import { EventEmitter } from "events";
+import { Request, Response } from "express";
+
+import { Logger } from "./logger";
+import {
+  InMemorySpanExporter,
+  OtlpHttpSpanExporter,
+  OtlpPostLike,
+  Tracer,
+  formatTraceparent,
+  injectTraceHeaders,
+  parseTraceparent,
+  tracingMiddleware,
+} from "./tracing";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+
+// A request that matched GET /products/:id, with the given trace headers.
+const fakeRequest = (headers: { [name: string]: string }) =>
+  ({
+    method: "GET",
+    originalUrl: "/products/p1",
+    route: { path: "/products/:id" },
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as Request;
+
+// A response stand-in that emits "finish" when a body is sent, like Express does.
+const fakeResponse = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.locals = { requestId: "req-1" };
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = () => {
+    res.writableFinished = true;
+    res.emit("finish");
+    return res;
+  };
+  return res;
+};
+
+describe("traceparent", () => {
+  // Test case: the header round-trips and invalid values start a new trace.
+  it("should parse valid headers and reject malformed or all-zero ones", () => {
+    const context = parseTraceparent(
+      `00-${TRACE_ID}-${PARENT_ID}-01`,
+      "vendor=abc"
+    );
+
+    expect(context).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      sampled: true,
+      traceState: "vendor=abc",
+    });
+    expect(formatTraceparent(context!)).toBe(`00-${TRACE_ID}-${PARENT_ID}-01`);
+    expect(parseTraceparent("00-abc-def-01")).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${"0".repeat(32)}-${PARENT_ID}-01`)
+    ).toBeUndefined();
+  });
+});
+
+describe("tracingMiddleware", () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer("product-service", exporter);
+  });
+
+  // Test case: the server span continues the caller's trace and parents handler spans.
+  it("should continue the incoming trace and propagate it to outgoing calls", async () => {
+    // Arrange
+    const res = fakeResponse();
+    let outgoing: { [name: string]: string } = {};
+
+    // Act
+    await new Promise<void>((resolve) => {
+      tracingMiddleware(() => tracer)(
+        fakeRequest({
+          traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+          tracestate: "vendor=abc",
+        }),
+        res as Response,
+        async () => {
+          await tracer.trace(
+            "stock-service get_stock",
+            async () => {
+              outgoing = injectTraceHeaders({});
+            },
+            "client"
+          );
+          res.status(200).json({});
+          resolve();
+        }
+      );
+    });
+
+    // Assert
+    const [client, server] = exporter.spans;
+    expect(server).toMatchObject({
+      name: "GET /products/:id",
+      kind: "server",
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_ID,
+      attributes: {
+        "http.route": "/products/:id",
+        "http.status_code": 200,
+        "request.id": "req-1",
+      },
+    });
+    expect(client).toMatchObject({
+      kind: "client",
+      traceId: TRACE_ID,
+      parentSpanId: server.spanId,
+    });
+    expect(outgoing).toEqual({
+      traceparent: `00-${TRACE_ID}-${client.spanId}-01`,
+      tracestate: "vendor=abc",
+    });
+  });
+
+  // Test case: an unsampled caller keeps propagating but nothing is exported.
+  it("should not export spans of an unsampled trace", () => {
+    const res = fakeResponse();
+
+    tracingMiddleware(() => tracer)(
+      fakeRequest({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` }),
+      res as Response,
+      () => {
+        res.status(500).json({});
+      }
+    );
+
+    expect(exporter.spans).toHaveLength(0);
+  });
+
+  // Test case: failures inside traced work mark the span and are rethrown.
+  it("should record errors thrown by traced work", async () => {
+    await expect(
+      tracer.trace("inventory.reconcile", async () => {
+        throw new Error("stock service down");
+      })
+    ).rejects.toThrow("stock service down");
+
+    expect(exporter.spans[0]).toMatchObject({
+      name: "inventory.reconcile",
+      kind: "internal",
+      status: "error",
+      statusMessage: "stock service down",
+    });
+  });
+});
+
+describe("OtlpHttpSpanExporter", () => {
+  // Test case: buffered spans are sent as one OTLP/JSON request.
+  it("should post buffered spans to the collector in OTLP JSON", async () => {
+    const posts: { url: string; body: any }[] = [];
+    const postImpl: OtlpPostLike = async (url, init) => {
+      posts.push({ url, body: JSON.parse(init.body) });
+      return { status: 200 };
+    };
+    const exporter = new OtlpHttpSpanExporter(
+      "http://collector:4318",
+      "stock-service",
+      new Logger("stock-service"),
+      postImpl
+    );
+    const tracer = new Tracer("stock-service", exporter);
+
+    tracer.trace("stock.batch_lookup", (span) => {
+      span.setAttribute("stock.product_count", 3);
+    });
+    await exporter.flush();
+    await exporter.flush();
+
+    expect(posts).toHaveLength(1);
+    expect(posts[0].url).toBe("http://collector:4318/v1/traces");
+    const resourceSpans = posts[0].body.resourceSpans[0];
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "stock-service" } },
+    ]);
+    expect(resourceSpans.scopeSpans[0].spans[0]).toMatchObject({
+      name: "stock.batch_lookup",
+      kind: 1,
+      attributes: [{ key: "stock.product_count", value: { intValue: "3" } }],
+      status: { code: 0 },
+    });
+  });
+});
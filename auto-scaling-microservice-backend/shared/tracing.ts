@@ -0,0 +1,472 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { RequestHandler } from "express";
+
+import { Logger } from "./logger";
+
+// --- Distributed Tracing ---
+//
+// W3C Trace Context (traceparent/tracestate) propagation and a small span API, so a
+// request can be followed from the Product Service into the Stock Service.
+
+export interface SpanContext {
+  // 32 lowercase hex characters, shared by every span of one trace.
+  traceId: string;
+  // 16 lowercase hex characters, unique per span.
+  spanId: string;
+  // Whether the trace is recorded; a caller's decision is kept by every service.
+  sampled: boolean;
+  // Vendor data from the caller's tracestate header, passed on unchanged.
+  traceState?: string;
+}
+
+export type SpanKind = "internal" | "server" | "client";
+
+export type SpanAttributes = { [name: string]: string | number | boolean };
+
+// A span once it has ended, as handed to exporters.
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  // Milliseconds since the epoch.
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: "unset" | "ok" | "error";
+  statusMessage?: string;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = "00000000000000000000000000000000";
+const INVALID_SPAN_ID = "0000000000000000";
+
+// Reads the caller's span context. Malformed or all-zero headers start a new trace.
+export const parseTraceparent = (
+  traceparent: string | undefined,
+  tracestate?: string
+): SpanContext | undefined => {
+  const match = traceparent
+    ? TRACEPARENT_PATTERN.exec(traceparent.trim())
+    : null;
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) {
+    return undefined;
+  }
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (parseInt(match[3], 16) & 1) === 1,
+    traceState: tracestate ? tracestate.trim() : undefined,
+  };
+};
+
+export const formatTraceparent = (context: SpanContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+
+/**
+ * One unit of work in a trace. Spans are started by a Tracer and must be ended
+ * exactly once; ending hands them to the tracer's exporter.
+ */
+export class Span {
+  readonly context: SpanContext;
+  readonly startTime = Date.now();
+  private readonly attributes: SpanAttributes = {};
+  private status: FinishedSpan["status"] = "unset";
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(
+    private readonly onEnd: (span: FinishedSpan) => void,
+    private name: string,
+    readonly kind: SpanKind,
+    private readonly parent?: SpanContext
+  ) {
+    this.context = {
+      traceId: parent ? parent.traceId : randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex"),
+      sampled: parent ? parent.sampled : true,
+      traceState: parent ? parent.traceState : undefined,
+    };
+  }
+
+  updateName(name: string): void {
+    this.name = name;
+  }
+
+  setAttribute(name: string, value: string | number | boolean): void {
+    this.attributes[name] = value;
+  }
+
+  setError(error: unknown): void {
+    this.status = "error";
+    this.statusMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.onEnd({
+      name: this.name,
+      kind: this.kind,
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parent ? this.parent.spanId : undefined,
+      startTime: this.startTime,
+      endTime: Date.now(),
+      attributes: this.attributes,
+      status: this.status,
+      statusMessage: this.statusMessage,
+    });
+  }
+}
+
+// --- Exporters ---
+
+export interface SpanExporter {
+  export(span: FinishedSpan): void;
+  // Sends spans that are still buffered, e.g. before the process exits.
+  flush(): Promise<void>;
+}
+
+// Writes every span as one JSON line, next to the service's logs.
+export class ConsoleSpanExporter implements SpanExporter {
+  export(span: FinishedSpan): void {
+    console.log(JSON.stringify({ span: span }));
+  }
+
+  async flush(): Promise<void> {
+    return;
+  }
+}
+
+// Keeps spans in memory so tests can assert on them.
+export class InMemorySpanExporter implements SpanExporter {
+  readonly spans: FinishedSpan[] = [];
+
+  export(span: FinishedSpan): void {
+    this.spans.push(span);
+  }
+
+  async flush(): Promise<void> {
+    return;
+  }
+
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
+
+// The subset of the fetch API the OTLP exporter needs, so tests can pass a fake.
+export type OtlpPostLike = (
+  url: string,
+  init: {
+    method: "POST";
+    headers: { [name: string]: string };
+    body: string;
+  }
+) => Promise<{ status: number }>;
+
+// OTLP span kinds: 1 internal, 2 server, 3 client.
+const OTLP_SPAN_KINDS: { [kind: string]: number } = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+// OTLP status codes: 0 unset, 1 ok, 2 error.
+const OTLP_STATUS_CODES: { [status: string]: number } = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+const otlpValue = (value: string | number | boolean) => {
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+};
+
+const otlpAttributes = (attributes: SpanAttributes) =>
+  Object.keys(attributes).map((key) => ({
+    key: key,
+    value: otlpValue(attributes[key]),
+  }));
+
+// Milliseconds to the nanosecond strings OTLP expects, without float rounding.
+const unixNano = (ms: number): string => `${ms}000000`;
+
+/**
+ * Sends spans to an OpenTelemetry collector with OTLP/HTTP in its JSON encoding
+ * (POST {endpoint}/v1/traces). Spans are buffered and sent in batches, once
+ * maxBatchSize spans are waiting or every flushIntervalMs. A failed batch is dropped:
+ * tracing must never slow down or break request handling.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private buffer: FinishedSpan[] = [];
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly serviceName: string,
+    private readonly logger: Logger,
+    private readonly postImpl: OtlpPostLike = fetch,
+    private readonly options = { maxBatchSize: 512, flushIntervalMs: 5000 }
+  ) {
+    // unref() so a pending flush never keeps the process (or a test run) alive.
+    setInterval(() => {
+      this.flush();
+    }, this.options.flushIntervalMs).unref();
+  }
+
+  export(span: FinishedSpan): void {
+    this.buffer.push(span);
+    if (this.buffer.length >= this.options.maxBatchSize) {
+      this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) {
+      return;
+    }
+    const spans = this.buffer;
+    this.buffer = [];
+    try {
+      const response = await this.postImpl(`${this.endpoint}/v1/traces`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(this.toOtlp(spans)),
+      });
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Collector answered with status ${response.status}.`);
+      }
+    } catch (error) {
+      this.logger.warn("Dropped spans the collector did not accept", {
+        spans: spans.length,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private toOtlp(spans: FinishedSpan[]) {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: otlpAttributes({ "service.name": this.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: "auto-scaling-microservice" },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                name: span.name,
+                kind: OTLP_SPAN_KINDS[span.kind],
+                startTimeUnixNano: unixNano(span.startTime),
+                endTimeUnixNano: unixNano(span.endTime),
+                attributes: otlpAttributes(span.attributes),
+                status: {
+                  code: OTLP_STATUS_CODES[span.status],
+                  message: span.statusMessage,
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
+
+export interface TracingConfig {
+  serviceName: string;
+  exporter: "none" | "console" | "otlp";
+  // Base URL of the OTLP/HTTP receiver, e.g. an OpenTelemetry collector.
+  otlpEndpoint: string;
+}
+
+const EXPORTERS = ["none", "console", "otlp"];
+
+// Reads the tracing settings from environment variables.
+export const readTracingConfig = (
+  defaultServiceName: string,
+  env: NodeJS.ProcessEnv = process.env
+): TracingConfig => {
+  const exporter = env.TRACING_EXPORTER || "none";
+  if (EXPORTERS.indexOf(exporter) === -1) {
+    throw new Error(
+      `Invalid TRACING_EXPORTER '${exporter}'. Use one of: ${EXPORTERS.join(", ")}.`
+    );
+  }
+  return {
+    serviceName: env.OTEL_SERVICE_NAME || defaultServiceName,
+    exporter: exporter as TracingConfig["exporter"],
+    otlpEndpoint: (
+      env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318"
+    ).replace(/\/+$/, ""),
+  };
+};
+
+// Without an exporter spans are still created, so trace context keeps propagating.
+export const createSpanExporter = (
+  config: TracingConfig,
+  logger: Logger
+): SpanExporter | undefined => {
+  if (config.exporter === "console") {
+    return new ConsoleSpanExporter();
+  }
+  if (config.exporter === "otlp") {
+    return new OtlpHttpSpanExporter(
+      config.otlpEndpoint,
+      config.serviceName,
+      logger
+    );
+  }
+  return undefined;
+};
+
+// --- Tracer ---
+
+// The span the current request or task runs in, available across async calls.
+const activeSpanStorage = new AsyncLocalStorage<Span>();
+
+export const activeSpan = (): Span | undefined => activeSpanStorage.getStore();
+
+/**
+ * Starts spans and hands sampled ones to the exporter when they end.
+ */
+export class Tracer {
+  constructor(
+    readonly serviceName: string,
+    readonly exporter?: SpanExporter
+  ) {}
+
+  // Starts a span under `parent`; without one the span starts a new trace.
+  startSpan(name: string, kind: SpanKind, parent?: SpanContext): Span {
+    const span: Span = new Span(
+      (finished) => {
+        if (this.exporter && span.context.sampled) {
+          this.exporter.export(finished);
+        }
+      },
+      name,
+      kind,
+      parent
+    );
+    return span;
+  }
+
+  /**
+   * Runs `work` in a new child span of the active span and ends the span once the
+   * work returns or its promise settles. Errors mark the span as failed and are
+   * rethrown unchanged.
+   */
+  trace<T>(
+    name: string,
+    work: (span: Span) => T,
+    kind: SpanKind = "internal"
+  ): T {
+    const parent = activeSpan();
+    const span = this.startSpan(name, kind, parent && parent.context);
+    return activeSpanStorage.run(span, () => {
+      let result: T;
+      try {
+        result = work(span);
+      } catch (error) {
+        span.setError(error);
+        span.end();
+        throw error;
+      }
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => {
+            span.end();
+            return value;
+          },
+          (error) => {
+            span.setError(error);
+            span.end();
+            throw error;
+          }
+        ) as unknown as T;
+      }
+      span.end();
+      return result;
+    });
+  }
+}
+
+// Adds traceparent/tracestate for the active span to outgoing request headers.
+export const injectTraceHeaders = (headers: { [name: string]: string }) => {
+  const span = activeSpan();
+  if (span) {
+    headers.traceparent = formatTraceparent(span.context);
+    if (span.context.traceState) {
+      headers.tracestate = span.context.traceState;
+    }
+  }
+  return headers;
+};
+
+/**
+ * Middleware that continues the caller's trace (or starts one) with a server span per
+ * request. The span is named after the matched route, e.g. "GET /products/:id", and
+ * is the parent of every span the handler starts, including outgoing calls. Register
+ * it before the routes.
+ */
+export const tracingMiddleware =
+  (getTracer: () => Tracer): RequestHandler =>
+  (req, res, next) => {
+    const span = getTracer().startSpan(
+      req.method,
+      "server",
+      parseTraceparent(req.get("traceparent"), req.get("tracestate"))
+    );
+    span.setAttribute("http.method", req.method);
+    span.setAttribute("http.target", req.originalUrl);
+
+    res.on("finish", () => {
+      if (req.route) {
+        span.updateName(`${req.method} ${req.route.path}`);
+        span.setAttribute("http.route", req.route.path);
+      }
+      if (res.locals.requestId) {
+        span.setAttribute("request.id", res.locals.requestId);
+      }
+      span.setAttribute("http.status_code", res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setError(`HTTP ${res.statusCode}`);
+      }
+      span.end();
+    });
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        span.setError("Connection closed before the response was sent");
+        span.end();
+      }
+    });
+
+    activeSpanStorage.run(span, () => next());
+  };
+
+// --- Global Tracer ---
+
+// Replaced at startup with a tracer that exports; tests swap in an in-memory one.
+let globalTracer = new Tracer("unknown-service");
+
+export const getTracer = (): Tracer => globalTracer;
+
+export const setTracer = (tracer: Tracer): void => {
+  globalTracer = tracer;
+};
@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { withFileLock } from "../shared/fileLock";
+import { ProductRepositoryConfig } from "./productRepository";
+import { Category } from "./types";
+
+// --- Category Repository ---
+
+// Storage contract for categories, keyed by slug. Mirrors ProductRepository so both
+// stores are picked by the same PRODUCT_REPOSITORY driver.
+export interface CategoryRepository {
+  findAll(): Promise<Category[]>;
+  findBySlug(slug: string): Promise<Category | undefined>;
+  // Resolves to undefined if a category with the same slug already exists.
+  create(category: Category): Promise<Category | undefined>;
+  // Replaces the stored category with the same slug. Resolves to undefined if it does not exist.
+  update(category: Category): Promise<Category | undefined>;
+  // Resolves to true if a category was removed, false if the slug was unknown.
+  delete(slug: string): Promise<boolean>;
+}
+
+const cloneCategory = (category: Category): Category => ({ ...category });
+
+// The changes shared by both implementations, applied to a plain array.
+const insertCategory = (
+  categories: Category[],
+  category: Category
+): Category | undefined => {
+  if (categories.some((c) => c.slug === category.slug)) {
+    return undefined;
+  }
+  categories.push(cloneCategory(category));
+  return cloneCategory(category);
+};
+
+const replaceCategory = (
+  categories: Category[],
+  category: Category
+): Category | undefined => {
+  const index = categories.findIndex((c) => c.slug === category.slug);
+  if (index === -1) {
+    return undefined;
+  }
+  categories[index] = cloneCategory(category);
+  return cloneCategory(category);
+};
+
+const removeCategory = (categories: Category[], slug: string): boolean => {
+  const index = categories.findIndex((c) => c.slug === slug);
+  if (index === -1) {
+    return false;
+  }
+  categories.splice(index, 1);
+  return true;
+};
+
+/**
+ * Keeps categories in a plain array inside the process, like InMemoryProductRepository.
+ */
+export class InMemoryCategoryRepository implements CategoryRepository {
+  private categories: Category[];
+
+  constructor(initialCategories: Category[] = []) {
+    this.categories = initialCategories.map(cloneCategory);
+  }
+
+  async findAll(): Promise<Category[]> {
+    return this.categories.map(cloneCategory);
+  }
+
+  async findBySlug(slug: string): Promise<Category | undefined> {
+    const category = this.categories.find((c) => c.slug === slug);
+    return category ? cloneCategory(category) : undefined;
+  }
+
+  async create(category: Category): Promise<Category | undefined> {
+    return insertCategory(this.categories, category);
+  }
+
+  async update(category: Category): Promise<Category | undefined> {
+    return replaceCategory(this.categories, category);
+  }
+
+  async delete(slug: string): Promise<boolean> {
+    return removeCategory(this.categories, slug);
+  }
+}
+
+type StoredCategory = Omit<Category, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+const reviveCategory = (stored: StoredCategory): Category => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt),
+});
+
+/**
+ * Persists categories as a JSON document, seeded on first start. Categories change
+ * rarely, so unlike FileProductRepository the file is simply re-read on every call.
+ * Writes hold the same kind of lock file, so replicas sharing a volume take turns.
+ */
+export class FileCategoryRepository implements CategoryRepository {
+  private tempFileCounter = 0;
+  // Mutations are chained so read-modify-write cycles of one process queue up here.
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seedCategories: Category[] = []
+  ) {}
+
+  async findAll(): Promise<Category[]> {
+    return this.load();
+  }
+
+  async findBySlug(slug: string): Promise<Category | undefined> {
+    return (await this.load()).find((c) => c.slug === slug);
+  }
+
+  async create(category: Category): Promise<Category | undefined> {
+    return this.mutate((categories) => insertCategory(categories, category));
+  }
+
+  async update(category: Category): Promise<Category | undefined> {
+    return this.mutate((categories) => replaceCategory(categories, category));
+  }
+
+  async delete(slug: string): Promise<boolean> {
+    return this.mutate((categories) => removeCategory(categories, slug));
+  }
+
+  private mutate<T>(change: (categories: Category[]) => T): Promise<T> {
+    const run = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      return withFileLock(`${this.filePath}.lock`, async () => {
+        const categories = await this.load();
+        const result = change(categories);
+        await this.persist(categories);
+        return result;
+      });
+    };
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next;
+    return next;
+  }
+
+  private async load(): Promise<Category[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      const seeded = this.seedCategories.map(cloneCategory);
+      await this.persist(seeded);
+      return seeded;
+    }
+    const stored: StoredCategory[] = raw.trim() ? JSON.parse(raw) : [];
+    return stored.map(reviveCategory);
+  }
+
+  private async persist(categories: Category[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.${++this.tempFileCounter}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(categories, null, 2), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// Builds the category store for the configured driver, seeded with the given categories.
+export const createCategoryRepository = (
+  config: ProductRepositoryConfig,
+  seedCategories: Category[] = []
+): CategoryRepository =>
+  config.driver === "file"
+    ? new FileCategoryRepository(config.categoriesFilePath, seedCategories)
+    : new InMemoryCategoryRepository(seedCategories);
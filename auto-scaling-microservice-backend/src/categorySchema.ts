@@ -0,0 +1,134 @@
+import { FieldError } from "./productSchema";
+
+// --- Category Input Schema ---
+
+// Lowercase words separated by single dashes, e.g. "home-office".
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_NAME_LENGTH = 100;
+const MAX_SLUG_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Turns a category name into its slug: "Home & Office" -> "home-office".
+ * Accents are dropped and every run of other characters becomes a single dash, so
+ * "Accessories", "accessories" and " ACCESSORIES " all map to the same category.
+ */
+export const slugify = (value: string): string =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// The client-writable part of a Category.
+export interface CategoryInput {
+  slug: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * Validates a category payload for POST /categories (no `currentSlug`) or
+ * PUT /categories/:slug (`currentSlug` set). The slug defaults to the slugified name
+ * on create and can never change afterwards, because products reference it.
+ */
+export const validateCategoryInput = (
+  body: unknown,
+  currentSlug?: string
+): { value?: CategoryInput; errors: FieldError[] } => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return {
+      errors: [
+        {
+          field: "body",
+          code: "invalid_type",
+          message: "Request body must be a JSON object.",
+        },
+      ],
+    };
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (input.name === undefined || input.name === null) {
+    errors.push({
+      field: "name",
+      code: "required",
+      message: "name is required.",
+    });
+  } else if (typeof input.name !== "string") {
+    errors.push({
+      field: "name",
+      code: "invalid_type",
+      message: "name must be a string.",
+    });
+  } else if (name === "") {
+    errors.push({
+      field: "name",
+      code: "empty",
+      message: "name cannot be empty.",
+    });
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push({
+      field: "name",
+      code: "too_long",
+      message: `name must be at most ${MAX_NAME_LENGTH} characters long.`,
+    });
+  }
+
+  let slug = currentSlug || slugify(name);
+  if (input.slug !== undefined && input.slug !== null) {
+    if (typeof input.slug !== "string") {
+      errors.push({
+        field: "slug",
+        code: "invalid_type",
+        message: "slug must be a string.",
+      });
+    } else if (currentSlug !== undefined && input.slug !== currentSlug) {
+      errors.push({
+        field: "slug",
+        code: "not_allowed",
+        message: "slug cannot be changed.",
+      });
+    } else {
+      slug = input.slug.trim();
+    }
+  }
+  if (
+    errors.every((e) => e.field !== "slug") &&
+    name !== "" &&
+    (!SLUG_PATTERN.test(slug) || slug.length > MAX_SLUG_LENGTH)
+  ) {
+    errors.push({
+      field: "slug",
+      code: "invalid_format",
+      message: `slug must be lowercase letters, digits and single dashes, at most ${MAX_SLUG_LENGTH} characters long.`,
+    });
+  }
+
+  let description: string | undefined;
+  if (input.description !== undefined && input.description !== null) {
+    if (typeof input.description !== "string") {
+      errors.push({
+        field: "description",
+        code: "invalid_type",
+        message: "description must be a string.",
+      });
+    } else if (input.description.trim().length > MAX_DESCRIPTION_LENGTH) {
+      errors.push({
+        field: "description",
+        code: "too_long",
+        message: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters long.`,
+      });
+    } else {
+      description = input.description.trim() || undefined;
+    }
+  }
+
+  return errors.length > 0
+    ? { errors }
+    : { value: { slug, name, description }, errors };
+};
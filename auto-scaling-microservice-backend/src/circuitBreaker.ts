@@ -0,0 +1,101 @@
+// --- Circuit Breaker ---
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+// Thrown instead of calling the downstream service while the circuit is open.
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Circuit '${name}' is open; not calling the downstream service.`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit; at least 1.
+  failureThreshold: number;
+  // How long the circuit stays open before one trial call is let through.
+  resetTimeoutMs: number;
+  // Whether an error counts as a failure of the dependency. Errors that prove it
+  // answered, such as a rejected request, do not; by default every error counts.
+  isFailure?: (error: unknown) => boolean;
+  // Clock used to time the open period; replaced in tests.
+  now?: () => number;
+}
+
+/**
+ * Stops calling a failing dependency for a while so every request does not have to
+ * wait for its timeout. After `failureThreshold` consecutive failures the circuit
+ * opens and calls fail fast with CircuitOpenError. Once `resetTimeoutMs` has passed a
+ * single trial call is allowed (half-open): success closes the circuit again, failure
+ * re-opens it. Errors that `isFailure` rejects are passed on but count as an answer,
+ * like a success.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly now: () => number;
+  private readonly isFailure: (error: unknown) => boolean;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {
+    // With a threshold of 0 the circuit would open before the first call.
+    if (
+      !Number.isInteger(options.failureThreshold) ||
+      options.failureThreshold < 1
+    ) {
+      throw new Error(
+        `Invalid failure threshold '${options.failureThreshold}' for circuit '${name}'. Use a positive integer.`
+      );
+    }
+    this.now = options.now || Date.now;
+    this.isFailure = options.isFailure || (() => true);
+  }
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      this.now() - this.openedAt >= this.options.resetTimeoutMs
+    ) {
+      this.state = "half-open";
+    }
+    return this.state;
+  }
+
+  async execute<T>(action: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    this.trialInFlight = state === "half-open";
+    try {
+      const result = await action();
+      this.state = "closed";
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      if (!this.isFailure(error)) {
+        this.state = "closed";
+        this.consecutiveFailures = 0;
+        throw error;
+      }
+      this.consecutiveFailures++;
+      if (
+        state === "half-open" ||
+        this.consecutiveFailures >= this.options.failureThreshold
+      ) {
+        this.state = "open";
+        this.openedAt = this.now();
+      }
+      throw error;
+    } finally {
+      if (state === "half-open") {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+
+import { Product } from "./types";
+
+// --- Entity Tags for Optimistic Concurrency ---
+
+// A strong ETag derived from the full product representation, so any change to any
+// field (including updatedAt) produces a different tag.
+export const computeProductETag = (product: Product): string =>
+  `"${createHash("sha1").update(JSON.stringify(product)).digest("base64url")}"`;
+
+/**
+ * The ETag of a product as GET sends it. When the body is the stored product the tag
+ * is the product's ETag. When the body carries live stock from the stock service, a
+ * hash of the body is appended ("<stored>.<body>"), so If-None-Match notices stock
+ * changes while If-Match still only compares the stored part (see ifMatchSatisfied).
+ */
+export const computeRepresentationETag = (
+  stored: Product,
+  body: Product
+): string => {
+  const storedTag = computeProductETag(stored);
+  const json = JSON.stringify(body);
+  if (json === JSON.stringify(stored)) {
+    return storedTag;
+  }
+  const bodyHash = createHash("sha1").update(json).digest("base64url");
+  return `${storedTag.slice(0, -1)}.${bodyHash}"`;
+};
+
+// Reduces a representation ETag to the stored product's ETag. base64url never
+// contains ".", so stored tags pass through unchanged.
+const storedPartOf = (tag: string): string =>
+  tag.replace(/\.[A-Za-z0-9_-]+"$/, '"');
+
+// Splits an If-Match / If-None-Match header value into its individual entity tags.
+const parseETagList = (header: string): string[] =>
+  header
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+
+/**
+ * Evaluates an If-Match header (RFC 9110 section 13.1.1) using strong comparison.
+ * A missing header is always satisfied; weak tags never match. Representation tags
+ * from GET match through their stored part, since writes only concern the stored
+ * product and not the live stock shown with it.
+ */
+export const ifMatchSatisfied = (
+  header: string | undefined,
+  etag: string
+): boolean => {
+  if (header === undefined) {
+    return true;
+  }
+  return parseETagList(header).some(
+    (tag) => tag === "*" || storedPartOf(tag) === etag
+  );
+};
+
+/**
+ * Evaluates an If-None-Match header (RFC 9110 section 13.1.2) using weak comparison.
+ * Returns true when the client's cached copy is still current.
+ */
+export const ifNoneMatchMatches = (
+  header: string | undefined,
+  etag: string
+): boolean => {
+  if (header === undefined) {
+    return false;
+  }
+  return parseETagList(header).some(
+    (tag) => tag === "*" || tag.replace(/^W\//, "") === etag
+  );
+};
@@ -4,16 +4,58 @@ import { Request, Response } from "express";
 // Import the handlers and other necessary components from our main application file (index.ts).
 import {
   createProductHandler,
-  products, // The in-memory array used as a database, imported for state verification and reset.
+  setProductRepository, // Lets each test install a fresh repository, isolating state between tests.
   Product, // The TypeScript interface for a Product, used for type safety in tests.
   listProductsHandler,
   getProductByIdHandler,
   updateProductHandler,
+  patchProductHandler,
   deleteProductHandler,
+  listTrashHandler,
+  restoreProductHandler,
+  purgeProductHandler,
+  importProductsHandler,
+  exportProductsHandler,
+  setRevisionRepository,
+  listProductHistoryHandler,
+  getProductRevisionHandler,
+  setCategoryRepository,
+  createCategoryHandler,
+  listCategoriesHandler,
+  getCategoryHandler,
+  updateCategoryHandler,
+  deleteCategoryHandler,
+  setStockClient,
+  setStockCache,
+  setEventPublisher,
+  dispatchProductEvents,
+  productIdempotency,
+  setIdempotencyStore,
 } from "./index";
+import {
+  FileIdempotencyStore,
+  InMemoryIdempotencyStore,
+} from "../shared/idempotency";
+import { EventEmitter } from "events";
+
+// The in-memory repository implementation, used as a throwaway database in every test.
+import { InMemoryProductRepository } from "./productRepository";
+import { InMemoryRevisionRepository } from "./revisionRepository";
+import { InMemoryCategoryRepository } from "./categoryRepository";
+import { StockClient, StockLookup } from "./stockClient";
+import { StockCache } from "./stockCache";
+import { OutboxEvent } from "./outbox";
+
+// Import the ETag helper to compute the tag a client would have received.
+import { computeProductETag, ifMatchSatisfied } from "./etag";
+import { metricsHandler } from "../shared/instrumentation";
+import { Logger } from "../shared/logger";
 
 // Import the uuid library to generate unique IDs for test data.
 import { v4 as uuid } from "uuid";
+import { promises as fsPromises } from "fs";
+import os from "os";
+import path from "path";
 
 // The main test suite for all handlers related to the Product API.
 describe("Product API Handlers", () => {
@@ -21,15 +63,43 @@ describe("Product API Handlers", () => {
   let mockRequest: Partial<Request>; // A partial mock of the Express Request object.
   let mockResponse: Partial<Response>; // A partial mock of the Express Response object.
   let responseJsonPayload: any; // A variable to capture the payload sent via res.json().
+  let repository: InMemoryProductRepository; // The repository the handlers read and write in each test.
+  let categories: InMemoryCategoryRepository; // The categories products may reference in each test.
+
+  // Every product written through a handler must name an existing category, so each
+  // test starts with the categories used by the payloads below.
+  beforeEach(() => {
+    categories = new InMemoryCategoryRepository(
+      [
+        "Electronics",
+        "Updated Electronics",
+        "Testing",
+        "Testing Update",
+        "Incomplete",
+        "ValidationTest",
+        "Trim",
+        "Home",
+        "Furniture",
+        "Concurrency",
+      ].map((name) => ({
+        slug: name.toLowerCase().replace(/ /g, "-"),
+        name: name,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }))
+    );
+    setCategoryRepository(categories);
+  });
 
   // Test suite for the createProductHandler function.
   describe("createProductHandler", () => {
     // A setup function that runs before each test case ('it' block) in this suite.
     beforeEach(() => {
-      // Reset the state: Clear the in-memory products array to ensure tests are isolated.
-      products.length = 0;
+      // Reset the state: Install an empty in-memory repository to ensure tests are isolated.
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
       // Initialize a fresh mock request object for each test.
-      mockRequest = { body: {} };
+      mockRequest = { body: {}, headers: {} };
       // Reset the payload catcher.
       responseJsonPayload = {};
       // Initialize a fresh mock response object for each test.
@@ -47,7 +117,7 @@ describe("Product API Handlers", () => {
     });
 
     // Test case for the "happy path": creating a product with all valid fields.
-    it("should create a new product with all fields (including mandatory imageUrl) and return 201", () => {
+    it("should create a new product with all fields (including mandatory imageUrl) and return 201", async () => {
       // Arrange: Set up the mock request body with all necessary and optional data.
       mockRequest.body = {
         name: "Super Laptop Pro",
@@ -61,7 +131,7 @@ describe("Product API Handlers", () => {
       };
 
       // Act: Call the handler function with the mocked request, response, and a mock 'next' function.
-      createProductHandler(
+      await createProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -81,19 +151,20 @@ describe("Product API Handlers", () => {
       expect(responseJsonPayload.stockQuantity).toBe(
         mockRequest.body.stockQuantity
       );
-      expect(responseJsonPayload.category).toBe(mockRequest.body.category);
+      expect(responseJsonPayload.category).toBe("electronics"); // Categories are stored by slug.
       expect(responseJsonPayload.imageUrl).toBe(mockRequest.body.imageUrl);
       expect(responseJsonPayload.createdAt).toBeDefined();
       expect(responseJsonPayload.updatedAt).toBeDefined();
 
-      // Assert the side effect: the product should be added to the in-memory array.
-      expect(products.length).toBe(1);
-      expect(products[0].name).toBe(mockRequest.body.name);
-      expect(products[0].imageUrl).toBe(mockRequest.body.imageUrl);
+      // Assert the side effect: the product should be saved in the repository.
+      const storedProducts = await repository.findAll();
+      expect(storedProducts.length).toBe(1);
+      expect(storedProducts[0].name).toBe(mockRequest.body.name);
+      expect(storedProducts[0].imageUrl).toBe(mockRequest.body.imageUrl);
     });
 
     // Test case: creating a product where optional fields are omitted.
-    it("should create a product if optional detailedDescription is missing but mandatory imageUrl is present, and return 201", () => {
+    it("should create a product if optional detailedDescription is missing but mandatory imageUrl is present, and return 201", async () => {
       // Arrange: provide only the mandatory fields.
       mockRequest.body = {
         name: "Standard Laptop",
@@ -106,7 +177,7 @@ describe("Product API Handlers", () => {
       };
 
       // Act
-      createProductHandler(
+      await createProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -117,12 +188,13 @@ describe("Product API Handlers", () => {
       expect(responseJsonPayload.name).toBe(mockRequest.body.name);
       expect(responseJsonPayload.imageUrl).toBe(mockRequest.body.imageUrl);
       expect(responseJsonPayload.detailedDescription).toBeUndefined(); // Verify the optional field is undefined.
-      expect(products.length).toBe(1);
-      expect(products[0].detailedDescription).toBeUndefined();
+      const storedProducts = await repository.findAll();
+      expect(storedProducts.length).toBe(1);
+      expect(storedProducts[0].detailedDescription).toBeUndefined();
     });
 
     // Test case: request is missing a mandatory field (imageUrl).
-    it("should return 400 if mandatory imageUrl is missing", () => {
+    it("should return 400 if mandatory imageUrl is missing", async () => {
       // Arrange: create a request body without the 'imageUrl' field.
       mockRequest.body = {
         name: "Product Without Image",
@@ -132,7 +204,7 @@ describe("Product API Handlers", () => {
         category: "Testing",
       };
       // Act
-      createProductHandler(
+      await createProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -140,15 +212,20 @@ describe("Product API Handlers", () => {
 
       // Assert
       expect(mockResponse.status).toHaveBeenCalledWith(400); // Expect a 'Bad Request' status.
-      // Assert that the error message correctly identifies the missing fields.
-      expect(responseJsonPayload.message).toBe(
-        "Please provide all required fields: name, description, price, stockQuantity, category, imageUrl"
-      );
-      expect(products.length).toBe(0); // No product should have been added.
+      // Assert that the field errors correctly identify the missing field.
+      expect(responseJsonPayload.message).toBe("Product validation failed.");
+      expect(responseJsonPayload.errors).toEqual([
+        {
+          field: "imageUrl",
+          code: "required",
+          message: "imageUrl is required.",
+        },
+      ]);
+      expect((await repository.findAll()).length).toBe(0); // No product should have been added.
     });
 
     // Test case: request is missing another mandatory field (name).
-    it("should return 400 if other required fields (e.g., name) are missing", () => {
+    it("should return 400 if other required fields (e.g., name) are missing", async () => {
       // Arrange
       mockRequest.body = {
         // 'name' field is missing.
@@ -159,7 +236,7 @@ describe("Product API Handlers", () => {
         imageUrl: "https://example.com/incomplete.jpg",
       };
       // Act
-      createProductHandler(
+      await createProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -167,14 +244,15 @@ describe("Product API Handlers", () => {
 
       // Assert
       expect(mockResponse.status).toHaveBeenCalledWith(400);
-      expect(responseJsonPayload.message).toBe(
-        "Please provide all required fields: name, description, price, stockQuantity, category, imageUrl"
-      );
-      expect(products.length).toBe(0);
+      expect(responseJsonPayload.message).toBe("Product validation failed.");
+      expect(responseJsonPayload.errors).toEqual([
+        { field: "name", code: "required", message: "name is required." },
+      ]);
+      expect((await repository.findAll()).length).toBe(0);
     });
 
     // Test case: request has data with an incorrect type (price as string).
-    it("should return 400 if price is not a number", () => {
+    it("should return 400 if price is not a number", async () => {
       // Arrange
       mockRequest.body = {
         name: "Invalid Price Product",
@@ -185,7 +263,7 @@ describe("Product API Handlers", () => {
         imageUrl: "https://example.com/invalid-price.jpg",
       };
       // Act
-      createProductHandler(
+      await createProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -193,10 +271,72 @@ describe("Product API Handlers", () => {
 
       // Assert
       expect(mockResponse.status).toHaveBeenCalledWith(400);
-      expect(responseJsonPayload.message).toBe(
-        "Fields price and stockQuantity must be numbers."
+      expect(responseJsonPayload.errors).toEqual([
+        {
+          field: "price",
+          code: "invalid_type",
+          message: "price must be a number.",
+        },
+      ]);
+      expect((await repository.findAll()).length).toBe(0);
+    });
+
+    // Test case: every failing field is reported at once, not just the first one.
+    it("should return 400 listing every invalid field (negative price, fractional stock, blank name, bad URL)", async () => {
+      // Arrange
+      mockRequest.body = {
+        name: "   ",
+        description: "Trimmed description  ",
+        price: -1,
+        stockQuantity: 2.5,
+        category: "ValidationTest",
+        imageUrl: "not a url",
+      };
+      // Act
+      await createProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(
+        responseJsonPayload.errors.map(
+          (e: { field: string; code: string }) => `${e.field}:${e.code}`
+        )
+      ).toEqual([
+        "name:empty",
+        "imageUrl:invalid_url",
+        "price:min",
+        "stockQuantity:integer",
+      ]);
+      expect((await repository.findAll()).length).toBe(0);
+    });
+
+    // Test case: string fields are stored trimmed and a blank optional field is dropped.
+    it("should trim strings and drop a blank detailedDescription", async () => {
+      // Arrange
+      mockRequest.body = {
+        name: "  Padded Name  ",
+        description: "Desc",
+        detailedDescription: "",
+        price: 0,
+        stockQuantity: 0,
+        category: "Trim",
+        imageUrl: "https://example.com/trim.jpg",
+      };
+      // Act
+      await createProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
       );
-      expect(products.length).toBe(0);
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(responseJsonPayload.name).toBe("Padded Name");
+      expect(responseJsonPayload.detailedDescription).toBeUndefined();
     });
   });
 
@@ -229,7 +369,8 @@ describe("Product API Handlers", () => {
 
     // Setup runs before each test in this suite.
     beforeEach(() => {
-      products.length = 0;
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
       mockRequest = { query: {} };
       responseJsonPayload = {};
       mockResponse = {
@@ -239,17 +380,14 @@ describe("Product API Handlers", () => {
         }),
       };
     });
-    // Teardown runs after each test to ensure a clean state for the next suite.
-    afterEach(() => {
-      products.length = 0;
-    });
 
     // Test case: verifies the handler returns products with both mandatory and optional fields correctly.
-    it("should return products including mandatory imageUrl and optional detailedDescription", () => {
-      // Arrange: Add products with and without optional fields to the array.
-      products.push(sampleProductFull, sampleProductMandatoryOnly);
+    it("should return products including mandatory imageUrl and optional detailedDescription", async () => {
+      // Arrange: Add products with and without optional fields to the repository.
+      await repository.create(sampleProductFull);
+      await repository.create(sampleProductMandatoryOnly);
       // Act
-      listProductsHandler(
+      await listProductsHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -273,10 +411,10 @@ describe("Product API Handlers", () => {
     });
 
     // Test case: verifies that an empty array and correct pagination info are returned when there are no products.
-    it("should return an empty list and correct pagination when no products exist", () => {
-      // Arrange: products array is already empty from beforeEach.
+    it("should return an empty list and correct pagination when no products exist", async () => {
+      // Arrange: the repository is already empty from beforeEach.
       // Act
-      listProductsHandler(
+      await listProductsHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -287,7 +425,184 @@ describe("Product API Handlers", () => {
       expect(responseJsonPayload.pagination.totalItems).toBe(0);
       expect(responseJsonPayload.pagination.totalPages).toBe(0);
     });
-    // Note: Other pagination tests for listProductsHandler can be added here.
+
+    // Test case: filters combine and the pagination block reflects the filtered total.
+    it("should filter by category, price range, stock and text, and paginate the filtered set", async () => {
+      // Arrange
+      const day = 24 * 60 * 60 * 1000;
+      const catalog: Product[] = [
+        {
+          ...sampleProductFull,
+          id: uuid(),
+          name: "Gaming Mouse",
+          price: 60,
+          category: "Accessories",
+        },
+        {
+          ...sampleProductFull,
+          id: uuid(),
+          name: "Office Mouse",
+          price: 20,
+          category: "accessories",
+          createdAt: new Date(Date.now() - day),
+        },
+        {
+          ...sampleProductFull,
+          id: uuid(),
+          name: "Mouse Pad",
+          price: 5,
+          category: "Accessories",
+          stockQuantity: 0,
+        },
+        {
+          ...sampleProductFull,
+          id: uuid(),
+          name: "Monitor",
+          price: 300,
+          category: "Monitors",
+        },
+      ];
+      for (const product of catalog) {
+        await repository.create(product);
+      }
+      mockRequest.query = {
+        category: "Accessories",
+        minPrice: "10",
+        maxPrice: "100",
+        inStock: "true",
+        q: "mouse",
+        sort: "price:desc",
+        limit: "1",
+      };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.data.map((p: Product) => p.name)).toEqual([
+        "Gaming Mouse",
+      ]);
+      expect(responseJsonPayload.pagination.totalItems).toBe(2); // Category match is case-insensitive.
+      expect(responseJsonPayload.pagination.totalPages).toBe(2);
+      expect(responseJsonPayload.pagination.hasNextPage).toBe(true);
+    });
+
+    // Test case: free-text search also looks inside detailedDescription, and sorting defaults to ascending.
+    it("should search detailedDescription and sort ascending by default", async () => {
+      // Arrange
+      await repository.create({
+        ...sampleProductFull,
+        id: uuid(),
+        name: "B",
+        detailedDescription: "Has an M3 chip",
+      });
+      await repository.create({
+        ...sampleProductFull,
+        id: uuid(),
+        name: "A",
+        detailedDescription: "Also an m3 chip",
+      });
+      await repository.create({
+        ...sampleProductFull,
+        id: uuid(),
+        name: "C",
+        detailedDescription: "Nothing",
+      });
+      mockRequest.query = { q: "M3", sort: "name" };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(responseJsonPayload.data.map((p: Product) => p.name)).toEqual([
+        "A",
+        "B",
+      ]);
+    });
+
+    // Test case: cursor pagination neither skips nor repeats items when the catalog changes between pages.
+    it("should iterate with cursors in createdAt order even if an earlier item is deleted", async () => {
+      // Arrange: five products created one second apart, inserted out of order.
+      const base = Date.now() - 60000;
+      const catalog: Product[] = [3, 0, 4, 1, 2].map((n) => ({
+        ...sampleProductMandatoryOnly,
+        id: uuid(),
+        name: `Product ${n}`,
+        createdAt: new Date(base + n * 1000),
+      }));
+      for (const product of catalog) {
+        await repository.create(product);
+      }
+      mockRequest.query = { cursor: "", limit: "2" };
+      // Act: fetch the first page.
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const firstPage = responseJsonPayload;
+      // Delete an item that was already seen, then fetch the next page.
+      await repository.delete(catalog[1].id); // "Product 0"
+      mockRequest.query = {
+        cursor: firstPage.pagination.nextCursor,
+        limit: "2",
+      };
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const secondPage = responseJsonPayload;
+      // Assert
+      expect(firstPage.data.map((p: Product) => p.name)).toEqual([
+        "Product 0",
+        "Product 1",
+      ]);
+      expect(firstPage.pagination.hasNextPage).toBe(true);
+      expect(secondPage.data.map((p: Product) => p.name)).toEqual([
+        "Product 2",
+        "Product 3",
+      ]);
+      expect(secondPage.pagination.nextCursor).toEqual(expect.any(String));
+      expect(secondPage.pagination.totalItems).toBe(4);
+    });
+
+    // Test case: a tampered or foreign cursor is rejected.
+    it("should return 400 for an invalid cursor", async () => {
+      // Arrange
+      mockRequest.query = { cursor: "not-a-cursor" };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe("Invalid cursor.");
+    });
+
+    // Test case: invalid filter values are rejected with a descriptive 400.
+    it("should return 400 for an unsupported sort field or invalid price", async () => {
+      // Arrange
+      mockRequest.query = { sort: "stockQuantity", minPrice: "-1" };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        "Invalid query parameters. minPrice must be a non-negative number. sort field must be one of: price, name, createdAt, updatedAt."
+      );
+    });
   });
 
   // --- Tests for getProductByIdHandler ---
@@ -307,27 +622,26 @@ describe("Product API Handlers", () => {
     };
 
     beforeEach(() => {
-      products.length = 0;
-      products.push(testProductWithImage); // Add the test product to the in-memory array.
-      mockRequest = { params: {} };
+      // Add the test product to a fresh in-memory repository.
+      repository = new InMemoryProductRepository([testProductWithImage]);
+      setProductRepository(repository);
+      mockRequest = { params: {}, headers: {} };
       responseJsonPayload = {};
       mockResponse = {
         status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(), // Mock 'set' for the ETag header.
         json: jest.fn().mockImplementation((payload) => {
           responseJsonPayload = payload;
         }),
       };
     });
-    afterEach(() => {
-      products.length = 0;
-    });
 
     // Test case: verifies that a product is returned successfully when a valid ID is provided.
-    it("should return 200 and the product (with imageUrl) if found", () => {
+    it("should return 200 and the product (with imageUrl) if found", async () => {
       // Arrange: Set the 'id' parameter in the mock request.
       mockRequest.params = { id: testProductWithImage.id };
       // Act
-      getProductByIdHandler(
+      await getProductByIdHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -339,12 +653,12 @@ describe("Product API Handlers", () => {
     });
 
     // Test case: verifies that a 404 Not Found is returned for a non-existent ID.
-    it("should return 404 if product not found", () => {
+    it("should return 404 if product not found", async () => {
       // Arrange
       const nonExistentId = uuid();
       mockRequest.params = { id: nonExistentId };
       // Act
-      getProductByIdHandler(
+      await getProductByIdHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -362,7 +676,6 @@ describe("Product API Handlers", () => {
     let initialProduct: Product;
 
     beforeEach(() => {
-      products.length = 0;
       initialProduct = {
         id: uuid(),
         name: "Old Name",
@@ -375,22 +688,21 @@ describe("Product API Handlers", () => {
         createdAt: new Date(Date.now() - 100000),
         updatedAt: new Date(Date.now() - 100000),
       };
-      products.push(initialProduct);
-      mockRequest = { params: {}, body: {} };
+      repository = new InMemoryProductRepository([initialProduct]);
+      setProductRepository(repository);
+      mockRequest = { params: {}, headers: {}, body: {} };
       responseJsonPayload = {};
       mockResponse = {
         status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(), // Mock 'set' for the ETag header.
         json: jest.fn().mockImplementation((payload) => {
           responseJsonPayload = payload;
         }),
       };
     });
-    afterEach(() => {
-      products.length = 0;
-    });
 
     // Test case: verifies a successful update with a full payload.
-    it("should update an existing product including mandatory imageUrl and return 200", () => {
+    it("should update an existing product including mandatory imageUrl and return 200", async () => {
       // Arrange
       mockRequest.params = { id: initialProduct.id };
       mockRequest.body = {
@@ -403,7 +715,7 @@ describe("Product API Handlers", () => {
         imageUrl: "https://example.com/updated-super.jpg",
       };
       // Act
-      updateProductHandler(
+      await updateProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -419,14 +731,16 @@ describe("Product API Handlers", () => {
       expect(new Date(responseJsonPayload.updatedAt).getTime()).toBeGreaterThan(
         initialProduct.updatedAt.getTime()
       ); // 'updatedAt' should be newer.
-      const updatedProductInArray = products.find(
-        (p) => p.id === initialProduct.id
+      const updatedProductInRepository = await repository.findById(
+        initialProduct.id
+      );
+      expect(updatedProductInRepository?.imageUrl).toBe(
+        mockRequest.body.imageUrl
       );
-      expect(updatedProductInArray?.imageUrl).toBe(mockRequest.body.imageUrl);
     });
 
     // Test case: verifies that a 400 error is returned if the mandatory imageUrl is missing.
-    it("should return 400 if mandatory imageUrl is missing in update request", () => {
+    it("should return 400 if mandatory imageUrl is missing in update request", async () => {
       // Arrange
       mockRequest.params = { id: initialProduct.id };
       mockRequest.body = {
@@ -438,79 +752,215 @@ describe("Product API Handlers", () => {
         category: "Testing Update",
       };
       // Act
-      updateProductHandler(
+      await updateProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
       );
       // Assert
       expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe("Product validation failed.");
+      expect(responseJsonPayload.errors).toEqual([
+        {
+          field: "imageUrl",
+          code: "required",
+          message: "imageUrl is required.",
+        },
+      ]);
+    });
+
+    // Test case: an unknown id is a 404 even when the body would fail validation.
+    it("should return 404 for an unknown product before checking its category", async () => {
+      // Arrange
+      const nonExistentId = uuid();
+      mockRequest.params = { id: nonExistentId };
+      mockRequest.body = {
+        name: "Ghost",
+        description: "Nobody here",
+        price: 1,
+        stockQuantity: 1,
+        category: "no-such-category",
+        imageUrl: "https://example.com/ghost.jpg",
+      };
+      // Act
+      await updateProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
       expect(responseJsonPayload.message).toBe(
-        "Please provide all required fields for update: name, description, price, stockQuantity, category, imageUrl"
+        `Product with id '${nonExistentId}' not found, cannot update.`
       );
     });
   });
 
-  // --- Tests for deleteProductHandler ---
-  describe("deleteProductHandler", () => {
-    // Note: These tests are not directly affected by the new fields, as they deal with
-    // the existence of the product, not its content. We just need to ensure the test
-    // data object ('productToDelete') is valid according to the Product interface.
-    let productToDelete: Product;
+  // --- Tests for patchProductHandler ---
+  describe("patchProductHandler", () => {
+    let initialProduct: Product;
+
     beforeEach(() => {
-      products.length = 0;
-      productToDelete = {
+      initialProduct = {
         id: uuid(),
-        name: "Product to Delete",
-        description: "Desc",
-        price: 10,
-        stockQuantity: 1,
-        category: "ToDelete",
-        imageUrl: "https://example.com/to-delete.jpg", // Mandatory field added
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        name: "Patchable Product",
+        description: "Patch Desc",
+        detailedDescription: "Keep me",
+        price: 50,
+        stockQuantity: 5,
+        category: "PatchCat",
+        imageUrl: "https://example.com/patch.jpg",
+        createdAt: new Date(Date.now() - 100000),
+        updatedAt: new Date(Date.now() - 100000),
+      };
+      repository = new InMemoryProductRepository([initialProduct]);
+      setProductRepository(repository);
+      mockRequest = {
+        params: { id: initialProduct.id },
+        headers: { "content-type": "application/merge-patch+json" },
+        body: {},
       };
-      products.push(productToDelete);
-      mockRequest = { params: {} };
       responseJsonPayload = {};
       mockResponse = {
         status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(), // Mock 'set' for the ETag header.
         json: jest.fn().mockImplementation((payload) => {
           responseJsonPayload = payload;
         }),
-        send: jest.fn().mockReturnThis(), // Mock 'send' for the 204 No Content response.
       };
     });
-    afterEach(() => {
-      products.length = 0;
+
+    // Test case: a merge patch changes only the given field and keeps detailedDescription.
+    it("should apply a merge patch to a single field and touch updatedAt", async () => {
+      // Arrange
+      mockRequest.body = { price: 42.5 };
+      // Act
+      await patchProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.price).toBe(42.5);
+      expect(responseJsonPayload.name).toBe(initialProduct.name);
+      expect(responseJsonPayload.detailedDescription).toBe("Keep me");
+      expect(new Date(responseJsonPayload.updatedAt).getTime()).toBeGreaterThan(
+        initialProduct.updatedAt.getTime()
+      );
+      expect((await repository.findById(initialProduct.id))?.price).toBe(42.5);
     });
 
-    // Test case: verifies a successful deletion.
-    it("should delete an existing product and return 204 No Content", () => {
+    // Test case: a patch that sets fields to their current values leaves updatedAt alone.
+    it("should not touch updatedAt when nothing changes", async () => {
       // Arrange
-      mockRequest.params = { id: productToDelete.id };
-      const initialProductCount = products.length;
+      mockRequest.body = { name: initialProduct.name, price: 50 };
       // Act
-      deleteProductHandler(
+      await patchProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
       );
       // Assert
-      expect(mockResponse.status).toHaveBeenCalledWith(204);
-      expect(mockResponse.send).toHaveBeenCalledTimes(1); // .send() should be called for 204.
-      expect(mockResponse.json).not.toHaveBeenCalled(); // .json() should not be called.
-      expect(products.length).toBe(initialProductCount - 1); // Verify removal from array.
-      expect(products.find((p) => p.id === productToDelete.id)).toBeUndefined();
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.updatedAt).toEqual(initialProduct.updatedAt);
     });
 
-    // Test case: verifies a 404 is returned if trying to delete a non-existent product.
-    it("should return 404 if product to delete is not found", () => {
+    // Test case: a category that normalizes to the current slug is not a change.
+    it("should not write anything when the category only differs in spelling", async () => {
+      // Arrange
+      initialProduct.category = "furniture";
+      repository = new InMemoryProductRepository([initialProduct]);
+      setProductRepository(repository);
+      const revisions = new InMemoryRevisionRepository();
+      setRevisionRepository(revisions);
+      mockRequest.body = { category: "Furniture" };
+      // Act
+      await patchProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.category).toBe("furniture");
+      expect(responseJsonPayload.updatedAt).toEqual(initialProduct.updatedAt);
+      expect(await revisions.findByProductId(initialProduct.id)).toEqual([]);
+      expect(await repository.findUndeliveredEvents(10)).toEqual([]);
+    });
+
+    // Test case: JSON Patch operations are applied in order, including remove.
+    it("should apply a JSON patch with test, replace and remove operations", async () => {
+      // Arrange
+      mockRequest.headers = { "content-type": "application/json-patch+json" };
+      mockRequest.body = [
+        { op: "test", path: "/stockQuantity", value: 5 },
+        { op: "replace", path: "/stockQuantity", value: 4 },
+        { op: "remove", path: "/detailedDescription" },
+      ];
+      // Act
+      await patchProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.stockQuantity).toBe(4);
+      expect(responseJsonPayload.detailedDescription).toBeUndefined();
+    });
+
+    // Test case: patched values go through the same type validation as PUT.
+    it("should return 400 if a patched price is not a number", async () => {
+      // Arrange
+      mockRequest.body = { price: "cheap" };
+      // Act
+      await patchProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.errors).toEqual([
+        {
+          field: "price",
+          code: "invalid_type",
+          message: "price must be a number.",
+        },
+      ]);
+      expect((await repository.findById(initialProduct.id))?.price).toBe(50);
+    });
+
+    // Test case: server-owned fields cannot be patched.
+    it("should return 400 when trying to patch the id", async () => {
+      // Arrange
+      mockRequest.body = { id: "new-id" };
+      // Act
+      await patchProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.errors).toEqual([
+        {
+          field: "id",
+          code: "not_allowed",
+          message: "Field 'id' cannot be patched.",
+        },
+      ]);
+    });
+
+    // Test case: patching a non-existent product returns 404.
+    it("should return 404 if product to patch is not found", async () => {
       // Arrange
       const nonExistentId = uuid();
       mockRequest.params = { id: nonExistentId };
+      mockRequest.body = { price: 1 };
       // Act
-      deleteProductHandler(
+      await patchProductHandler(
         mockRequest as Request,
         mockResponse as Response,
         jest.fn()
@@ -518,9 +968,1329 @@ describe("Product API Handlers", () => {
       // Assert
       expect(mockResponse.status).toHaveBeenCalledWith(404);
       expect(responseJsonPayload.message).toBe(
-        `Product with id '${nonExistentId}' not found, cannot delete.`
+        `Product with id '${nonExistentId}' not found, cannot update.`
+      );
+    });
+  });
+
+  // --- Tests for ETag / If-Match optimistic concurrency ---
+  describe("optimistic concurrency with ETag and If-Match", () => {
+    let product: Product;
+    let responseHeaders: Record<string, string>;
+
+    beforeEach(() => {
+      product = {
+        id: uuid(),
+        name: "Contended Product",
+        description: "Desc",
+        price: 10,
+        stockQuantity: 10,
+        category: "Concurrency",
+        imageUrl: "https://example.com/contended.jpg",
+        createdAt: new Date(Date.now() - 100000),
+        updatedAt: new Date(Date.now() - 100000),
+      };
+      repository = new InMemoryProductRepository([product]);
+      setProductRepository(repository);
+      mockRequest = { params: { id: product.id }, headers: {}, body: {} };
+      responseJsonPayload = {};
+      responseHeaders = {};
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        // Capture headers so we can assert on the ETag.
+        set: jest.fn().mockImplementation(function (
+          this: Response,
+          name: string,
+          value: string
+        ) {
+          responseHeaders[name] = value;
+          return this;
+        }),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+        send: jest.fn().mockReturnThis(),
+        end: jest.fn().mockReturnThis(),
+      };
+    });
+    afterEach(() => {
+      delete process.env.REQUIRE_IF_MATCH;
+    });
+
+    // Test case: GET emits an ETag and answers 304 when the client already has it.
+    it("should emit an ETag on GET and return 304 for a matching If-None-Match", async () => {
+      // Act: first fetch
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const etag = responseHeaders.ETag;
+      // Act: conditional re-fetch
+      mockRequest.headers = { "if-none-match": `W/${etag}` };
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(etag).toBe(computeProductETag(product));
+      expect(mockResponse.status).toHaveBeenLastCalledWith(304);
+      expect(mockResponse.end).toHaveBeenCalledTimes(1);
+    });
+
+    // Test case: the second of two editors working from the same version gets 412.
+    it("should return 412 on PUT when If-Match no longer matches", async () => {
+      // Arrange: both editors loaded the same version.
+      const etag = computeProductETag(product);
+      const editBody = {
+        name: "Edited",
+        description: "Desc",
+        price: 11,
+        stockQuantity: 10,
+        category: "Concurrency",
+        imageUrl: "https://example.com/contended.jpg",
+      };
+      mockRequest.headers = { "if-match": etag };
+      mockRequest.body = editBody;
+      // Act: first editor saves successfully.
+      await updateProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      const newETag = responseHeaders.ETag;
+      // Act: second editor saves with the stale ETag.
+      mockRequest.body = { ...editBody, name: "Overwrite attempt" };
+      await updateProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
       );
-      expect(products.length).toBe(1); // The array should be unchanged.
+      // Assert
+      expect(newETag).not.toBe(etag);
+      expect(mockResponse.status).toHaveBeenLastCalledWith(412);
+      expect((await repository.findById(product.id))?.name).toBe("Edited");
+    });
+
+    // Test case: PATCH and DELETE honour If-Match as well.
+    it("should return 412 on PATCH and DELETE with a stale If-Match", async () => {
+      // Arrange
+      mockRequest.headers = {
+        "content-type": "application/merge-patch+json",
+        "if-match": '"stale"',
+      };
+      mockRequest.body = { price: 1 };
+      // Act
+      await patchProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenLastCalledWith(412);
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenLastCalledWith(412);
+      expect(await repository.findById(product.id)).toEqual(product);
+    });
+
+    // Test case: with REQUIRE_IF_MATCH enabled, unconditional writes are refused.
+    it("should return 428 when If-Match is required but missing", async () => {
+      // Arrange
+      process.env.REQUIRE_IF_MATCH = "true";
+      // Act
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(428);
+      expect(await repository.findById(product.id)).toBeDefined();
+    });
+  });
+
+  // --- Tests for deleteProductHandler ---
+  describe("deleteProductHandler", () => {
+    // Note: These tests are not directly affected by the new fields, as they deal with
+    // the existence of the product, not its content. We just need to ensure the test
+    // data object ('productToDelete') is valid according to the Product interface.
+    let productToDelete: Product;
+    beforeEach(() => {
+      productToDelete = {
+        id: uuid(),
+        name: "Product to Delete",
+        description: "Desc",
+        price: 10,
+        stockQuantity: 1,
+        category: "ToDelete",
+        imageUrl: "https://example.com/to-delete.jpg", // Mandatory field added
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      repository = new InMemoryProductRepository([productToDelete]);
+      setProductRepository(repository);
+      mockRequest = { params: {}, headers: {} };
+      responseJsonPayload = {};
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(), // Mock 'set' for the ETag header.
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+        send: jest.fn().mockReturnThis(), // Mock 'send' for the 204 No Content response.
+      };
+    });
+
+    // Test case: verifies a successful deletion.
+    it("should soft delete an existing product and return 204 No Content", async () => {
+      // Arrange
+      mockRequest.params = { id: productToDelete.id };
+      // Act
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+      expect(mockResponse.send).toHaveBeenCalledTimes(1); // .send() should be called for 204.
+      expect(mockResponse.json).not.toHaveBeenCalled(); // .json() should not be called.
+      // The product is kept in the repository, marked as deleted.
+      const trashedProduct = await repository.findById(productToDelete.id);
+      expect(trashedProduct?.deletedAt).toBeInstanceOf(Date);
+    });
+
+    // Test case: a deleted product disappears from get and list, but shows up in the trash.
+    it("should hide a deleted product from get and list and show it in the trash", async () => {
+      // Arrange
+      mockRequest.params = { id: productToDelete.id };
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Act & Assert: get
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenLastCalledWith(404);
+      // Act & Assert: list (default and includeDeleted)
+      mockRequest.query = {};
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(responseJsonPayload.data).toEqual([]);
+      mockRequest.query = { includeDeleted: "true" };
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(responseJsonPayload.data.length).toBe(1);
+      // Act & Assert: trash
+      mockRequest.query = {};
+      await listTrashHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(responseJsonPayload.data.map((p: Product) => p.id)).toEqual([
+        productToDelete.id,
+      ]);
+      expect(responseJsonPayload.pagination.totalItems).toBe(1);
+    });
+
+    // Test case: an accidental delete can be undone.
+    it("should restore a trashed product", async () => {
+      // Arrange
+      mockRequest.params = { id: productToDelete.id };
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Act
+      await restoreProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(responseJsonPayload.deletedAt).toBeUndefined();
+      const restored = await repository.findById(productToDelete.id);
+      expect(restored?.deletedAt).toBeUndefined();
+    });
+
+    // Test case: purge only works on trashed products and then removes them for good.
+    it("should refuse to purge an active product and purge a trashed one", async () => {
+      // Arrange
+      mockRequest.params = { id: productToDelete.id };
+      // Act: purge while active
+      await purgeProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenLastCalledWith(409);
+      // Act: delete, then purge
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      await purgeProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenLastCalledWith(204);
+      expect(await repository.findById(productToDelete.id)).toBeUndefined();
+    });
+
+    // Test case: verifies a 404 is returned if trying to delete a non-existent product.
+    it("should return 404 if product to delete is not found", async () => {
+      // Arrange
+      const nonExistentId = uuid();
+      mockRequest.params = { id: nonExistentId };
+      // Act
+      await deleteProductHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(responseJsonPayload.message).toBe(
+        `Product with id '${nonExistentId}' not found, cannot delete.`
+      );
+      expect((await repository.findAll()).length).toBe(1); // The repository should be unchanged.
+    });
+  });
+
+  // --- Tests for bulk import and export ---
+  describe("importProductsHandler and exportProductsHandler", () => {
+    const csvBody = [
+      "name,description,price,stockQuantity,category,imageUrl",
+      "Desk,Standing desk,250,4,Furniture,https://example.com/desk.jpg",
+      "Chair,Office chair,-5,2,Furniture,https://example.com/chair.jpg",
+    ].join("\n");
+
+    beforeEach(() => {
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
+      mockRequest = {
+        query: {},
+        headers: { "content-type": "text/csv" },
+        body: csvBody,
+      };
+      responseJsonPayload = {};
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    // Test case: a dry run validates every row but stores nothing.
+    it("should report per-row results without storing anything on a dry run", async () => {
+      // Arrange
+      mockRequest.query = { dryRun: "true" };
+      // Act
+      await importProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload).toMatchObject({
+        dryRun: true,
+        totalRows: 2,
+        validRows: 1,
+        invalidRows: 1,
+        importedRows: 0,
+      });
+      expect(responseJsonPayload.results[0]).toEqual({
+        line: 2,
+        status: "valid",
+      });
+      expect(responseJsonPayload.results[1].errors[0]).toMatchObject({
+        field: "price",
+        code: "min",
+      });
+      expect((await repository.findAll()).length).toBe(0);
+    });
+
+    // Test case: a real import stores the valid rows, which then appear in an NDJSON export.
+    it("should import valid rows and export them as NDJSON", async () => {
+      // Act: import
+      await importProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const created = responseJsonPayload.results[0];
+      // Act: export
+      const written: string[] = [];
+      const exportResponse = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        write: jest.fn().mockImplementation((chunk: string) => {
+          written.push(chunk);
+          return true;
+        }),
+        end: jest.fn(),
+      };
+      await exportProductsHandler(
+        { query: { format: "ndjson" } } as unknown as Request,
+        exportResponse as unknown as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(responseJsonPayload.importedRows).toBe(1);
+      expect(created.status).toBe("created");
+      expect(exportResponse.set).toHaveBeenCalledWith(
+        "Content-Type",
+        "application/x-ndjson; charset=utf-8"
+      );
+      expect(written.length).toBe(1);
+      expect(JSON.parse(written[0])).toMatchObject({
+        id: created.id,
+        name: "Desk",
+        price: 250,
+      });
+      expect(exportResponse.end).toHaveBeenCalledTimes(1);
+    });
+
+    // Test case: a client that disconnects while the socket is full ends the export.
+    it("should stop exporting when the client disconnects mid-stream", async () => {
+      // Arrange
+      for (const name of ["Desk", "Chair"]) {
+        await repository.create({
+          id: uuid(),
+          name: name,
+          description: `A ${name.toLowerCase()}`,
+          price: 100,
+          stockQuantity: 1,
+          category: "Furniture",
+          imageUrl: "https://example.com/item.jpg",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      const exportResponse: any = new EventEmitter();
+      exportResponse.status = jest.fn().mockReturnValue(exportResponse);
+      exportResponse.set = jest.fn().mockReturnValue(exportResponse);
+      exportResponse.write = jest.fn().mockImplementation(() => {
+        setImmediate(() => exportResponse.emit("close"));
+        return false; // Socket buffer full.
+      });
+      exportResponse.end = jest.fn();
+      // Act
+      await exportProductsHandler(
+        { query: { format: "csv" } } as unknown as Request,
+        exportResponse as Response,
+        jest.fn()
+      );
+      // Assert: only the header was written, and the stream was abandoned.
+      expect(exportResponse.write).toHaveBeenCalledTimes(1);
+      expect(exportResponse.end).not.toHaveBeenCalled();
+      expect(exportResponse.listenerCount("drain")).toBe(0);
+    });
+
+    // Test case: bodies that are neither CSV nor NDJSON are refused.
+    it("should return 415 for an unsupported content type", async () => {
+      // Arrange
+      mockRequest.headers = { "content-type": "application/xml" };
+      // Act
+      await importProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(415);
+    });
+  });
+
+  // --- Tests for revision history ---
+  describe("product revision history", () => {
+    let revisions: InMemoryRevisionRepository;
+
+    // Runs a handler with its own request/response pair and returns the response mock.
+    const run = async (
+      handler: typeof createProductHandler,
+      request: Partial<Request>
+    ) => {
+      const response = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+      await handler(
+        { params: {}, query: {}, headers: {}, body: {}, ...request } as Request,
+        response as unknown as Response,
+        jest.fn()
+      );
+      return response;
+    };
+
+    // Creates a product through the API as "alice" and returns its id.
+    const createProduct = async (): Promise<string> => {
+      await run(createProductHandler, {
+        headers: { "x-user-id": "alice" },
+        body: {
+          name: "Lamp",
+          description: "Desk lamp",
+          price: 30,
+          stockQuantity: 5,
+          category: "Home",
+          imageUrl: "https://example.com/lamp.jpg",
+        },
+      });
+      return responseJsonPayload.id;
+    };
+
+    beforeEach(() => {
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
+      revisions = new InMemoryRevisionRepository();
+      setRevisionRepository(revisions);
+      responseJsonPayload = {};
+    });
+
+    // Test case: each write adds a numbered revision with the actor and changed fields.
+    it("should record create, update and delete as revisions", async () => {
+      // Arrange
+      const id = await createProduct();
+      await run(patchProductHandler, {
+        params: { id },
+        headers: { "x-user-id": "bob" },
+        body: { price: 35 },
+      });
+      await run(deleteProductHandler, { params: { id } });
+      // Act
+      const response = await run(listProductHistoryHandler, {
+        params: { id },
+      });
+      // Assert
+      expect(response.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.totalRevisions).toBe(3);
+      const [created, updated, deleted] = responseJsonPayload.data;
+      expect(created).toMatchObject({
+        revision: 1,
+        action: "created",
+        changedBy: "alice",
+      });
+      expect(created.changes.name).toEqual({ from: undefined, to: "Lamp" });
+      expect(updated).toMatchObject({
+        revision: 2,
+        action: "updated",
+        changedBy: "bob",
+        changes: { price: { from: 30, to: 35 } },
+      });
+      expect(Object.keys(updated.changes)).toEqual(["price"]);
+      expect(deleted.action).toBe("deleted");
+      expect(deleted.changedBy).toBe("anonymous");
+      expect(Object.keys(deleted.changes)).toEqual(["deletedAt"]);
+      expect(created.snapshot).toBeUndefined();
+    });
+
+    // Test case: a no-op PATCH does not add a revision.
+    it("should not record a revision when nothing changed", async () => {
+      // Arrange
+      const id = await createProduct();
+      await run(patchProductHandler, { params: { id }, body: { price: 30 } });
+      // Act
+      await run(listProductHistoryHandler, { params: { id } });
+      // Assert
+      expect(responseJsonPayload.totalRevisions).toBe(1);
+    });
+
+    // Test case: a single revision includes the product snapshot at that point.
+    it("should return one revision with its snapshot", async () => {
+      // Arrange
+      const id = await createProduct();
+      await run(patchProductHandler, {
+        params: { id },
+        body: { name: "Lamp 2" },
+      });
+      // Act
+      const response = await run(getProductRevisionHandler, {
+        params: { id, revision: "1" },
+      });
+      // Assert
+      expect(response.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload.revision).toBe(1);
+      expect(responseJsonPayload.snapshot.name).toBe("Lamp");
+    });
+
+    // Test case: history survives a purge, which is recorded as its own revision.
+    it("should keep the history of purged products", async () => {
+      // Arrange
+      const id = await createProduct();
+      await run(deleteProductHandler, { params: { id } });
+      await run(purgeProductHandler, { params: { id } });
+      // Act
+      await run(listProductHistoryHandler, { params: { id } });
+      // Assert
+      expect(responseJsonPayload.data.map((r: any) => r.action)).toEqual([
+        "created",
+        "deleted",
+        "purged",
+      ]);
+    });
+
+    // Test case: unknown products and revisions return 404, malformed numbers 400.
+    it("should return 404 for unknown history and 400 for invalid revisions", async () => {
+      // Arrange
+      const id = await createProduct();
+      // Act
+      const unknownProduct = await run(listProductHistoryHandler, {
+        params: { id: uuid() },
+      });
+      const unknownRevision = await run(getProductRevisionHandler, {
+        params: { id, revision: "9" },
+      });
+      const invalidRevision = await run(getProductRevisionHandler, {
+        params: { id, revision: "abc" },
+      });
+      // Assert
+      expect(unknownProduct.status).toHaveBeenCalledWith(404);
+      expect(unknownRevision.status).toHaveBeenCalledWith(404);
+      expect(invalidRevision.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  // --- Tests for categories ---
+  describe("category handlers", () => {
+    // Runs a handler with its own request/response pair and returns the response mock.
+    const run = async (
+      handler: typeof createCategoryHandler,
+      request: Partial<Request>
+    ) => {
+      const response = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+      await handler(
+        { params: {}, query: {}, headers: {}, body: {}, ...request } as Request,
+        response as unknown as Response,
+        jest.fn()
+      );
+      return response;
+    };
+
+    const productBody = (category: string) => ({
+      name: "Cable",
+      description: "USB-C cable",
+      price: 9,
+      stockQuantity: 20,
+      category: category,
+      imageUrl: "https://example.com/cable.jpg",
+    });
+
+    beforeEach(() => {
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
+      setCategoryRepository(new InMemoryCategoryRepository());
+      responseJsonPayload = {};
+    });
+
+    // Test case: the slug is derived from the name and must be unique.
+    it("should create a category with a derived slug and reject duplicates", async () => {
+      // Act
+      const created = await run(createCategoryHandler, {
+        body: { name: "Home Office", description: "Desks and chairs" },
+      });
+      const createdPayload = responseJsonPayload;
+      const duplicate = await run(createCategoryHandler, {
+        body: { name: "home office" },
+      });
+      // Assert
+      expect(created.status).toHaveBeenCalledWith(201);
+      expect(createdPayload).toMatchObject({
+        slug: "home-office",
+        name: "Home Office",
+        description: "Desks and chairs",
+        productCount: 0,
+      });
+      expect(duplicate.status).toHaveBeenCalledWith(409);
+    });
+
+    // Test case: "Accessories" and "accessories" end up in one category with one count.
+    it("should store products by category slug and count them per category", async () => {
+      // Arrange
+      await run(createCategoryHandler, { body: { name: "Accessories" } });
+      await run(createCategoryHandler, { body: { name: "Monitors" } });
+      await run(createProductHandler, { body: productBody("Accessories") });
+      await run(createProductHandler, { body: productBody("accessories") });
+      // Act
+      await run(listCategoriesHandler, {});
+      // Assert
+      expect(responseJsonPayload.data).toEqual([
+        expect.objectContaining({ slug: "accessories", productCount: 2 }),
+        expect.objectContaining({ slug: "monitors", productCount: 0 }),
+      ]);
+      const stored = await repository.findAll();
+      expect(stored.map((p) => p.category)).toEqual([
+        "accessories",
+        "accessories",
+      ]);
+    });
+
+    // Test case: products cannot reference a category that does not exist.
+    it("should reject products with an unknown category", async () => {
+      // Act
+      const response = await run(createProductHandler, {
+        body: productBody("Gadgets"),
+      });
+      // Assert
+      expect(response.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.errors).toEqual([
+        expect.objectContaining({ field: "category", code: "not_found" }),
+      ]);
+      expect((await repository.findAll()).length).toBe(0);
+    });
+
+    // Test case: names can change but slugs cannot.
+    it("should update the name but refuse to change the slug", async () => {
+      // Arrange
+      await run(createCategoryHandler, { body: { name: "Audio" } });
+      // Act
+      const renamed = await run(updateCategoryHandler, {
+        params: { slug: "audio" },
+        body: { name: "Audio & Sound" },
+      });
+      const renamedPayload = responseJsonPayload;
+      const reslugged = await run(updateCategoryHandler, {
+        params: { slug: "audio" },
+        body: { name: "Audio", slug: "sound" },
+      });
+      // Assert
+      expect(renamed.status).toHaveBeenCalledWith(200);
+      expect(renamedPayload).toMatchObject({
+        slug: "audio",
+        name: "Audio & Sound",
+      });
+      expect(reslugged.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.errors[0].code).toBe("not_allowed");
+    });
+
+    // Test case: a category in use cannot be deleted; an unused one can.
+    it("should refuse to delete a category that still has products", async () => {
+      // Arrange
+      await run(createCategoryHandler, { body: { name: "Cables" } });
+      await run(createProductHandler, { body: productBody("cables") });
+      // Act
+      const inUse = await run(deleteCategoryHandler, {
+        params: { slug: "cables" },
+      });
+      await repository.delete((await repository.findAll())[0].id);
+      const unused = await run(deleteCategoryHandler, {
+        params: { slug: "cables" },
+      });
+      const missing = await run(getCategoryHandler, {
+        params: { slug: "cables" },
+      });
+      // Assert
+      expect(inUse.status).toHaveBeenCalledWith(409);
+      expect(unused.status).toHaveBeenCalledWith(204);
+      expect(missing.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  // --- Tests for live stock enrichment ---
+  describe("live stock from the stock service", () => {
+    const inStock: Product = {
+      id: uuid(),
+      name: "Tracked",
+      description: "Desc",
+      price: 10,
+      stockQuantity: 1,
+      category: "electronics",
+      imageUrl: "https://example.com/tracked.jpg",
+      createdAt: new Date(Date.now() - 2000),
+      updatedAt: new Date(Date.now() - 2000),
+    };
+    const untracked: Product = {
+      ...inStock,
+      id: uuid(),
+      name: "Untracked",
+      createdAt: new Date(Date.now() - 1000),
+    };
+
+    // A stock service stand-in answering from a fixed table.
+    let lookups: { [productId: string]: StockLookup };
+    let requestedBatches: string[][];
+    const fakeStockClient: StockClient = {
+      getStockLevel: async (productId) => lookups[productId],
+      getStockLevels: async (productIds) => {
+        requestedBatches.push(productIds);
+        const result: { [productId: string]: StockLookup } = {};
+        productIds.forEach((id) => (result[id] = lookups[id]));
+        return result;
+      },
+    };
+
+    beforeEach(() => {
+      repository = new InMemoryProductRepository([inStock, untracked]);
+      setProductRepository(repository);
+      lookups = {
+        [inStock.id]: { status: "found", quantity: 42 },
+        [untracked.id]: { status: "not_found" },
+      };
+      requestedBatches = [];
+      setStockClient(fakeStockClient);
+      setStockCache(new StockCache());
+      mockRequest = { params: {}, query: {}, headers: {} };
+      responseJsonPayload = {};
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        end: jest.fn(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    afterEach(() => {
+      setStockClient(undefined);
+    });
+
+    // Test case: a single product shows the live quantity.
+    it("should replace stockQuantity with the live level on get", async () => {
+      // Arrange
+      mockRequest.params = { id: inStock.id };
+      // Act
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(responseJsonPayload.stockQuantity).toBe(42);
+      expect(responseJsonPayload.stockStatus).toBe("live");
+      // The ETag describes the body, but still satisfies If-Match for the stored product.
+      const etag = (mockResponse.set as jest.Mock).mock.calls.find(
+        (call) => call[0] === "ETag"
+      )[1];
+      expect(etag).not.toBe(computeProductETag(inStock));
+      expect(ifMatchSatisfied(etag, computeProductETag(inStock))).toBe(true);
+    });
+
+    // Test case: a cached copy goes stale when only the stock level changes.
+    it("should not answer 304 after the live stock changed", async () => {
+      // Arrange: the client caches the product with 42 units.
+      mockRequest.params = { id: inStock.id };
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const etag = (mockResponse.set as jest.Mock).mock.calls.find(
+        (call) => call[0] === "ETag"
+      )[1];
+      mockRequest.headers = { "if-none-match": etag };
+      // Act: unchanged stock first, then a sale in the stock service.
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const unchangedStatus = (mockResponse.status as jest.Mock).mock.calls
+        .length;
+      lookups[inStock.id] = { status: "found", quantity: 41 };
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(
+        (mockResponse.status as jest.Mock).mock.calls[unchangedStatus - 1][0]
+      ).toBe(304);
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(responseJsonPayload.stockQuantity).toBe(41);
+    });
+
+    // Test case: inStock filters by the stock levels the response shows.
+    it("should filter inStock by live stock levels", async () => {
+      // Arrange: the catalog says both are in stock, the stock service disagrees.
+      lookups[inStock.id] = { status: "found", quantity: 0 };
+      mockRequest.query = { inStock: "false" };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert: one lookup for all candidates, none for the page.
+      expect(requestedBatches).toEqual([[inStock.id, untracked.id]]);
+      expect(responseJsonPayload.data).toHaveLength(1);
+      expect(responseJsonPayload.data[0]).toMatchObject({
+        id: inStock.id,
+        stockQuantity: 0,
+        stockStatus: "live",
+      });
+      expect(responseJsonPayload.pagination.totalItems).toBe(1);
+    });
+
+    // Test case: the inStock filter stops looking up stock once the page is filled.
+    it("should look up only as many products as the inStock page needs", async () => {
+      // Arrange: a catalog of 250 products, all in stock.
+      const catalog = Array.from({ length: 250 }, (_, i) => ({
+        ...inStock,
+        id: uuid(),
+        createdAt: new Date(Date.UTC(2025, 0, 1, 0, 0, i)),
+      }));
+      repository = new InMemoryProductRepository(catalog);
+      setProductRepository(repository);
+      catalog.forEach(
+        (p) => (lookups[p.id] = { status: "found", quantity: 5 })
+      );
+      mockRequest.query = { inStock: "true", limit: "10" };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert: one batch of 100 covers the 11 matches needed, the rest is skipped.
+      expect(requestedBatches.map((ids) => ids.length)).toEqual([100]);
+      expect(responseJsonPayload.data).toHaveLength(10);
+      expect(responseJsonPayload.pagination).toMatchObject({
+        totalItems: null,
+        totalPages: null,
+        hasNextPage: true,
+      });
+    });
+
+    // Test case: one batch per page; missing and failing lookups keep the catalog value.
+    it("should enrich a list page with one batch lookup", async () => {
+      // Arrange
+      lookups[inStock.id] = { status: "unavailable", reason: "timeout" };
+      // Act
+      await listProductsHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(requestedBatches).toEqual([[inStock.id, untracked.id]]);
+      expect(
+        responseJsonPayload.data.map((p: any) => [
+          p.stockQuantity,
+          p.stockStatus,
+        ])
+      ).toEqual([
+        [1, "unavailable"],
+        [1, "untracked"],
+      ]);
+      expect(mockResponse.set).toHaveBeenCalledWith(
+        "Warning",
+        expect.stringMatching(/^199 /)
+      );
+    });
+
+    // Test case: after one live read, an outage serves the cached level marked stale.
+    it("should serve the last known level as stale when the stock service fails", async () => {
+      // Arrange: a successful read fills the cache, then the stock service goes down.
+      mockRequest.params = { id: inStock.id };
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      lookups[inStock.id] = { status: "unavailable", reason: "circuit_open" };
+      // Act
+      await getProductByIdHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(responseJsonPayload.stockQuantity).toBe(42);
+      expect(responseJsonPayload.stockStatus).toBe("stale");
+      expect(responseJsonPayload.stockCachedAt).toBeInstanceOf(Date);
+      expect(mockResponse.set).toHaveBeenCalledWith(
+        "Warning",
+        '110 product-service "Stock service unavailable; serving last known stock levels"'
+      );
+    });
+  });
+
+  // --- Tests for product lifecycle events ---
+  describe("product events for the stock service", () => {
+    let published: OutboxEvent[];
+
+    beforeEach(() => {
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
+      published = [];
+      setEventPublisher({
+        publish: async (event) => {
+          published.push(event);
+        },
+      });
+      responseJsonPayload = {};
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    afterEach(() => {
+      setEventPublisher(undefined);
+    });
+
+    // Test case: create and delete each leave one event in the outbox until dispatched.
+    it("should record created and deleted events and deliver them in order", async () => {
+      // Arrange
+      await createProductHandler(
+        {
+          headers: {},
+          body: {
+            name: "Router",
+            description: "Wi-Fi router",
+            price: 80,
+            stockQuantity: 12,
+            category: "Electronics",
+            imageUrl: "https://example.com/router.jpg",
+          },
+        } as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const id = responseJsonPayload.id;
+      await deleteProductHandler(
+        { params: { id }, headers: {} } as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const pending = await repository.findUndeliveredEvents(10);
+      // Act
+      const delivered = await dispatchProductEvents();
+      // Assert
+      expect(pending.map((e) => e.type)).toEqual([
+        "product.created",
+        "product.deleted",
+      ]);
+      expect(delivered).toBe(2);
+      expect(published[0]).toMatchObject({
+        type: "product.created",
+        productId: id,
+        data: { stockQuantity: 12 },
+      });
+      expect(await repository.findUndeliveredEvents(10)).toEqual([]);
+    });
+
+    // Test case: a restore is published as its own event, not as a second create.
+    it("should record product.restored when a trashed product is restored", async () => {
+      // Arrange
+      const product: Product = {
+        id: uuid(),
+        name: "Returning",
+        description: "Desc",
+        price: 1,
+        stockQuantity: 1,
+        category: "electronics",
+        imageUrl: "https://example.com/returning.jpg",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await repository.create(product);
+      const request = { params: { id: product.id }, headers: {} };
+      await deleteProductHandler(
+        request as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Act
+      await restoreProductHandler(
+        request as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      const pending = await repository.findUndeliveredEvents(10);
+      expect(pending.map((e) => e.type)).toEqual([
+        "product.deleted",
+        "product.restored",
+      ]);
+    });
+
+    // Test case: without a configured consumer no events are recorded.
+    it("should not record events when no consumer is configured", async () => {
+      // Arrange
+      setEventPublisher(undefined);
+      const product: Product = {
+        id: uuid(),
+        name: "Quiet",
+        description: "Desc",
+        price: 1,
+        stockQuantity: 1,
+        category: "electronics",
+        imageUrl: "https://example.com/quiet.jpg",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await repository.create(product);
+      // Act
+      await deleteProductHandler(
+        { params: { id: product.id }, headers: {} } as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+      expect(await repository.findUndeliveredEvents(10)).toEqual([]);
+    });
+  });
+
+  // --- Tests for Idempotency-Key on product creation ---
+  describe("idempotent product creation", () => {
+    // Runs POST /products through the idempotency middleware and the handler.
+    const post = async (key: string, body: unknown) => {
+      const req = {
+        method: "POST",
+        originalUrl: "/products",
+        headers: { "idempotency-key": key },
+        body: body,
+        get: (name: string) =>
+          name.toLowerCase() === "idempotency-key" ? key : undefined,
+      } as unknown as Request;
+      const res: any = new EventEmitter();
+      res.statusCode = 200;
+      res.headers = {};
+      res.status = (code: number) => {
+        res.statusCode = code;
+        return res;
+      };
+      res.set = (name: any, value?: string) => {
+        const headers = typeof name === "string" ? { [name]: value } : name;
+        Object.keys(headers).forEach((h) => {
+          res.headers[h.toLowerCase()] = headers[h];
+        });
+        return res;
+      };
+      res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+      res.json = (payload: unknown) => {
+        res.body = payload;
+        res.writableFinished = true;
+        res.emit("finish");
+        return res;
+      };
+      // The middleware sends the response only once it is stored.
+      const finished = new Promise((resolve) => res.once("finish", resolve));
+      await productIdempotency(req, res, () => {
+        createProductHandler(req, res, jest.fn());
+      });
+      await finished;
+      return res;
+    };
+
+    const body = {
+      name: "Retry Lamp",
+      description: "Desk lamp",
+      price: 25,
+      stockQuantity: 4,
+      category: "Electronics",
+      imageUrl: "https://example.com/lamp.jpg",
+    };
+
+    beforeEach(() => {
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
+      setIdempotencyStore(
+        new InMemoryIdempotencyStore({ ttlSeconds: 60, maxEntries: 100 })
+      );
+    });
+
+    // Test case: a retried create returns the first product instead of a duplicate.
+    it("should create one product for repeated requests with the same key", async () => {
+      // Act
+      const first = await post("order-1", body);
+      const retry = await post("order-1", body);
+      // Assert
+      expect(first.statusCode).toBe(201);
+      expect(retry.statusCode).toBe(201);
+      expect(retry.body.id).toBe(first.body.id);
+      expect(retry.headers["idempotent-replayed"]).toBe("true");
+      expect(await repository.findAll()).toHaveLength(1);
+    });
+
+    // Test case: a retry the load balancer sends to another replica is replayed too.
+    it("should replay a create on a second instance sharing the key file", async () => {
+      // Arrange: two replicas, each with its own store on the shared volume.
+      const dir = await fsPromises.mkdtemp(
+        path.join(os.tmpdir(), "idempotency-")
+      );
+      const filePath = path.join(dir, "idempotency-keys.json");
+      const config = { ttlSeconds: 60, maxEntries: 100 };
+      try {
+        // Act
+        setIdempotencyStore(new FileIdempotencyStore(filePath, config));
+        const first = await post("order-3", body);
+        setIdempotencyStore(new FileIdempotencyStore(filePath, config));
+        const retry = await post("order-3", body);
+        // Assert
+        expect(retry.statusCode).toBe(201);
+        expect(retry.body.id).toBe(first.body.id);
+        expect(retry.headers["idempotent-replayed"]).toBe("true");
+        expect(await repository.findAll()).toHaveLength(1);
+      } finally {
+        await fsPromises.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    // Test case: reusing the key for another product is rejected.
+    it("should return 409 when the key is reused with a different body", async () => {
+      // Act
+      await post("order-2", body);
+      const conflict = await post("order-2", { ...body, price: 30 });
+      // Assert
+      expect(conflict.statusCode).toBe(409);
+      expect(await repository.findAll()).toHaveLength(1);
+    });
+  });
+
+  // --- Tests for the catalog metrics ---
+  describe("catalog metrics", () => {
+    // Reads one sample from the Prometheus text format, e.g. 'catalog_products 2'.
+    const sample = (body: string, series: string): number | undefined => {
+      const line = body.split("\n").find((l) => l.indexOf(`${series} `) === 0);
+      return line === undefined ? undefined : Number(line.split(" ")[1]);
+    };
+
+    const scrape = async (): Promise<string> => {
+      let body = "";
+      const res: Partial<Response> = {
+        set: jest.fn().mockReturnThis(),
+        status: jest.fn().mockReturnThis(),
+        end: jest.fn().mockImplementation((payload) => {
+          body = payload;
+        }) as any,
+      };
+      await metricsHandler(new Logger("product-service"))(
+        {} as Request,
+        res as Response,
+        jest.fn()
+      );
+      return body;
+    };
+
+    const product = (
+      id: string,
+      category: string,
+      price: number,
+      stockQuantity: number,
+      deletedAt?: Date
+    ): Product => ({
+      id: id,
+      name: `Product ${id}`,
+      description: "A product",
+      imageUrl: "https://example.com/product.jpg",
+      price: price,
+      stockQuantity: stockQuantity,
+      category: category,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: deletedAt,
+    });
+
+    // Test case: gauges reflect the catalog at scrape time, ignoring the trash.
+    it("should expose product counts and inventory value by category", async () => {
+      // Arrange
+      repository = new InMemoryProductRepository([
+        product("m1", "electronics", 10, 3),
+        product("m2", "electronics", 2.5, 4),
+        product("m3", "home", 100, 1, new Date()),
+        product("m4", "Legacy Gadgets", 1, 1),
+      ]);
+      setProductRepository(repository);
+
+      // Act
+      const body = await scrape();
+
+      // Assert
+      expect(sample(body, "catalog_products")).toBe(3);
+      expect(sample(body, "catalog_inventory_value")).toBe(41);
+      expect(
+        sample(body, 'catalog_products_by_category{category="electronics"}')
+      ).toBe(2);
+      expect(
+        sample(body, 'catalog_products_by_category{category="home"}')
+      ).toBe(0);
+      // Unknown stored values are bucketed instead of becoming labels.
+      expect(
+        sample(body, 'catalog_products_by_category{category="other"}')
+      ).toBe(1);
+      expect(body).not.toContain("Legacy Gadgets");
+    });
+
+    // Test case: every successful write counts once, by action.
+    it("should count product creations", async () => {
+      // Arrange
+      repository = new InMemoryProductRepository();
+      setProductRepository(repository);
+      const before =
+        sample(await scrape(), 'product_changes_total{action="created"}') || 0;
+      const res: Partial<Response> = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+        set: jest.fn().mockReturnThis(),
+      };
+
+      // Act
+      await createProductHandler(
+        {
+          headers: {},
+          body: {
+            name: "Metrics Lamp",
+            description: "Counted",
+            price: 20,
+            stockQuantity: 2,
+            category: "Home",
+            imageUrl: "https://example.com/lamp.jpg",
+          },
+        } as Request,
+        res as Response,
+        jest.fn()
+      );
+
+      // Assert
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(
+        sample(await scrape(), 'product_changes_total{action="created"}')
+      ).toBe(before + 1);
     });
   });
 });
@@ -13,6 +13,97 @@ import cors from "cors";
 // Import the official Prometheus client for Node.js to create and expose custom metrics.
 import client from "prom-client";
 
+import {
+  collectDefaultMetrics,
+  httpMetricsMiddleware,
+  metricsHandler,
+} from "../shared/instrumentation";
+import { Category, Product } from "./types";
+import {
+  ProductRepository,
+  createProductRepository,
+  readProductRepositoryConfig,
+} from "./productRepository";
+import {
+  CategoryRepository,
+  createCategoryRepository,
+} from "./categoryRepository";
+import { slugify, validateCategoryInput } from "./categorySchema";
+import {
+  RevisionAction,
+  RevisionRepository,
+  createRevisionRepository,
+  diffProducts,
+} from "./revisionRepository";
+import {
+  ProductListOptions,
+  applyProductListOptions,
+  parseProductListOptions,
+} from "./productQuery";
+import {
+  CursorPosition,
+  decodeCursor,
+  paginateByCursor,
+  productsAfter,
+} from "./pagination";
+import {
+  JSON_PATCH_CONTENT_TYPE,
+  MERGE_PATCH_CONTENT_TYPE,
+  applyProductPatch,
+} from "./productPatch";
+import { FieldError, validateProductInput } from "./productSchema";
+import {
+  BULK_CONTENT_TYPES,
+  BulkFormat,
+  exportLines,
+  readImportRows,
+} from "./productImportExport";
+import {
+  HttpStockClient,
+  StockClient,
+  StockInventory,
+  StockLookup,
+  StockServiceUnavailableError,
+  readStockClientConfig,
+} from "./stockClient";
+import { reconcileInventory } from "./reconciliation";
+import {
+  IdempotencyStore,
+  createIdempotencyStore,
+  idempotency,
+  readIdempotencyConfig,
+} from "../shared/idempotency";
+import {
+  Lifecycle,
+  ReadinessCheck,
+  installGracefulShutdown,
+  readShutdownConfig,
+} from "../shared/lifecycle";
+import { Logger, readLogLevel, requestLogging } from "../shared/logger";
+import {
+  Tracer,
+  createSpanExporter,
+  getTracer,
+  readTracingConfig,
+  setTracer,
+  tracingMiddleware,
+} from "../shared/tracing";
+import { StockCache } from "./stockCache";
+import {
+  EventPublisher,
+  HttpEventPublisher,
+  OutboxEvent,
+  ProductEventType,
+  dispatchOutboxEvents,
+  readOutboxConfig,
+} from "./outbox";
+import {
+  computeProductETag,
+  computeRepresentationETag,
+  ifMatchSatisfied,
+  ifNoneMatchMatches,
+} from "./etag";
+
 // --- Basic Express App Setup ---
 
 // Create an instance of an Express application.
@@ -22,80 +113,59 @@ const app: Application = express();
 // otherwise default to 3000.
 const port: number = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 
+// Every request gets an ID (taken from X-Request-Id when the caller sent one) and one
+// JSON log line when it completes. Registered first so even requests rejected by the
+// body parser are logged and answered with their ID.
+const logger = new Logger("product-service", readLogLevel());
+app.use(requestLogging(logger));
+
+// A server span per request, continuing the caller's traceparent; calls to the stock
+// service are client spans under it. TRACING_EXPORTER selects where spans go.
+const tracingConfig = readTracingConfig("product-service");
+setTracer(
+  new Tracer(
+    tracingConfig.serviceName,
+    createSpanExporter(tracingConfig, logger)
+  )
+);
+app.use(tracingMiddleware(getTracer));
+
 // Enable the CORS middleware for all incoming requests. This adds the necessary
 // headers to allow a web frontend (running on a different origin) to make API calls.
-app.use(cors());
+// The ETag header is exposed so browser clients can echo it back in If-Match,
+// Warning so they can tell when stock levels are not live, Idempotent-Replayed so
+// they can tell a replayed response from a fresh one, and X-Request-Id so they can
+// quote the ID when reporting a problem.
+app.use(
+  cors({
+    exposedHeaders: ["ETag", "Warning", "Idempotent-Replayed", "X-Request-Id"],
+  })
+);
 
 // Enable the express.json() middleware. This parses incoming requests with JSON payloads
 // (e.g., from POST/PUT requests) and makes the parsed data available on `req.body`.
-app.use(express.json());
+// The patch media types used by PATCH /products/:id are JSON as well.
+app.use(
+  express.json({
+    type: [
+      "application/json",
+      MERGE_PATCH_CONTENT_TYPE,
+      JSON_PATCH_CONTENT_TYPE,
+    ],
+  })
+);
 
 // --- Prometheus Metrics Instrumentation ---
 
-// Enable the collection of default metrics provided by prom-client.
-// This includes metrics about CPU usage, memory, event loop lag, etc., for the Node.js process.
-const collectDefaultMetrics = client.collectDefaultMetrics;
+// Default process metrics plus request counts and durations for every route. The
+// middleware must be registered before the routes to ensure it runs for every request.
 collectDefaultMetrics();
+app.use(httpMetricsMiddleware);
 
-// Create a custom Prometheus Counter metric to track the total number of HTTP requests.
-const httpRequestCounter = new client.Counter({
-  name: "http_requests_total",
-  help: "Total number of HTTP requests",
-  // 'labelNames' allow us to slice and dice the metric data by different dimensions.
-  labelNames: ["method", "route", "status"], // Changed 'status' to 'status_code' for clarity
-});
-
-// Create a custom Prometheus Histogram metric to track the duration of HTTP requests.
-// Histograms are useful for calculating percentiles (e.g., p95, p99 latency).
-const httpRequestDurationHistogram = new client.Histogram({
-  name: "http_request_duration_seconds",
-  help: "Duration of HTTP requests in seconds",
-  labelNames: ["method", "route", "status"],
-  buckets: [0.1, 0.5, 1, 1.5, 2, 5], // 'buckets' define the time ranges (in seconds) for grouping request durations.
-});
-
-// Custom Express middleware to intercept all requests and record metrics.
-// This middleware must be defined before the routes to ensure it runs for every request.
-app.use((req, res, next) => {
-  // Start a timer for the request duration histogram.
-  const end = httpRequestDurationHistogram.startTimer();
-
-  // Use the 'finish' event on the response object, which is fired when the response is sent.
-  res.on("finish", () => {
-    // Determine the route path. `req.route.path` provides the matched pattern (e.g., /products/:id).
-    // If no route is matched, it falls back to the raw URL path.
-    const route = req.route ? req.route.path : req.path; // Route'u al
-
-    // Increment the request counter with the appropriate labels.
-    httpRequestCounter.inc({
-      method: req.method,
-      route: route,
-      status: res.statusCode,
-    });
-
-    // End the timer and record the duration for the corresponding route and method.
-    end({ method: req.method, route: route });
-  });
-
-  // Pass control to the next middleware or route handler in the chain.
-  next();
-});
+// --- Data Model and Storage ---
 
-// --- Data Model and In-Memory Storage ---
-
-// Defines the data structure for a Product object using a TypeScript interface for type safety.
-export interface Product {
-  id: string;
-  name: string;
-  description: string;
-  detailedDescription?: string;
-  imageUrl: string;
-  price: number;
-  stockQuantity: number;
-  category: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+// The Product model lives in its own module so the repositories can share it.
+export type { Product } from "./types";
 
 // An array of sample products to pre-populate the application on startup.
 // This is useful for demonstration and testing purposes.
@@ -110,7 +180,7 @@ export let sampleProducts: Product[] = [
       "https://images.unsplash.com/photo-1611186871348-b1ce696e52c9?q=80&w=2070&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D",
     price: 1499.99,
     stockQuantity: 25,
-    category: "Electronics",
+    category: "electronics",
     createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 gün önce
     updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000), // 1 gün önce
   },
@@ -122,7 +192,7 @@ export let sampleProducts: Product[] = [
       "https://images.unsplash.com/photo-1527814050087-3793815479db?q=80&w=1928&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D",
     price: 39.99,
     stockQuantity: 150,
-    category: "Accessories",
+    category: "accessories",
     createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), // 10 gün önce
     updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 gün önce
   },
@@ -134,7 +204,7 @@ export let sampleProducts: Product[] = [
       "https://images.unsplash.com/photo-1651168251177-32b5138220dc?q=80&w=1974&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D",
     price: 89.9,
     stockQuantity: 75,
-    category: "Peripherals",
+    category: "peripherals",
     createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 gün önce
     updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 gün önce (güncellenmemiş)
   },
@@ -146,7 +216,7 @@ export let sampleProducts: Product[] = [
       "https://images.unsplash.com/photo-1576935429524-1df7fb127097?q=80&w=1974&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D",
     price: 349.5,
     stockQuantity: 40,
-    category: "Monitors",
+    category: "monitors",
     createdAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000), // 15 gün önce
     updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 gün önce
   },
@@ -158,78 +228,582 @@ export let sampleProducts: Product[] = [
       "https://images.unsplash.com/photo-1548544027-1a96c4c24c7a?q=80&w=1974&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D",
     price: 29.99,
     stockQuantity: 200,
-    category: "Accessories",
+    category: "accessories",
     createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000), // 20 gün önce
     updatedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), // 10 gün önce
   },
 ];
 
-// This array serves as our in-memory "database". In a real application, this would be
-// replaced with a connection to a persistent database like PostgreSQL or MongoDB.
-// It's exported so our unit tests can access and manipulate it.
-export let products: Product[] = [...sampleProducts];
+// The categories the sample products belong to.
+export const sampleCategories: Category[] = [
+  {
+    slug: "electronics",
+    name: "Electronics",
+    description: "Laptops and other computers.",
+    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+  },
+  {
+    slug: "accessories",
+    name: "Accessories",
+    description: "Mice, hubs and other small add-ons.",
+    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+  },
+  {
+    slug: "peripherals",
+    name: "Peripherals",
+    description: "Keyboards and other input devices.",
+    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+  },
+  {
+    slug: "monitors",
+    name: "Monitors",
+    description: "External displays.",
+    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    updatedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+  },
+];
+
+// The repository that stores our products. Which implementation is used (in-memory or
+// file-backed) is decided by the PRODUCT_REPOSITORY environment variable, so the same
+// code runs in unit tests, locally and in the cluster. It starts out seeded with the
+// sample products above.
+const repositoryConfig = readProductRepositoryConfig();
+let productRepository: ProductRepository = createProductRepository(
+  repositoryConfig,
+  sampleProducts
+);
+
+// The categories products may reference, stored with the same driver.
+let categoryRepository: CategoryRepository = createCategoryRepository(
+  repositoryConfig,
+  sampleCategories
+);
+
+// Every create, update and delete is recorded here so GET /products/:id/history can
+// show who changed what and when. It uses the same driver as the product repository.
+let revisionRepository: RevisionRepository =
+  createRevisionRepository(repositoryConfig);
+
+// Swaps the active repository. Our unit tests use this to start every case from a
+// fresh in-memory store.
+export const setProductRepository = (repository: ProductRepository): void => {
+  productRepository = repository;
+};
+
+// Swaps the active category repository, for the same reason.
+export const setCategoryRepository = (repository: CategoryRepository): void => {
+  categoryRepository = repository;
+};
+
+// Swaps the active revision history store, for the same reason.
+export const setRevisionRepository = (repository: RevisionRepository): void => {
+  revisionRepository = repository;
+};
+
+// --- Optimistic Concurrency ---
+
+// When REQUIRE_IF_MATCH is "true", writes without an If-Match header are rejected with
+// 428 instead of falling back to last-write-wins. It is read on every request so it
+// can be toggled in tests.
+const isIfMatchRequired = (): boolean =>
+  process.env.REQUIRE_IF_MATCH === "true";
+
+/**
+ * Checks the If-Match precondition of a PUT/PATCH/DELETE against the current product.
+ * Sends a 428 or 412 response and returns false when the write must not proceed.
+ */
+const checkIfMatch = (
+  req: Request,
+  res: Response,
+  currentProduct: Product
+): boolean => {
+  const ifMatch = req.headers["if-match"];
+  if (ifMatch === undefined && isIfMatchRequired()) {
+    res.status(428).json({
+      message:
+        "This request requires an If-Match header with the product's current ETag.",
+    });
+    return false;
+  }
+
+  const currentETag = computeProductETag(currentProduct);
+  if (!ifMatchSatisfied(ifMatch, currentETag)) {
+    res.set("ETag", currentETag);
+    res.status(412).json({
+      message: `Product with id '${currentProduct.id}' has been modified by another request. Reload it and try again.`,
+    });
+    return false;
+  }
+  return true;
+};
+
+// --- Validation Errors ---
+
+// Sends the standard 400 response for schema violations. `errors` lists every failing
+// field with a machine-readable code so forms can highlight the matching inputs.
+const sendValidationError = (res: Response, errors: FieldError[]): void => {
+  res.status(400).json({ message: "Product validation failed.", errors });
+};
+
+// --- Product Events (Transactional Outbox) ---
+
+// Product changes are announced to the stock service through the outbox in
+// outbox.ts. Events are only recorded while a consumer is configured
+// (STOCK_SERVICE_URL); otherwise nothing would ever drain the outbox.
+const outboxConfig = readOutboxConfig();
+let eventPublisher: EventPublisher | undefined = outboxConfig.consumerUrl
+  ? new HttpEventPublisher(outboxConfig.consumerUrl, outboxConfig.timeoutMs)
+  : undefined;
+
+// Swaps the event publisher. Tests use this to capture or fail deliveries.
+export const setEventPublisher = (
+  publisher: EventPublisher | undefined
+): void => {
+  eventPublisher = publisher;
+};
+
+// Builds the outbox event for one product change, to be stored with the change itself.
+const productEvents = (
+  type: ProductEventType,
+  product: Product
+): OutboxEvent[] => {
+  if (!eventPublisher) {
+    return [];
+  }
+  const now = new Date();
+  return [
+    {
+      id: uuidv4(),
+      type: type,
+      productId: product.id,
+      occurredAt: now,
+      data: product,
+      attempts: 0,
+      nextAttemptAt: now,
+    },
+  ];
+};
+
+// Delivers due outbox events once. Runs on a timer in the server; tests call it directly.
+export const dispatchProductEvents = async (): Promise<number> => {
+  const publisher = eventPublisher;
+  return publisher
+    ? getTracer().trace("outbox.dispatch", () =>
+        dispatchOutboxEvents(productRepository, publisher, outboxConfig)
+      )
+    : 0;
+};
+
+// Events that ran out of delivery attempts and will not be sent again. Anything above
+// zero means the Stock Service missed a product change and needs a look.
+new client.Gauge({
+  name: "outbox_dead_letter_events",
+  help: "Number of product events in the outbox that were dead-lettered",
+  async collect() {
+    this.set(await productRepository.countDeadLetteredEvents());
+  },
+});
+
+// --- Live Stock ---
+
+// Client for the stock service, which owns the real stock levels. It is only created
+// when STOCK_SERVICE_URL is set; otherwise products keep their catalog stockQuantity.
+const stockClientConfig = readStockClientConfig();
+const httpStockClient =
+  stockClientConfig && new HttpStockClient(stockClientConfig);
+let stockClient: StockClient | undefined = httpStockClient;
+// The same client, used for whole-inventory reconciliation.
+let stockInventory: StockInventory | undefined = httpStockClient;
+
+// Swaps the stock client. Tests use this to install a fake stock service.
+export const setStockClient = (client: StockClient | undefined): void => {
+  stockClient = client;
+};
+
+export const setStockInventory = (
+  inventory: StockInventory | undefined
+): void => {
+  stockInventory = inventory;
+};
+
+// Last stock levels the stock service confirmed, served while it is unreachable.
+let stockCache = new StockCache(
+  stockClientConfig && stockClientConfig.cacheMaxEntries
+);
+
+// Swaps the stock cache, so tests can start without any remembered levels.
+export const setStockCache = (cache: StockCache): void => {
+  stockCache = cache;
+};
+
+// Counts product responses that could not show live stock, by route and by how they
+// degraded. Useful to see the fallback at work during chaos tests.
+const degradedResponseCounter = new client.Counter({
+  name: "degraded_responses_total",
+  help: "Total number of responses served with stale or catalog stock levels",
+  labelNames: ["route", "reason"],
+});
+
+// Where a response's stockQuantity came from: the stock service ("live"), the
+// last-known-good cache because the stock service is unreachable ("stale"), or the
+// catalog because the stock service has no record ("untracked") or is unreachable
+// and nothing is cached ("unavailable").
+export type StockStatus = "live" | "stale" | "untracked" | "unavailable";
+
+type ProductWithStock = Product & {
+  stockStatus: StockStatus;
+  // For stale levels: when the stock service last confirmed the quantity.
+  stockCachedAt?: Date;
+};
+
+const applyStockLookup = (
+  product: Product,
+  lookup: StockLookup
+): ProductWithStock => {
+  if (lookup.status === "found") {
+    stockCache.set(product.id, lookup.quantity);
+    return { ...product, stockQuantity: lookup.quantity, stockStatus: "live" };
+  }
+  if (lookup.status === "not_found") {
+    return { ...product, stockStatus: "untracked" };
+  }
+  const cached = stockCache.get(product.id);
+  if (cached) {
+    return {
+      ...product,
+      stockQuantity: cached.quantity,
+      stockStatus: "stale",
+      stockCachedAt: cached.cachedAt,
+    };
+  }
+  return { ...product, stockStatus: "unavailable" };
+};
+
+// Replaces the catalog stockQuantity of the given products with live levels from the
+// stock service, fetched in one batch.
+const lookUpStock = async (
+  liveStock: StockClient,
+  products: Product[]
+): Promise<ProductWithStock[]> => {
+  const lookups = await getTracer().trace("products.enrich_stock", (span) => {
+    span.setAttribute("products.count", products.length);
+    return liveStock.getStockLevels(products.map((p) => p.id));
+  });
+  return products.map((product) =>
+    applyStockLookup(product, lookups[product.id])
+  );
+};
+
+// Marks a response whose stock levels did not all come from the stock service: it
+// gets a Warning header and the degraded-response metric is incremented.
+const flagDegradedStock = (
+  res: Response,
+  route: string,
+  enriched: ProductWithStock[]
+): void => {
+  const statuses = enriched.map((p) => p.stockStatus);
+  if (statuses.indexOf("unavailable") !== -1) {
+    res.set(
+      "Warning",
+      '199 product-service "Stock service unavailable; some stock levels come from the catalog"'
+    );
+    degradedResponseCounter.inc({ route: route, reason: "unavailable" });
+  } else if (statuses.indexOf("stale") !== -1) {
+    res.set(
+      "Warning",
+      '110 product-service "Stock service unavailable; serving last known stock levels"'
+    );
+    degradedResponseCounter.inc({ route: route, reason: "stale" });
+  }
+};
+
+/**
+ * Replaces the catalog stockQuantity of the given products with live levels from the
+ * stock service. Callers pass only the products they return, except for the inStock
+ * filter, which needs the live levels first (see findListedProducts).
+ * When the stock service fails the response degrades instead of failing (see
+ * flagDegradedStock).
+ */
+const enrichWithStock = async (
+  res: Response,
+  route: string,
+  products: Product[]
+): Promise<Product[]> => {
+  if (!stockClient || products.length === 0) {
+    return products;
+  }
+  const enriched = await lookUpStock(stockClient, products);
+  flagDegradedStock(res, route, enriched);
+  return enriched;
+};
+
+// --- Category References ---
+
+/**
+ * Finds the slug of the category a product refers to. Clients may send either the
+ * slug or the name in any casing; both are compared by slug, so "Accessories" and
+ * "accessories" always end up in the same category.
+ */
+const findCategorySlug = (
+  categories: Category[],
+  value: string
+): string | undefined => {
+  const slug = slugify(value);
+  const category = categories.find(
+    (c) => c.slug === slug || slugify(c.name) === slug
+  );
+  return category && category.slug;
+};
+
+// The field error reported when a product names a category that does not exist.
+const unknownCategoryError = (value: string): FieldError => ({
+  field: "category",
+  code: "not_found",
+  message: `category '${value}' does not exist. Create it under /categories first.`,
+});
+
+// --- Soft Delete ---
+
+// Loads a product unless it is missing or sitting in the trash. Normal reads and
+// writes go through this so trashed products behave as if they were gone.
+const findActiveProduct = async (id: string): Promise<Product | undefined> => {
+  const product = await productRepository.findById(id);
+  return product && !product.deletedAt ? product : undefined;
+};
+
+// --- Idempotency ---
+
+// Responses of POST /products by Idempotency-Key, so client retries do not create
+// duplicate products. With the file driver the keys are kept next to the catalog, so
+// a retry reaching another replica is still replayed. Replaceable so tests start from
+// an empty store.
+let idempotencyStore: IdempotencyStore = createIdempotencyStore(
+  readIdempotencyConfig(),
+  repositoryConfig.driver === "file"
+    ? repositoryConfig.idempotencyFilePath
+    : undefined
+);
+
+export const setIdempotencyStore = (store: IdempotencyStore): void => {
+  idempotencyStore = store;
+};
+
+export const productIdempotency = idempotency(() => idempotencyStore, logger);
+
+// --- Business Metrics ---
+
+// Catalog gauges, computed from the repository whenever Prometheus scrapes /metrics.
+// Products in the trash are not counted. Quantities are the catalog's stockQuantity,
+// so they do not depend on the stock service being reachable.
+const activeProducts = async (): Promise<Product[]> =>
+  (await productRepository.findAll()).filter((product) => !product.deletedAt);
+
+new client.Gauge({
+  name: "catalog_products",
+  help: "Number of products in the catalog",
+  async collect() {
+    this.set((await activeProducts()).length);
+  },
+});
+
+new client.Gauge({
+  name: "catalog_inventory_value",
+  help: "Total value of the catalog's stock (price times stockQuantity)",
+  async collect() {
+    this.set(
+      (await activeProducts()).reduce(
+        (total, product) => total + product.price * product.stockQuantity,
+        0
+      )
+    );
+  },
+});
+
+// The label for products whose stored category is not a known slug (e.g. written
+// before categories existed, or naming a deleted category).
+const OTHER_CATEGORY_LABEL = "other";
+
+// One series per category, including empty ones, plus "other". Labels only come from
+// the category list, which administrators maintain, so the label set stays bounded
+// whatever values are stored on products.
+new client.Gauge({
+  name: "catalog_products_by_category",
+  help: "Number of products in the catalog by category slug ('other' for unknown categories)",
+  labelNames: ["category"],
+  async collect() {
+    const [products, categories] = await Promise.all([
+      activeProducts(),
+      categoryRepository.findAll(),
+    ]);
+    const slugs = categories.map((category) => category.slug);
+    this.reset();
+    slugs.concat(OTHER_CATEGORY_LABEL).forEach((slug) => {
+      this.set({ category: slug }, 0);
+    });
+    products.forEach((product) => {
+      this.inc({
+        category:
+          slugs.indexOf(product.category) !== -1
+            ? product.category
+            : OTHER_CATEGORY_LABEL,
+      });
+    });
+  },
+});
+
+// Successful product writes by revision action. Every write records a revision, so the
+// counter is incremented there: bulk imports count as created, reconciliation fixes as
+// updated, soft deletes as deleted, and restores and purges under their own action.
+const productChangeCounter = new client.Counter({
+  name: "product_changes_total",
+  help: "Total number of successful product writes by action (created, updated, deleted, restored, purged), including imports and reconciliation fixes",
+  labelNames: ["action"],
+});
+
+// --- Revision History ---
+
+// Who made a change. There is no authentication yet, so callers identify themselves
+// with the X-User-Id header and anything else is recorded as "anonymous".
+const getActor = (req: Request): string => {
+  const actor = req.headers["x-user-id"];
+  return typeof actor === "string" && actor.trim() !== ""
+    ? actor.trim()
+    : "anonymous";
+};
+
+/**
+ * Records one revision of a product after a successful write. The write itself has
+ * already happened, so a failure here is logged instead of failing the request.
+ */
+const recordRevision = async (
+  req: Request,
+  action: RevisionAction,
+  before: Product | undefined,
+  after: Product
+): Promise<void> => {
+  productChangeCounter.inc({ action: action });
+  try {
+    await revisionRepository.append({
+      productId: after.id,
+      action: action,
+      changedBy: getActor(req),
+      changedAt: new Date(),
+      changes: diffProducts(before, after),
+      snapshot: after,
+    });
+  } catch (error) {
+    logger.error("Error recording product revision", {
+      productId: after.id,
+      error: error,
+    });
+  }
+};
 
 // --- Route Handlers (Business Logic) ---
 /**
  * Handles the creation of a new product.
  * Expects product data in the request body.
- * Validates the input and adds the new product to the in-memory array.
+ * Validates the input and saves the new product in the product repository.
  */
-export const createProductHandler: RequestHandler = (req, res) => {
+export const createProductHandler: RequestHandler = async (req, res) => {
   try {
-    const {
-      name,
-      description,
-      detailedDescription,
-      price,
-      stockQuantity,
-      category,
-      imageUrl,
-    } = req.body;
-
-    if (
-      !name ||
-      !description ||
-      price === undefined ||
-      stockQuantity === undefined ||
-      !category ||
-      !imageUrl
-    ) {
-      res.status(400).json({
-        message:
-          "Please provide all required fields: name, description, price, stockQuantity, category, imageUrl",
-      });
+    const { value: input, errors } = validateProductInput(req.body);
+    if (!input) {
+      sendValidationError(res, errors);
       return; // Exit after sending response
     }
-    if (typeof price !== "number" || typeof stockQuantity !== "number") {
-      res
-        .status(400)
-        .json({ message: "Fields price and stockQuantity must be numbers." });
+
+    const category = findCategorySlug(
+      await categoryRepository.findAll(),
+      input.category
+    );
+    if (!category) {
+      sendValidationError(res, [unknownCategoryError(input.category)]);
       return; // Exit after sending response
     }
 
     const newProduct: Product = {
       id: uuidv4(),
-      name,
-      description,
-      detailedDescription,
-      price,
-      stockQuantity,
-      category,
-      imageUrl,
+      ...input,
+      category: category,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    products.push(newProduct);
-    res.status(201).json(newProduct);
+    const createdProduct = await productRepository.create(
+      newProduct,
+      productEvents("product.created", newProduct)
+    );
+    await recordRevision(req, "created", undefined, createdProduct);
+    res.status(201).json(createdProduct);
   } catch (error) {
     res.status(500).json({ message: "Server error: Could not add product." });
   }
 };
 
+// Candidates looked up per round of the inStock filter: one stock-service batch.
+const IN_STOCK_SCAN_CHUNK = 100;
+
+/**
+ * Filters and sorts the catalog for GET /products. The inStock filter has to agree
+ * with the stock levels the response shows, so with live stock the candidates are
+ * looked up in list order, a chunk at a time, until `needed` of them match (a cursor
+ * page starts after `position`). Lookups stay proportional to the page rather than
+ * the catalog. `complete` tells whether every candidate was checked, i.e. whether
+ * `products` is the whole filtered list; `enriched` that the page needs no second
+ * lookup.
+ */
+const findListedProducts = async (
+  res: Response,
+  options: ProductListOptions,
+  needed: number,
+  position?: CursorPosition
+): Promise<{ products: Product[]; enriched: boolean; complete: boolean }> => {
+  const allProducts = await productRepository.findAll();
+  if (options.inStock === undefined || !stockClient) {
+    return {
+      products: applyProductListOptions(allProducts, options),
+      enriched: false,
+      complete: true,
+    };
+  }
+  let candidates = applyProductListOptions(allProducts, {
+    ...options,
+    inStock: undefined,
+  });
+  if (position) {
+    candidates = productsAfter(candidates, position);
+  }
+  const scanned: ProductWithStock[] = [];
+  const matches: Product[] = [];
+  while (scanned.length < candidates.length && matches.length < needed) {
+    const chunk = await lookUpStock(
+      stockClient,
+      candidates.slice(scanned.length, scanned.length + IN_STOCK_SCAN_CHUNK)
+    );
+    scanned.push(...chunk);
+    matches.push(
+      ...chunk.filter(
+        (product) => product.stockQuantity > 0 === options.inStock
+      )
+    );
+  }
+  flagDegradedStock(res, "/products", scanned);
+  return {
+    products: matches,
+    enriched: true,
+    complete: scanned.length === candidates.length,
+  };
+};
+
 // Handler for listing products (GET /products)
-export const listProductsHandler: RequestHandler = (req, res) => {
+// Supports page/limit pagination plus the filters and sort order described in productQuery.ts.
+// Passing a `cursor` parameter (empty for the first page) switches to cursor pagination,
+// which stays stable while products are created or deleted between requests.
+export const listProductsHandler: RequestHandler = async (req, res) => {
   try {
     const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
     const limit = req.query.limit
@@ -244,114 +818,276 @@ export const listProductsHandler: RequestHandler = (req, res) => {
       return; // Exit after sending response
     }
 
+    const parsedOptions = parseProductListOptions(req.query);
+    if (parsedOptions.errors) {
+      res.status(400).json({
+        message: `Invalid query parameters. ${parsedOptions.errors.join(" ")}`,
+      });
+      return; // Exit after sending response
+    }
+
+    const cursor = req.query.cursor;
+    if (cursor !== undefined) {
+      if (
+        typeof cursor !== "string" ||
+        req.query.page ||
+        parsedOptions.options.sort
+      ) {
+        res.status(400).json({
+          message:
+            "Cursor pagination cannot be combined with page or sort parameters.",
+        });
+        return; // Exit after sending response
+      }
+      const position = cursor ? decodeCursor(cursor) : undefined;
+      if (cursor && !position) {
+        res.status(400).json({ message: "Invalid cursor." });
+        return; // Exit after sending response
+      }
+
+      // One more than the page shows tells whether there is a next page.
+      const listed = await findListedProducts(
+        res,
+        parsedOptions.options,
+        limit + 1,
+        position
+      );
+      const filteredProducts = listed.products;
+      const { data, nextCursor } = paginateByCursor(
+        filteredProducts,
+        position,
+        limit
+      );
+
+      res.status(200).json({
+        data: listed.enriched
+          ? data
+          : await enrichWithStock(res, "/products", data),
+        pagination: {
+          totalItems: listed.complete ? filteredProducts.length : null,
+          limit: limit,
+          hasNextPage: nextCursor !== null,
+          nextCursor: nextCursor,
+        },
+      });
+      return; // Exit after sending response
+    }
+
+    // Filter and sort first so the pagination block describes the filtered result set.
     const startIndex = (page - 1) * limit;
     const endIndex = page * limit;
 
-    const results = products.slice(startIndex, endIndex).map((p) => ({ ...p }));
-    const totalItems = products.length;
-    const totalPages = Math.ceil(totalItems / limit);
+    const listed = await findListedProducts(
+      res,
+      parsedOptions.options,
+      endIndex + 1
+    );
+    const products = listed.products;
+
+    const results = products.slice(startIndex, endIndex);
+    // Unknown when the inStock filter stopped looking once the page was filled.
+    const totalItems = listed.complete ? products.length : null;
+    const totalPages =
+      totalItems !== null ? Math.ceil(totalItems / limit) : null;
 
     res.status(200).json({
-      data: results,
+      data: listed.enriched
+        ? results
+        : await enrichWithStock(res, "/products", results),
       pagination: {
         currentPage: page,
         totalPages: totalPages,
         totalItems: totalItems,
         limit: limit,
-        hasNextPage: endIndex < totalItems,
+        hasNextPage: endIndex < products.length,
         hasPreviousPage: startIndex > 0,
       },
     });
   } catch (error) {
-    console.error("Error listing products:", error);
+    logger.error("Error listing products", { error: error });
     res.status(500).json({ message: "Server error: Could not list products." });
   }
 };
 
 // Handler for getting a product by ID (GET /products/:id)
-export const getProductByIdHandler: RequestHandler = (req, res) => {
+export const getProductByIdHandler: RequestHandler = async (req, res) => {
   try {
     const { id } = req.params;
-    const product = products.find((p) => p.id === id);
+    const product = await findActiveProduct(id);
 
     if (product) {
-      res.status(200).json(product);
+      // The ETag describes the body actually sent, live stock included, so a cached
+      // copy is only reused while neither the product nor its stock level changed.
+      // If-Match still accepts it for writes (see computeRepresentationETag).
+      const body = (await enrichWithStock(res, "/products/:id", [product]))[0];
+      const etag = computeRepresentationETag(product, body);
+      res.set("ETag", etag);
+      // The client's cached copy is still current: skip sending the body.
+      if (ifNoneMatchMatches(req.headers["if-none-match"], etag)) {
+        res.status(304).end();
+        return; // Exit after sending response
+      }
+      res.status(200).json(body);
       return; // Exit after sending response
     } else {
       res.status(404).json({ message: `Product with id '${id}' not found.` });
       return; // Exit after sending response
     }
   } catch (error) {
-    console.error("Error fetching product by ID:", error);
+    logger.error("Error fetching product by ID", { error: error });
     res.status(500).json({ message: "Server error: Could not fetch product." });
   }
 };
 
 // Handler for updating an existing product (PUT /products/:id)
-export const updateProductHandler: RequestHandler = (req, res) => {
+export const updateProductHandler: RequestHandler = async (req, res) => {
   try {
     const productId = req.params.id;
-    const {
-      name,
-      description,
-      price,
-      stockQuantity,
-      category,
-      detailedDescription,
-      imageUrl,
-    } = req.body;
-
-    // Basic validation for request body
-    if (
-      !name ||
-      !description ||
-      price === undefined ||
-      stockQuantity === undefined ||
-      !category ||
-      !imageUrl
-    ) {
-      res.status(400).json({
-        message:
-          "Please provide all required fields for update: name, description, price, stockQuantity, category, imageUrl", // imageUrl eklendi
+
+    // Look up the product to update first, so an unknown id is a 404 whatever the
+    // body contains (as for PATCH)
+    const existingProduct = await findActiveProduct(productId);
+    if (!existingProduct) {
+      res.status(404).json({
+        message: `Product with id '${productId}' not found, cannot update.`,
       });
-      return;
+      return; // Exit after sending response
     }
 
-    if (typeof price !== "number" || typeof stockQuantity !== "number") {
-      res
-        .status(400)
-        .json({ message: "Fields price and stockQuantity must be numbers." });
+    if (!checkIfMatch(req, res, existingProduct)) {
       return; // Exit after sending response
     }
 
-    // Find the index of the product to update
-    const productIndex = products.findIndex((p) => p.id === productId);
+    // PUT replaces the whole product, so the full schema applies
+    const { value: input, errors } = validateProductInput(req.body);
+    if (!input) {
+      sendValidationError(res, errors);
+      return; // Exit after sending response
+    }
 
-    if (productIndex !== -1) {
-      // Product found, create the updated product object
-      const updatedProduct: Product = {
-        ...products[productIndex], // Preserve original id and createdAt
-        name: name,
-        description: description,
-        detailedDescription: detailedDescription,
-        imageUrl: imageUrl,
-        price: price,
-        stockQuantity: stockQuantity,
-        category: category,
-        updatedAt: new Date(), // Set new updatedAt timestamp
-      };
+    const category = findCategorySlug(
+      await categoryRepository.findAll(),
+      input.category
+    );
+    if (!category) {
+      sendValidationError(res, [unknownCategoryError(input.category)]);
+      return; // Exit after sending response
+    }
 
-      // Replace the old product with the updated product in the array
-      products[productIndex] = updatedProduct;
+    // Product found, create the updated product object
+    const updatedProduct: Product = {
+      id: existingProduct.id, // Preserve original id and createdAt
+      createdAt: existingProduct.createdAt,
+      ...input,
+      category: category, // Stored by slug, however the client spelled it
+      updatedAt: new Date(), // Set new updatedAt timestamp
+    };
 
-      res.status(200).json(updatedProduct);
-    } else {
+    // Replace the old product with the updated product in the repository.
+    // It can still come back undefined if another request deleted it meanwhile.
+    const savedProduct = await productRepository.update(
+      updatedProduct,
+      productEvents("product.updated", updatedProduct)
+    );
+
+    if (savedProduct) {
+      await recordRevision(req, "updated", existingProduct, savedProduct);
+      res.set("ETag", computeProductETag(savedProduct));
+      res.status(200).json(savedProduct);
+      return; // Exit after sending response
+    }
+
+    res.status(404).json({
+      message: `Product with id '${productId}' not found, cannot update.`,
+    });
+  } catch (error) {
+    logger.error("Error updating product", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not update product." });
+  }
+};
+
+// Handler for partially updating a product (PATCH /products/:id)
+// Accepts a JSON Merge Patch (application/merge-patch+json or plain application/json)
+// or a JSON Patch (application/json-patch+json). Unlike PUT, omitted fields are kept.
+export const patchProductHandler: RequestHandler = async (req, res) => {
+  try {
+    const productId = req.params.id;
+    const contentType = (req.headers["content-type"] || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    const format =
+      contentType === JSON_PATCH_CONTENT_TYPE ? "json-patch" : "merge";
+
+    const existingProduct = await findActiveProduct(productId);
+    if (!existingProduct) {
       res.status(404).json({
         message: `Product with id '${productId}' not found, cannot update.`,
       });
+      return; // Exit after sending response
+    }
+
+    if (!checkIfMatch(req, res, existingProduct)) {
+      return; // Exit after sending response
+    }
+
+    const result = applyProductPatch(existingProduct, req.body, format);
+    if (result.error !== undefined) {
+      if (result.errors) {
+        sendValidationError(res, result.errors);
+      } else {
+        res.status(400).json({ message: result.error });
+      }
+      return; // Exit after sending response
+    }
+
+    // A changed category must exist; it is stored by slug like on create.
+    if (
+      result.changed &&
+      result.product.category !== existingProduct.category
+    ) {
+      const category = findCategorySlug(
+        await categoryRepository.findAll(),
+        result.product.category
+      );
+      if (!category) {
+        sendValidationError(res, [
+          unknownCategoryError(result.product.category),
+        ]);
+        return; // Exit after sending response
+      }
+      result.product.category = category;
+    }
+
+    // Nothing changed, including a category that only differed in spelling from its
+    // slug: skip the write so updatedAt keeps its old value.
+    const changed =
+      result.changed &&
+      Object.keys(diffProducts(existingProduct, result.product)).length > 0;
+    if (!changed) {
+      res.set("ETag", computeProductETag(existingProduct));
+      res.status(200).json(existingProduct);
+      return; // Exit after sending response
+    }
+
+    const savedProduct = await productRepository.update(
+      result.product,
+      productEvents("product.updated", result.product)
+    );
+    if (savedProduct) {
+      await recordRevision(req, "updated", existingProduct, savedProduct);
+      res.set("ETag", computeProductETag(savedProduct));
+      res.status(200).json(savedProduct);
+      return; // Exit after sending response
     }
+
+    res.status(404).json({
+      message: `Product with id '${productId}' not found, cannot update.`,
+    });
   } catch (error) {
-    console.error("Error updating product:", error);
+    logger.error("Error patching product", { error: error });
     res
       .status(500)
       .json({ message: "Server error: Could not update product." });
@@ -359,16 +1095,29 @@ export const updateProductHandler: RequestHandler = (req, res) => {
 };
 
 // Handler for deleting a product by ID (DELETE /products/:id)
-export const deleteProductHandler: RequestHandler = (req, res) => {
+// This is a soft delete: the product gets a deletedAt timestamp and moves to the trash.
+export const deleteProductHandler: RequestHandler = async (req, res) => {
   try {
     const productId = req.params.id;
 
-    // Find the index of the product to delete
-    const productIndex = products.findIndex((p) => p.id === productId);
+    // Load the product first so an If-Match precondition can be checked against it
+    const existingProduct = await findActiveProduct(productId);
+    if (existingProduct && !checkIfMatch(req, res, existingProduct)) {
+      return; // Exit after sending response
+    }
 
-    if (productIndex !== -1) {
-      // Product found, remove it from the array
-      const deletedProduct = products.splice(productIndex, 1); // splice returns an array of deleted items
+    // Move the product to the trash; undefined means no (active) product had this id.
+    // It stays restorable through POST /products/:id/restore until it is purged.
+    // The stock service drops the product's stock record on product.deleted.
+    const trashedProduct =
+      existingProduct &&
+      (await productRepository.update(
+        { ...existingProduct, deletedAt: new Date() },
+        productEvents("product.deleted", existingProduct)
+      ));
+
+    if (trashedProduct) {
+      await recordRevision(req, "deleted", existingProduct, trashedProduct);
       res.status(204).send(); // 204 No Content for successful deletion
       // .send() is used as .json() is not appropriate for 204
     } else {
@@ -377,49 +1126,709 @@ export const deleteProductHandler: RequestHandler = (req, res) => {
       });
     }
   } catch (error) {
-    console.error("Error deleting product:", error);
+    logger.error("Error deleting product", { error: error });
     res
       .status(500)
       .json({ message: "Server error: Could not delete product." });
   }
 };
 
+// Handler for listing trashed products (GET /products/trash)
+// Returns soft-deleted products, most recently deleted first, with page/limit pagination.
+export const listTrashHandler: RequestHandler = async (req, res) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string, 10)
+      : 10;
+
+    if (isNaN(page) || isNaN(limit) || page < 1 || limit < 1) {
+      res.status(400).json({
+        message:
+          "Invalid pagination parameters. Page and limit must be positive numbers.",
+      });
+      return; // Exit after sending response
+    }
+
+    const trashed = (await productRepository.findAll())
+      .filter((p) => p.deletedAt)
+      .sort(
+        (a, b) =>
+          (b.deletedAt as Date).getTime() - (a.deletedAt as Date).getTime()
+      );
+
+    const startIndex = (page - 1) * limit;
+    const endIndex = page * limit;
+    const totalItems = trashed.length;
+
+    res.status(200).json({
+      data: trashed.slice(startIndex, endIndex),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems: totalItems,
+        limit: limit,
+        hasNextPage: endIndex < totalItems,
+        hasPreviousPage: startIndex > 0,
+      },
+    });
+  } catch (error) {
+    logger.error("Error listing trashed products", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not list trashed products." });
+  }
+};
+
+// Handler for restoring a trashed product (POST /products/:id/restore)
+export const restoreProductHandler: RequestHandler = async (req, res) => {
+  try {
+    const productId = req.params.id;
+    const product = await productRepository.findById(productId);
+
+    if (!product || !product.deletedAt) {
+      res.status(404).json({
+        message: `Product with id '${productId}' is not in the trash, cannot restore.`,
+      });
+      return; // Exit after sending response
+    }
+
+    // A restored product re-enters the catalog. It gets its own event rather than
+    // product.created: the catalog's stockQuantity is stale by now, and the stock
+    // service brings back the quantity the product had when it was deleted.
+    const { deletedAt, ...restored } = product;
+    const savedProduct = await productRepository.update(
+      restored,
+      productEvents("product.restored", restored)
+    );
+    if (!savedProduct) {
+      res.status(404).json({
+        message: `Product with id '${productId}' is not in the trash, cannot restore.`,
+      });
+      return; // Exit after sending response
+    }
+
+    await recordRevision(req, "restored", product, savedProduct);
+    res.set("ETag", computeProductETag(savedProduct));
+    res.status(200).json(savedProduct);
+  } catch (error) {
+    logger.error("Error restoring product", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not restore product." });
+  }
+};
+
+// Handler for permanently deleting a trashed product (DELETE /products/:id/purge)
+// Only products already in the trash can be purged, so one click can never destroy data.
+export const purgeProductHandler: RequestHandler = async (req, res) => {
+  try {
+    const productId = req.params.id;
+    const product = await productRepository.findById(productId);
+
+    if (!product) {
+      res.status(404).json({
+        message: `Product with id '${productId}' not found, cannot purge.`,
+      });
+      return; // Exit after sending response
+    }
+    if (!product.deletedAt) {
+      res.status(409).json({
+        message: `Product with id '${productId}' must be deleted before it can be purged.`,
+      });
+      return; // Exit after sending response
+    }
+
+    // The history outlives the product, so the purge itself is recorded too.
+    if (await productRepository.delete(productId)) {
+      await recordRevision(req, "purged", product, product);
+    }
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Error purging product", { error: error });
+    res.status(500).json({ message: "Server error: Could not purge product." });
+  }
+};
+
+// Outcome of one row of a bulk import.
+interface ImportRowResult {
+  line: number;
+  status: "created" | "valid" | "invalid";
+  id?: string;
+  errors?: FieldError[];
+}
+
+// Picks the import format from ?format=, falling back to the request's Content-Type.
+const resolveImportFormat = (req: Request): BulkFormat | undefined => {
+  const requested = req.query.format;
+  if (requested === "csv" || requested === "ndjson") {
+    return requested;
+  }
+  const contentType = (req.headers["content-type"] || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  if (contentType === BULK_CONTENT_TYPES.csv) {
+    return "csv";
+  }
+  if (
+    contentType === BULK_CONTENT_TYPES.ndjson ||
+    contentType === "application/ndjson"
+  ) {
+    return "ndjson";
+  }
+  return undefined;
+};
+
+/**
+ * Handles bulk imports (POST /products/import).
+ * Accepts CSV (with a header row) or NDJSON, validates every row against the product
+ * schema and stores all valid rows in a single repository write. Invalid rows are
+ * reported per line and skipped. With ?dryRun=true nothing is stored.
+ */
+export const importProductsHandler: RequestHandler = async (req, res) => {
+  try {
+    const format = resolveImportFormat(req);
+    if (!format) {
+      res.status(415).json({
+        message: `Unsupported import format. Send ${BULK_CONTENT_TYPES.csv} or ${BULK_CONTENT_TYPES.ndjson}.`,
+      });
+      return; // Exit after sending response
+    }
+    if (typeof req.body !== "string" || req.body.trim() === "") {
+      res.status(400).json({ message: "Import body is empty." });
+      return; // Exit after sending response
+    }
+
+    const dryRun = req.query.dryRun === "true";
+    const categories = await categoryRepository.findAll();
+    const now = new Date();
+    const results: ImportRowResult[] = [];
+    const newProducts: Product[] = [];
+
+    for (const row of readImportRows(req.body, format)) {
+      if (!row.data) {
+        results.push({
+          line: row.line,
+          status: "invalid",
+          errors: [
+            {
+              field: "row",
+              code: "invalid_format",
+              message: row.parseError as string,
+            },
+          ],
+        });
+        continue;
+      }
+      const { value: input, errors } = validateProductInput(row.data);
+      if (!input) {
+        results.push({ line: row.line, status: "invalid", errors });
+        continue;
+      }
+      const category = findCategorySlug(categories, input.category);
+      if (!category) {
+        results.push({
+          line: row.line,
+          status: "invalid",
+          errors: [unknownCategoryError(input.category)],
+        });
+        continue;
+      }
+      const product: Product = {
+        id: uuidv4(),
+        ...input,
+        category: category,
+        createdAt: now,
+        updatedAt: now,
+      };
+      newProducts.push(product);
+      results.push({
+        line: row.line,
+        status: dryRun ? "valid" : "created",
+        id: dryRun ? undefined : product.id,
+      });
+    }
+
+    if (!dryRun && newProducts.length > 0) {
+      const created = await productRepository.createMany(
+        newProducts,
+        ([] as OutboxEvent[]).concat(
+          ...newProducts.map((p) => productEvents("product.created", p))
+        )
+      );
+      for (const product of created) {
+        await recordRevision(req, "created", undefined, product);
+      }
+    }
+
+    res.status(200).json({
+      dryRun: dryRun,
+      format: format,
+      totalRows: results.length,
+      validRows: newProducts.length,
+      invalidRows: results.length - newProducts.length,
+      importedRows: dryRun ? 0 : newProducts.length,
+      results: results,
+    });
+  } catch (error) {
+    logger.error("Error importing products", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not import products." });
+  }
+};
+
+// Resolves true once the response can take more data, or false if the client
+// disconnected (or the socket failed) first, in which case "drain" never comes.
+const waitForDrain = (res: Response): Promise<boolean> =>
+  new Promise((resolve) => {
+    const settle = (drained: boolean) => () => {
+      res.removeListener("drain", onDrain);
+      res.removeListener("close", onClose);
+      res.removeListener("error", onClose);
+      resolve(drained);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.once("drain", onDrain);
+    res.once("close", onClose);
+    res.once("error", onClose);
+  });
+
+/**
+ * Handles bulk exports (GET /products/export?format=csv|ndjson).
+ * Serializes the catalog one line at a time as it is written, waiting for the socket
+ * to drain when the client reads slower than we produce, and stops if the client
+ * disconnects mid-export.
+ */
+export const exportProductsHandler: RequestHandler = async (req, res) => {
+  try {
+    const format = req.query.format === undefined ? "csv" : req.query.format;
+    if (format !== "csv" && format !== "ndjson") {
+      res
+        .status(400)
+        .json({ message: "Invalid export format. Use csv or ndjson." });
+      return; // Exit after sending response
+    }
+
+    const products = (await productRepository.findAll()).filter(
+      (p) => !p.deletedAt
+    );
+
+    res.status(200);
+    res.set("Content-Type", `${BULK_CONTENT_TYPES[format]}; charset=utf-8`);
+    res.set("Content-Disposition", `attachment; filename="products.${format}"`);
+
+    for (const line of exportLines(format, products)) {
+      if (!res.write(line) && !(await waitForDrain(res))) {
+        logger.warn("Client disconnected during export", {
+          format: format,
+        });
+        return; // The socket is gone; nothing left to write to.
+      }
+    }
+    res.end();
+  } catch (error) {
+    logger.error("Error exporting products", { error: error });
+    if (res.headersSent) {
+      res.end(); // Headers are gone; all we can do is end the truncated stream.
+      return;
+    }
+    res
+      .status(500)
+      .json({ message: "Server error: Could not export products." });
+  }
+};
+
+// Handler for a product's revision history (GET /products/:id/history)
+// Returns every revision, oldest first. History stays readable for trashed and
+// purged products, so this only 404s when the id was never seen.
+export const listProductHistoryHandler: RequestHandler = async (req, res) => {
+  try {
+    const productId = req.params.id;
+    const revisions = await revisionRepository.findByProductId(productId);
+
+    if (revisions.length === 0) {
+      res.status(404).json({
+        message: `No history found for product with id '${productId}'.`,
+      });
+      return; // Exit after sending response
+    }
+
+    res.status(200).json({
+      productId: productId,
+      totalRevisions: revisions.length,
+      data: revisions.map(({ snapshot, ...revision }) => revision),
+    });
+  } catch (error) {
+    logger.error("Error listing product history", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not load product history." });
+  }
+};
+
+// Handler for a single revision (GET /products/:id/history/:revision)
+// Includes the full product snapshot as it looked right after that revision.
+export const getProductRevisionHandler: RequestHandler = async (req, res) => {
+  try {
+    const productId = req.params.id;
+    const revisionNumber = Number(req.params.revision);
+
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      res.status(400).json({
+        message: "Invalid revision. It must be a positive whole number.",
+      });
+      return; // Exit after sending response
+    }
+
+    const revision = (
+      await revisionRepository.findByProductId(productId)
+    ).filter((r) => r.revision === revisionNumber)[0];
+
+    if (!revision) {
+      res.status(404).json({
+        message: `Revision ${revisionNumber} of product with id '${productId}' not found.`,
+      });
+      return; // Exit after sending response
+    }
+
+    res.status(200).json(revision);
+  } catch (error) {
+    logger.error("Error loading product revision", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not load product revision." });
+  }
+};
+
+// --- Category Handlers ---
+
+// Counts the products in each category, keyed by slug. Trashed products are left out
+// of the counts shown to users but still block deleting their category.
+const countProductsByCategory = (
+  products: Product[],
+  includeDeleted: boolean
+): { [slug: string]: number } => {
+  const counts: { [slug: string]: number } = {};
+  for (const product of products) {
+    if (product.deletedAt && !includeDeleted) {
+      continue;
+    }
+    const slug = slugify(product.category);
+    counts[slug] = (counts[slug] || 0) + 1;
+  }
+  return counts;
+};
+
+// Handler for creating a category (POST /categories)
+export const createCategoryHandler: RequestHandler = async (req, res) => {
+  try {
+    const { value: input, errors } = validateCategoryInput(req.body);
+    if (!input) {
+      res.status(400).json({ message: "Category validation failed.", errors });
+      return; // Exit after sending response
+    }
+
+    const now = new Date();
+    const created = await categoryRepository.create({
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (!created) {
+      res.status(409).json({
+        message: `Category with slug '${input.slug}' already exists.`,
+      });
+      return; // Exit after sending response
+    }
+
+    res.status(201).json({ ...created, productCount: 0 });
+  } catch (error) {
+    logger.error("Error creating category", { error: error });
+    res.status(500).json({ message: "Server error: Could not add category." });
+  }
+};
+
+// Handler for listing categories (GET /categories)
+// Returns every category sorted by name, each with the number of products in it.
+export const listCategoriesHandler: RequestHandler = async (req, res) => {
+  try {
+    const categories = await categoryRepository.findAll();
+    const counts = countProductsByCategory(
+      await productRepository.findAll(),
+      false
+    );
+
+    res.status(200).json({
+      data: categories
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((category) => ({
+          ...category,
+          productCount: counts[category.slug] || 0,
+        })),
+    });
+  } catch (error) {
+    logger.error("Error listing categories", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not list categories." });
+  }
+};
+
+// Handler for retrieving a single category (GET /categories/:slug)
+export const getCategoryHandler: RequestHandler = async (req, res) => {
+  try {
+    const slug = req.params.slug;
+    const category = await categoryRepository.findBySlug(slug);
+
+    if (!category) {
+      res
+        .status(404)
+        .json({ message: `Category with slug '${slug}' not found.` });
+      return; // Exit after sending response
+    }
+
+    const counts = countProductsByCategory(
+      await productRepository.findAll(),
+      false
+    );
+    res.status(200).json({ ...category, productCount: counts[slug] || 0 });
+  } catch (error) {
+    logger.error("Error fetching category", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not retrieve category." });
+  }
+};
+
+// Handler for updating a category (PUT /categories/:slug)
+// Name and description can change; the slug cannot, because products reference it.
+export const updateCategoryHandler: RequestHandler = async (req, res) => {
+  try {
+    const slug = req.params.slug;
+    const { value: input, errors } = validateCategoryInput(req.body, slug);
+    if (!input) {
+      res.status(400).json({ message: "Category validation failed.", errors });
+      return; // Exit after sending response
+    }
+
+    const existing = await categoryRepository.findBySlug(slug);
+    const saved =
+      existing &&
+      (await categoryRepository.update({
+        ...input,
+        createdAt: existing.createdAt,
+        updatedAt: new Date(),
+      }));
+    if (!saved) {
+      res.status(404).json({
+        message: `Category with slug '${slug}' not found, cannot update.`,
+      });
+      return; // Exit after sending response
+    }
+
+    const counts = countProductsByCategory(
+      await productRepository.findAll(),
+      false
+    );
+    res.status(200).json({ ...saved, productCount: counts[slug] || 0 });
+  } catch (error) {
+    logger.error("Error updating category", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not update category." });
+  }
+};
+
+// Handler for deleting a category (DELETE /categories/:slug)
+// Refused with 409 while any product, including trashed ones, still references it.
+export const deleteCategoryHandler: RequestHandler = async (req, res) => {
+  try {
+    const slug = req.params.slug;
+    const inUse =
+      countProductsByCategory(await productRepository.findAll(), true)[slug] ||
+      0;
+
+    if (inUse > 0) {
+      res.status(409).json({
+        message: `Category '${slug}' still has ${inUse} product(s) and cannot be deleted.`,
+      });
+      return; // Exit after sending response
+    }
+
+    if (await categoryRepository.delete(slug)) {
+      res.status(204).send();
+    } else {
+      res.status(404).json({
+        message: `Category with slug '${slug}' not found, cannot delete.`,
+      });
+    }
+  } catch (error) {
+    logger.error("Error deleting category", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not delete category." });
+  }
+};
+
+// --- Reconciliation Handlers ---
+
+/**
+ * Compares the catalog with the stock service. GET only reports the differences;
+ * POST also fixes them (see reconcileInventory) and records a revision for every
+ * product whose catalog quantity was corrected.
+ */
+export const reconcileInventoryHandler: RequestHandler = async (req, res) => {
+  try {
+    if (!stockInventory) {
+      res.status(503).json({
+        message:
+          "Reconciliation needs the stock service. Set STOCK_SERVICE_URL to enable it.",
+      });
+      return; // Exit after sending response
+    }
+
+    const inventory = stockInventory;
+    const report = await getTracer().trace("inventory.reconcile", () =>
+      reconcileInventory(productRepository, inventory, {
+        fix: req.method === "POST",
+        onProductCorrected: (before, after) =>
+          recordRevision(req, "updated", before, after),
+      })
+    );
+    res.status(200).json(report);
+  } catch (error) {
+    if (error instanceof StockServiceUnavailableError) {
+      res.status(502).json({ message: error.message });
+      return; // Exit after sending response
+    }
+    logger.error("Error reconciling inventory", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not reconcile inventory." });
+  }
+};
+
+// --- Health Probes ---
+
+// Readiness needs a working repository. The stock service is optional (product reads
+// degrade without it), so an open circuit is reported as degraded rather than taking
+// every replica out of the Service at once.
+const readinessChecks: { [name: string]: ReadinessCheck } = {
+  repository: async () => {
+    await productRepository.findById("readiness-probe");
+    return "ok";
+  },
+};
+if (httpStockClient) {
+  readinessChecks.stockService = async () =>
+    httpStockClient.getCircuitState() === "open" ? "degraded" : "ok";
+}
+
+export const lifecycle = new Lifecycle(readinessChecks);
+
 // --- Route Definitions ---
 // A simple root endpoint to confirm the service is running.
 app.get("/", (req: Request, res: Response) => {
   res.send("Hello World! Product Service is running.");
 });
+// Liveness and readiness probes for Kubernetes.
+app.get("/healthz", lifecycle.healthHandler);
+app.get("/readyz", lifecycle.readinessHandler);
+
 // A simple health check or debug endpoint.
 app.get("/ping", (req, res) => {
   res.status(200).send("Ping!");
 });
 
 // The endpoint that Prometheus will scrape to collect our custom and default metrics.
-app.get("/metrics", async (req, res) => {
-  try {
-    res.set("Content-Type", client.register.contentType);
-    res.end(await client.register.metrics());
-  } catch (error) {
-    console.error("Error occurred when generating metrics:", error);
-    res.status(500).send("Error generating metrics");
-  }
-});
+app.get("/metrics", metricsHandler(logger));
 
 // Assigning the handler functions to the specific API routes and HTTP methods.
-app.post("/products", createProductHandler);
+app.post("/products", productIdempotency, createProductHandler);
 app.get("/products", listProductsHandler);
+// Fixed paths are registered before /products/:id so "import", "export" and "trash" are not taken as ids.
+app.post(
+  "/products/import",
+  express.text({
+    type: [
+      BULK_CONTENT_TYPES.csv,
+      BULK_CONTENT_TYPES.ndjson,
+      "application/ndjson",
+    ],
+    limit: "10mb",
+  }),
+  importProductsHandler
+);
+app.get("/products/export", exportProductsHandler);
+app.get("/products/trash", listTrashHandler);
 app.get("/products/:id", getProductByIdHandler);
 app.put("/products/:id", updateProductHandler);
+app.patch("/products/:id", patchProductHandler);
 app.delete("/products/:id", deleteProductHandler);
+app.post("/products/:id/restore", restoreProductHandler);
+app.delete("/products/:id/purge", purgeProductHandler);
+app.get("/products/:id/history", listProductHistoryHandler);
+app.get("/products/:id/history/:revision", getProductRevisionHandler);
+
+app.post("/categories", createCategoryHandler);
+app.get("/categories", listCategoriesHandler);
+app.get("/categories/:slug", getCategoryHandler);
+app.put("/categories/:slug", updateCategoryHandler);
+app.delete("/categories/:slug", deleteCategoryHandler);
+
+app.get("/reconciliation", reconcileInventoryHandler);
+app.post("/reconciliation", reconcileInventoryHandler);
 
 // --- Server Initialization ---
 
 // Conditionally start the server. This prevents the server from starting automatically
 // when the file is imported by Jest during testing.
 if (process.env.NODE_ENV !== "test") {
-  app.listen(port, () => {
-    console.log(`Server is running on http://localhost:${port}`);
+  const server = app.listen(port, () => {
+    logger.info("Server is running", { port: port });
   });
+
+  // Drain the outbox in the background. A round never overlaps the previous one, so
+  // events of one product are always delivered in order.
+  let outboxTimer: NodeJS.Timeout | undefined;
+  if (eventPublisher) {
+    let dispatching = false;
+    outboxTimer = setInterval(async () => {
+      if (dispatching) {
+        return;
+      }
+      dispatching = true;
+      try {
+        await dispatchProductEvents();
+      } catch (error) {
+        logger.error("Error dispatching product events", { error: error });
+      } finally {
+        dispatching = false;
+      }
+    }, outboxConfig.pollIntervalMs);
+  }
+
+  // Finish in-flight requests before exiting on scale-down. Undelivered events stay
+  // in the outbox and are sent by the next replica that polls it.
+  installGracefulShutdown(
+    server,
+    lifecycle,
+    readShutdownConfig(),
+    logger,
+    async () => {
+      if (outboxTimer) {
+        clearInterval(outboxTimer);
+      }
+      // Send the spans still buffered by the exporter.
+      const exporter = getTracer().exporter;
+      if (exporter) {
+        await exporter.flush();
+      }
+    }
+  );
 }
 
 export default app; // Export the app for testing purposes
@@ -0,0 +1,293 @@
+// Import Node's file system helpers to create a throwaway directory for the shared outbox.
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  EventPublisher,
+  OutboxEvent,
+  ProductEventType,
+  dispatchOutboxEvents,
+} from "./outbox";
+import {
+  FileProductRepository,
+  InMemoryProductRepository,
+} from "./productRepository";
+import { Product } from "./types";
+
+// Import the uuid library to generate unique IDs for test data.
+import { v4 as uuid } from "uuid";
+
+const product: Product = {
+  id: uuid(),
+  name: "Outbox Product",
+  description: "Desc",
+  price: 10,
+  stockQuantity: 5,
+  category: "electronics",
+  imageUrl: "https://example.com/outbox.jpg",
+  createdAt: new Date("2025-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+};
+
+// Builds an event that is due at the given second of 2025-01-01.
+const buildEvent = (
+  type: ProductEventType,
+  productId: string,
+  second: number
+): OutboxEvent => {
+  const at = new Date(Date.UTC(2025, 0, 1, 0, 0, second));
+  return {
+    id: uuid(),
+    type: type,
+    productId: productId,
+    occurredAt: at,
+    data: { ...product, id: productId },
+    attempts: 0,
+    nextAttemptAt: at,
+  };
+};
+
+const options = {
+  batchSize: 10,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 5000,
+  maxAttempts: 3,
+  leaseMs: 60000,
+  deadLetterRetentionMs: 0,
+  now: () => new Date("2025-01-01T00:01:00.000Z"),
+};
+
+describe("dispatchOutboxEvents", () => {
+  let repository: InMemoryProductRepository;
+  let published: OutboxEvent[];
+  // Product ids whose deliveries currently fail.
+  let failing: string[];
+  const publisher: EventPublisher = {
+    publish: async (event) => {
+      if (failing.indexOf(event.productId) !== -1) {
+        throw new Error("Consumer answered with status 503.");
+      }
+      published.push(event);
+    },
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryProductRepository();
+    published = [];
+    failing = [];
+  });
+
+  // Test case: due events are delivered oldest first and removed from the outbox.
+  it("should deliver events in order and acknowledge them", async () => {
+    // Arrange
+    const created = buildEvent("product.created", product.id, 1);
+    const deleted = buildEvent("product.deleted", product.id, 2);
+    await repository.create(product, [deleted, created]);
+    // Act
+    const delivered = await dispatchOutboxEvents(
+      repository,
+      publisher,
+      options
+    );
+    // Assert
+    expect(delivered).toBe(2);
+    expect(published.map((e) => e.id)).toEqual([created.id, deleted.id]);
+    expect(await repository.findUndeliveredEvents(10)).toEqual([]);
+  });
+
+  // Test case: a failing product holds back its own later events but no one else's.
+  it("should keep a product's later events behind a failed one", async () => {
+    // Arrange
+    const otherId = uuid();
+    const created = buildEvent("product.created", product.id, 1);
+    const deleted = buildEvent("product.deleted", product.id, 2);
+    const other = buildEvent("product.created", otherId, 3);
+    await repository.create(product, [created, deleted, other]);
+    failing = [product.id];
+    // Act
+    await dispatchOutboxEvents(repository, publisher, options);
+    // Assert
+    expect(published.map((e) => e.id)).toEqual([other.id]);
+    const pending = await repository.findUndeliveredEvents(10);
+    expect(pending.map((e) => e.id)).toEqual([created.id, deleted.id]);
+    expect(pending[0]).toMatchObject({
+      attempts: 1,
+      lastError: "Consumer answered with status 503.",
+      nextAttemptAt: new Date("2025-01-01T00:01:01.000Z"),
+    });
+  });
+
+  // Test case: failed events are retried once their backoff has passed (at-least-once).
+  it("should retry a failed event after its backoff", async () => {
+    // Arrange
+    const created = buildEvent("product.created", product.id, 1);
+    await repository.create(product, [created]);
+    failing = [product.id];
+    await dispatchOutboxEvents(repository, publisher, options);
+    failing = [];
+    // Act: too early, then after the backoff.
+    const early = await dispatchOutboxEvents(repository, publisher, options);
+    const later = await dispatchOutboxEvents(repository, publisher, {
+      ...options,
+      now: () => new Date("2025-01-01T00:01:01.000Z"),
+    });
+    // Assert
+    expect(early).toBe(0);
+    expect(later).toBe(1);
+    expect(published.map((e) => e.id)).toEqual([created.id]);
+  });
+
+  // Test case: events backing off do not take the batch away from events that are due.
+  it("should fill the batch with due events only", async () => {
+    // Arrange: the oldest event is backing off; the batch holds a single event.
+    const otherId = uuid();
+    const backingOff = buildEvent("product.created", product.id, 1);
+    backingOff.nextAttemptAt = new Date("2025-01-01T00:05:00.000Z");
+    const waiting = buildEvent("product.updated", product.id, 2);
+    const due = buildEvent("product.created", otherId, 3);
+    await repository.create(product, [backingOff, waiting, due]);
+    // Act
+    const delivered = await dispatchOutboxEvents(repository, publisher, {
+      ...options,
+      batchSize: 1,
+    });
+    // Assert: the product's later event stays behind the one backing off.
+    expect(delivered).toBe(1);
+    expect(published.map((e) => e.id)).toEqual([due.id]);
+  });
+
+  // Test case: an event that keeps failing is parked instead of blocking its product forever.
+  it("should dead-letter an event after maxAttempts and release its product", async () => {
+    // Arrange
+    const poison = buildEvent("product.created", product.id, 1);
+    const next = buildEvent("product.updated", product.id, 2);
+    await repository.create(product, [poison, next]);
+    // The consumer keeps rejecting the first event, e.g. as malformed.
+    const rejecting: EventPublisher = {
+      publish: async (event) => {
+        if (event.id === poison.id) {
+          throw new Error("Consumer answered with status 400.");
+        }
+        published.push(event);
+      },
+    };
+    const at = (second: number) => () =>
+      new Date(Date.UTC(2025, 0, 1, 0, 1, second));
+    // Act: three attempts, each once the previous backoff has passed.
+    await dispatchOutboxEvents(repository, rejecting, options);
+    await dispatchOutboxEvents(repository, rejecting, {
+      ...options,
+      now: at(1),
+    });
+    expect(published).toEqual([]); // Still held back by the failing event.
+    const delivered = await dispatchOutboxEvents(repository, rejecting, {
+      ...options,
+      now: at(3),
+    });
+    // Assert
+    expect(delivered).toBe(1);
+    expect(published.map((e) => e.id)).toEqual([next.id]);
+    expect(await repository.countDeadLetteredEvents()).toBe(1);
+    const [parked] = await repository.findUndeliveredEvents(10);
+    expect(parked).toMatchObject({
+      id: poison.id,
+      attempts: 3,
+      lastError: "Consumer answered with status 400.",
+      deadLetteredAt: new Date("2025-01-01T00:01:03.000Z"),
+    });
+    expect(
+      await repository.claimDueEvents(
+        new Date("2026-01-01T00:00:00.000Z"),
+        10,
+        new Date("2026-01-01T00:01:00.000Z")
+      )
+    ).toEqual([]);
+  });
+
+  // Test case: dead letters are removed once they are older than the retention.
+  it("should prune dead-lettered events after the retention", async () => {
+    // Arrange
+    const poison = buildEvent("product.created", product.id, 1);
+    await repository.create(product, [poison]);
+    failing = [product.id];
+    await dispatchOutboxEvents(repository, publisher, {
+      ...options,
+      maxAttempts: 1,
+    });
+    const retention = { ...options, deadLetterRetentionMs: 60000 };
+    // Act: within the retention, then after it.
+    await dispatchOutboxEvents(repository, publisher, {
+      ...retention,
+      now: () => new Date("2025-01-01T00:02:00.000Z"),
+    });
+    const kept = await repository.countDeadLetteredEvents();
+    await dispatchOutboxEvents(repository, publisher, {
+      ...retention,
+      now: () => new Date("2025-01-01T00:02:01.000Z"),
+    });
+    // Assert
+    expect(kept).toBe(1);
+    expect(await repository.countDeadLetteredEvents()).toBe(0);
+    expect(await repository.findUndeliveredEvents(10)).toEqual([]);
+  });
+
+  // Test case: events claimed by another replica are left alone until its lease runs out.
+  it("should skip events leased by another dispatcher until the lease expires", async () => {
+    // Arrange: another replica claimed the product's events and then died.
+    const created = buildEvent("product.created", product.id, 1);
+    const updated = buildEvent("product.updated", product.id, 2);
+    await repository.create(product, [created, updated]);
+    await repository.claimDueEvents(
+      new Date("2025-01-01T00:00:30.000Z"),
+      1,
+      new Date("2025-01-01T00:01:30.000Z")
+    );
+    // Act
+    const leased = await dispatchOutboxEvents(repository, publisher, options);
+    const expired = await dispatchOutboxEvents(repository, publisher, {
+      ...options,
+      now: () => new Date("2025-01-01T00:01:30.000Z"),
+    });
+    // Assert: the later event waited behind the leased one as well.
+    expect(leased).toBe(0);
+    expect(expired).toBe(2);
+    expect(published.map((e) => e.id)).toEqual([created.id, updated.id]);
+  });
+
+  // Test case: two replicas dispatching the same outbox file never send an event twice.
+  it("should send each event once when replicas share the outbox file", async () => {
+    // Arrange
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "outbox-"));
+    const filePath = path.join(tempDir, "products.json");
+    const replicas = [
+      new FileProductRepository(filePath),
+      new FileProductRepository(filePath),
+    ];
+    const events = [1, 2, 3, 4].map((second) =>
+      buildEvent("product.created", uuid(), second)
+    );
+    await replicas[0].create(product, events);
+    // Slow deliveries keep both rounds in flight at the same time.
+    const slow: EventPublisher = {
+      publish: async (event) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        published.push(event);
+      },
+    };
+    try {
+      // Act
+      const delivered = await Promise.all(
+        replicas.map((replica) => dispatchOutboxEvents(replica, slow, options))
+      );
+      // Assert
+      expect(delivered[0] + delivered[1]).toBe(4);
+      expect(published.map((e) => e.id).sort()).toEqual(
+        events.map((e) => e.id).sort()
+      );
+      expect(await replicas[1].findUndeliveredEvents(10)).toEqual([]);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
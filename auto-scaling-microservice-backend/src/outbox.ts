@@ -0,0 +1,249 @@
+import { readNonNegativeInt, readPositiveInt } from "../shared/env";
+import { getTracer, injectTraceHeaders } from "../shared/tracing";
+import { Product } from "./types";
+
+// --- Transactional Outbox for Product Events ---
+
+// Events the stock service (and any future consumer) reacts to.
+export type ProductEventType =
+  | "product.created"
+  | "product.updated"
+  | "product.deleted"
+  | "product.restored";
+
+// One event waiting in the outbox. It is stored in the same repository write as the
+// product change that caused it, so a change is never saved without its event (or
+// the other way round), and it stays there until a consumer has acknowledged it.
+export interface OutboxEvent {
+  // Unique per event; consumers use it to drop duplicate deliveries.
+  id: string;
+  type: ProductEventType;
+  productId: string;
+  occurredAt: Date;
+  // The product as it looked right after the change.
+  data: Product;
+  // Delivery bookkeeping.
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  // Set once the event ran out of attempts. It stays in the outbox with its last
+  // error for inspection but is never sent again.
+  deadLetteredAt?: Date;
+  // Set while a dispatcher (of any replica) is sending the event. Other dispatchers
+  // leave the event and its product's later events alone until then, and take over
+  // once the lease ran out, e.g. because the replica holding it died.
+  leasedUntil?: Date;
+}
+
+// The outbox half of a repository: reading undelivered events and recording how
+// each delivery attempt went.
+export interface OutboxStore {
+  // Undelivered events, oldest first, including dead-lettered ones.
+  findUndeliveredEvents(limit: number): Promise<OutboxEvent[]>;
+  // Claims up to `limit` events that may be sent at `now`, oldest first, by leasing
+  // them until `leaseUntil`. An event still backing off or leased by another dispatcher
+  // holds back the later events of its product, and dead-lettered events are left
+  // out, so a batch is never filled with events that cannot be sent yet and two
+  // replicas never send the same event at the same time.
+  claimDueEvents(
+    now: Date,
+    limit: number,
+    leaseUntil: Date
+  ): Promise<OutboxEvent[]>;
+  // Ends the lease of claimed events that were not attempted.
+  releaseEvents(ids: string[]): Promise<void>;
+  countDeadLetteredEvents(): Promise<number>;
+  // Removes events dead-lettered before `before`. Resolves to how many were removed.
+  pruneDeadLetteredEvents(before: Date): Promise<number>;
+  // Removes an acknowledged event from the outbox.
+  markEventDelivered(id: string): Promise<void>;
+  markEventFailed(
+    id: string,
+    error: string,
+    nextAttemptAt: Date
+  ): Promise<void>;
+  // Records the final failed attempt; the event is not sent again.
+  markEventDeadLettered(id: string, error: string, at: Date): Promise<void>;
+}
+
+// Sends one event to its consumer. Resolves once the consumer has acknowledged it.
+export interface EventPublisher {
+  publish(event: OutboxEvent): Promise<void>;
+}
+
+export interface OutboxDispatchOptions {
+  // Events read from the outbox per dispatch round.
+  batchSize: number;
+  // Backoff after a failed delivery: retryDelayMs, doubled for every earlier failure of
+  // the same event and capped at maxRetryDelayMs.
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  // Failed attempts after which an event is dead-lettered; 0 retries forever.
+  maxAttempts: number;
+  // How long claimed events are reserved for this dispatcher. Must cover a whole
+  // round, i.e. batchSize deliveries that each may take the full timeout.
+  leaseMs: number;
+  // How long dead-lettered events are kept for inspection; 0 keeps them forever.
+  deadLetterRetentionMs: number;
+  now?: () => Date;
+}
+
+/**
+ * Delivers due events from the outbox, oldest first, at least once. Events of one
+ * product are delivered strictly in order: once an event of a product fails (or is
+ * still backing off), the product's later events wait for the next round, so a
+ * consumer never sees product.deleted before the product.created it follows.
+ * An event that keeps failing is dead-lettered after maxAttempts, which releases
+ * the product's later events. Every replica runs this against the shared outbox;
+ * events are claimed before they are sent, so each is sent by one replica at a time.
+ * Returns how many events were delivered.
+ */
+export const dispatchOutboxEvents = async (
+  store: OutboxStore,
+  publisher: EventPublisher,
+  options: OutboxDispatchOptions
+): Promise<number> => {
+  const now = options.now ? options.now() : new Date();
+  const blockedProducts: { [productId: string]: boolean } = {};
+  const skipped: string[] = [];
+  let delivered = 0;
+
+  if (options.deadLetterRetentionMs > 0) {
+    await store.pruneDeadLetteredEvents(
+      new Date(now.getTime() - options.deadLetterRetentionMs)
+    );
+  }
+
+  const events = await store.claimDueEvents(
+    now,
+    options.batchSize,
+    new Date(now.getTime() + options.leaseMs)
+  );
+  for (const event of events) {
+    if (blockedProducts[event.productId]) {
+      skipped.push(event.id);
+      continue;
+    }
+
+    try {
+      await publisher.publish(event);
+      await store.markEventDelivered(event.id);
+      delivered++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (
+        options.maxAttempts > 0 &&
+        event.attempts + 1 >= options.maxAttempts
+      ) {
+        await store.markEventDeadLettered(event.id, message, now);
+        continue;
+      }
+      blockedProducts[event.productId] = true;
+      const backoff = Math.min(
+        options.retryDelayMs * Math.pow(2, event.attempts),
+        options.maxRetryDelayMs
+      );
+      await store.markEventFailed(
+        event.id,
+        message,
+        new Date(now.getTime() + backoff)
+      );
+    }
+  }
+  if (skipped.length > 0) {
+    await store.releaseEvents(skipped);
+  }
+  return delivered;
+};
+
+export interface OutboxConfig extends OutboxDispatchOptions {
+  // Base URL of the consumer; events are only recorded and delivered when it is set.
+  consumerUrl?: string;
+  pollIntervalMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Reads the outbox configuration from environment variables. Events go to the stock
+ * service, so STOCK_SERVICE_URL doubles as the consumer URL.
+ */
+export const readOutboxConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): OutboxConfig => ({
+  consumerUrl: env.STOCK_SERVICE_URL
+    ? env.STOCK_SERVICE_URL.replace(/\/+$/, "")
+    : undefined,
+  pollIntervalMs: readNonNegativeInt(env, "OUTBOX_POLL_INTERVAL_MS", 1000),
+  batchSize: readNonNegativeInt(env, "OUTBOX_BATCH_SIZE", 100) || 1,
+  timeoutMs: readNonNegativeInt(env, "OUTBOX_TIMEOUT_MS", 2000),
+  retryDelayMs: readNonNegativeInt(env, "OUTBOX_RETRY_DELAY_MS", 1000),
+  maxRetryDelayMs: readNonNegativeInt(env, "OUTBOX_MAX_RETRY_DELAY_MS", 60000),
+  maxAttempts: readNonNegativeInt(env, "OUTBOX_MAX_ATTEMPTS", 20),
+  leaseMs: readPositiveInt(env, "OUTBOX_LEASE_MS", 300000),
+  deadLetterRetentionMs: readNonNegativeInt(
+    env,
+    "OUTBOX_DEAD_LETTER_RETENTION_MS",
+    7 * 24 * 60 * 60 * 1000
+  ),
+});
+
+// The subset of the fetch API the publisher needs, so tests can pass a fake.
+export type PostLike = (
+  url: string,
+  init: {
+    method: "POST";
+    headers: { [name: string]: string };
+    body: string;
+    signal: AbortSignal;
+  }
+) => Promise<{ status: number }>;
+
+/**
+ * Posts events as JSON to the stock service's POST /events endpoint. Any 2xx
+ * response counts as an acknowledgement; everything else is retried later.
+ */
+export class HttpEventPublisher implements EventPublisher {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number,
+    private readonly postImpl: PostLike = fetch
+  ) {}
+
+  // Each delivery is a client span, continued by the consumer through traceparent.
+  publish(event: OutboxEvent): Promise<void> {
+    return getTracer().trace(
+      "stock-service publish_event",
+      async (span) => {
+        span.setAttribute("http.method", "POST");
+        span.setAttribute("http.url", `${this.baseUrl}/events`);
+        span.setAttribute("event.type", event.type);
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+        try {
+          const response = await this.postImpl(`${this.baseUrl}/events`, {
+            method: "POST",
+            headers: injectTraceHeaders({ "Content-Type": "application/json" }),
+            body: JSON.stringify({
+              id: event.id,
+              type: event.type,
+              productId: event.productId,
+              occurredAt: event.occurredAt,
+              data: event.data,
+            }),
+            signal: controller.signal,
+          });
+          span.setAttribute("http.status_code", response.status);
+          if (response.status < 200 || response.status >= 300) {
+            throw new Error(
+              `Consumer answered with status ${response.status}.`
+            );
+          }
+        } finally {
+          clearTimeout(timer);
+        }
+      },
+      "client"
+    );
+  }
+}
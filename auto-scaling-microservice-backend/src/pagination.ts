@@ -0,0 +1,79 @@
+import { Product } from "./types";
+
+// --- Cursor-Based Pagination ---
+
+// Offset pagination (page/limit) skips or repeats items when products are created or
+// deleted between two page requests. Cursor pagination instead remembers the last item
+// a client has seen and continues strictly after it, ordered by createdAt and then id.
+
+// The position a cursor points at: the sort key of the last item on the previous page.
+export interface CursorPosition {
+  createdAt: number;
+  id: string;
+}
+
+// Cursors are opaque to clients: a base64url-encoded JSON tuple they should pass back untouched.
+export const encodeCursor = (product: Product): string =>
+  Buffer.from(
+    JSON.stringify([product.createdAt.getTime(), product.id])
+  ).toString("base64url");
+
+// Returns undefined for anything that is not a cursor we produced.
+export const decodeCursor = (cursor: string): CursorPosition | undefined => {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === "number" &&
+      typeof decoded[1] === "string"
+    ) {
+      return { createdAt: decoded[0], id: decoded[1] };
+    }
+  } catch (error) {
+    // Fall through: malformed base64 or JSON is simply an invalid cursor.
+  }
+  return undefined;
+};
+
+const compareToPosition = (
+  product: Product,
+  position: CursorPosition
+): number =>
+  product.createdAt.getTime() - position.createdAt ||
+  product.id.localeCompare(position.id);
+
+// The products that follow the given cursor position, in cursor order. Passing no
+// position starts from the oldest product.
+export const productsAfter = (
+  products: Product[],
+  position: CursorPosition | undefined
+): Product[] =>
+  products
+    .filter((p) => !position || compareToPosition(p, position) > 0)
+    .sort(
+      (a, b) =>
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        a.id.localeCompare(b.id)
+    );
+
+/**
+ * Returns the page of products that follows the given cursor position.
+ * Passing no position starts from the oldest product.
+ */
+export const paginateByCursor = (
+  products: Product[],
+  position: CursorPosition | undefined,
+  limit: number
+): { data: Product[]; nextCursor: string | null } => {
+  const ordered = productsAfter(products, position);
+
+  const data = ordered.slice(0, limit);
+  const hasMore = ordered.length > limit;
+  return {
+    data,
+    nextCursor: hasMore ? encodeCursor(data[data.length - 1]) : null,
+  };
+};
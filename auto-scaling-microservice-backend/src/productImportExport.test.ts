@@ -0,0 +1,99 @@
+// Import the parsing and serialization helpers under test.
+import {
+  csvHeaderLine,
+  parseCsv,
+  productToCsvLine,
+  readImportRows,
+} from "./productImportExport";
+import { Product } from "./types";
+
+describe("Product Import/Export Formats", () => {
+  // --- Tests for parseCsv ---
+  describe("parseCsv", () => {
+    // Test case: quoted fields may contain separators, doubled quotes and line breaks.
+    it("should handle quoted commas, quotes and newlines", () => {
+      // Arrange
+      const text = 'a,b\r\n"x, y","say ""hi""\nagain"\n\nlast,row';
+      // Act
+      const records = parseCsv(text);
+      // Assert
+      expect(records).toEqual([
+        { line: 1, fields: ["a", "b"] },
+        { line: 2, fields: ["x, y", 'say "hi"\nagain'] },
+        { line: 5, fields: ["last", "row"] }, // Blank line 4 is skipped.
+      ]);
+    });
+  });
+
+  // --- Tests for readImportRows ---
+  describe("readImportRows", () => {
+    // Test case: CSV cells are mapped by header and numeric columns are converted.
+    it("should map CSV rows by header and convert numbers", () => {
+      // Act
+      const rows = readImportRows(
+        "name,price,stockQuantity,detailedDescription\nMouse,19.5,3,\nBroken,1\n",
+        "csv"
+      );
+      // Assert
+      expect(rows[0]).toEqual({
+        line: 2,
+        data: {
+          name: "Mouse",
+          price: 19.5,
+          stockQuantity: 3,
+          detailedDescription: undefined,
+        },
+      });
+      expect(rows[1]).toEqual({
+        line: 3,
+        parseError: "Expected 4 columns but found 2.",
+      });
+    });
+
+    // Test case: each NDJSON line is parsed on its own, so one bad line does not sink the rest.
+    it("should parse NDJSON line by line and flag invalid JSON", () => {
+      // Act
+      const rows = readImportRows(
+        '{"name":"A"}\nnot json\n\n{"name":"B"}',
+        "ndjson"
+      );
+      // Assert
+      expect(rows).toEqual([
+        { line: 1, data: { name: "A" } },
+        { line: 2, parseError: "Line is not valid JSON." },
+        { line: 4, data: { name: "B" } },
+      ]);
+    });
+  });
+
+  // --- Tests for CSV export ---
+  describe("productToCsvLine", () => {
+    // Test case: exported lines can be read back by the importer.
+    it("should escape cells so exports round-trip through the importer", () => {
+      // Arrange
+      const product: Product = {
+        id: "p-1",
+        name: 'Desk, "Standing"',
+        description: "Two\nlines",
+        imageUrl: "https://example.com/desk.jpg",
+        price: 250,
+        stockQuantity: 4,
+        category: "Furniture",
+        createdAt: new Date("2025-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2025-01-02T00:00:00.000Z"),
+      };
+      // Act
+      const rows = readImportRows(
+        csvHeaderLine() + productToCsvLine(product),
+        "csv"
+      );
+      // Assert
+      expect(rows[0].data).toMatchObject({
+        name: product.name,
+        description: product.description,
+        price: 250,
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+    });
+  });
+});
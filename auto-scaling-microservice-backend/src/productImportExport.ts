@@ -0,0 +1,182 @@
+import { Product } from "./types";
+
+// --- Bulk Import and Export Formats (CSV and NDJSON) ---
+
+export type BulkFormat = "csv" | "ndjson";
+
+// Content types accepted by POST /products/import and produced by GET /products/export.
+export const BULK_CONTENT_TYPES: Record<BulkFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+};
+
+// The columns written on export, in order. Import reads any subset of them by header
+// name; id, createdAt and updatedAt are ignored because the server assigns them.
+export const CSV_COLUMNS: (keyof Product)[] = [
+  "id",
+  "name",
+  "description",
+  "detailedDescription",
+  "imageUrl",
+  "price",
+  "stockQuantity",
+  "category",
+  "createdAt",
+  "updatedAt",
+];
+
+// Columns that hold numbers and are converted before validation.
+const NUMERIC_COLUMNS = ["price", "stockQuantity"];
+
+// One record read from an import file, tagged with the 1-based line it started on.
+export interface ImportRow {
+  line: number;
+  data?: Record<string, unknown>;
+  // Set when the row could not even be parsed (e.g. broken JSON).
+  parseError?: string;
+}
+
+/**
+ * Splits CSV text into records of fields (RFC 4180): fields may be quoted, quoted
+ * fields may contain commas, newlines and doubled quotes. Returns each record with
+ * the line it started on so validation errors can point at the right place.
+ */
+export const parseCsv = (
+  text: string
+): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  // Blank lines carry no data.
+  return records.filter((r) => !(r.fields.length === 1 && r.fields[0] === ""));
+};
+
+// Converts a CSV cell to the value the product schema expects.
+const convertCell = (column: string, cell: string): unknown => {
+  if (cell === "") {
+    return undefined;
+  }
+  if (NUMERIC_COLUMNS.indexOf(column) !== -1) {
+    const value = Number(cell);
+    // Leave unparsable numbers as strings so the schema reports invalid_type.
+    return isNaN(value) ? cell : value;
+  }
+  return cell;
+};
+
+/**
+ * Reads an import body into raw rows. CSV needs a header row naming the columns;
+ * NDJSON needs one JSON object per line.
+ */
+export const readImportRows = (
+  text: string,
+  format: BulkFormat
+): ImportRow[] => {
+  if (format === "ndjson") {
+    const rows: ImportRow[] = [];
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      if (rawLine.trim() === "") {
+        return;
+      }
+      try {
+        rows.push({ line: index + 1, data: JSON.parse(rawLine) });
+      } catch (error) {
+        rows.push({ line: index + 1, parseError: "Line is not valid JSON." });
+      }
+    });
+    return rows;
+  }
+
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.fields.map((name) => name.trim());
+  return records.map((record) => {
+    if (record.fields.length !== columns.length) {
+      return {
+        line: record.line,
+        parseError: `Expected ${columns.length} columns but found ${record.fields.length}.`,
+      };
+    }
+    const data: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      data[column] = convertCell(column, record.fields[index]);
+    });
+    return { line: record.line, data };
+  });
+};
+
+// Quotes a CSV cell when it contains a separator, quote or line break.
+const escapeCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvHeaderLine = (): string => `${CSV_COLUMNS.join(",")}\n`;
+
+export const productToCsvLine = (product: Product): string =>
+  `${CSV_COLUMNS.map((column) => escapeCsvCell(product[column])).join(",")}\n`;
+
+export const productToNdjsonLine = (product: Product): string =>
+  `${JSON.stringify(product)}\n`;
+
+// The lines of an export, produced one product at a time as the caller asks for them.
+export function* exportLines(
+  format: BulkFormat,
+  products: Product[]
+): IterableIterator<string> {
+  if (format === "csv") {
+    yield csvHeaderLine();
+  }
+  for (const product of products) {
+    yield format === "csv"
+      ? productToCsvLine(product)
+      : productToNdjsonLine(product);
+  }
+}
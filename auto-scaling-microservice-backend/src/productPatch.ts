@@ -0,0 +1,179 @@
+import { Product } from "./types";
+import {
+  FieldError,
+  ProductInputField,
+  isProductInputField,
+  validateProductField,
+} from "./productSchema";
+
+// --- Partial Updates (PATCH /products/:id) ---
+
+// Content types understood by the PATCH route.
+export const MERGE_PATCH_CONTENT_TYPE = "application/merge-patch+json";
+export const JSON_PATCH_CONTENT_TYPE = "application/json-patch+json";
+
+// A patch reduced to its effect: the new value for each touched field
+// (undefined meaning "remove").
+type FieldChanges = Partial<Record<ProductInputField, unknown>>;
+
+// Either the patched product (and whether anything actually changed) or an error.
+// Field-level problems are listed in `errors`; structural problems only set `error`.
+export type PatchResult =
+  | { product: Product; changed: boolean; error?: undefined }
+  | {
+      product?: undefined;
+      changed?: undefined;
+      error: string;
+      errors?: FieldError[];
+    };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Server-owned fields (id, createdAt, updatedAt) and unknown fields cannot be patched.
+const notPatchable = (field: string): FieldError => ({
+  field,
+  code: "not_allowed",
+  message: `Field '${field}' cannot be patched.`,
+});
+
+// Runs every touched field through the shared product schema.
+const validateChanges = (
+  changes: FieldChanges
+): { normalized: FieldChanges; errors: FieldError[] } => {
+  const normalized: FieldChanges = {};
+  const errors: FieldError[] = [];
+  for (const field of Object.keys(changes) as ProductInputField[]) {
+    const result = validateProductField(field, changes[field]);
+    if (result.error) {
+      errors.push(result.error);
+    } else {
+      normalized[field] = result.value;
+    }
+  }
+  return { normalized, errors };
+};
+
+/**
+ * Reduces a JSON Merge Patch (RFC 7396) document to field changes.
+ * A null value removes the field; every other value replaces it.
+ */
+const readMergePatch = (
+  patch: unknown
+): { changes?: FieldChanges; error?: string; errors?: FieldError[] } => {
+  if (!isPlainObject(patch)) {
+    return { error: "A merge patch must be a JSON object." };
+  }
+  const changes: FieldChanges = {};
+  const errors: FieldError[] = [];
+  for (const field of Object.keys(patch)) {
+    if (!isProductInputField(field)) {
+      errors.push(notPatchable(field));
+      continue;
+    }
+    changes[field] = patch[field] === null ? undefined : patch[field];
+  }
+  return errors.length > 0 ? { errors } : { changes };
+};
+
+/**
+ * Reduces a JSON Patch (RFC 6902) document to field changes.
+ * Products are flat, so only top-level paths and the add, replace, remove and
+ * test operations are supported. A failing test aborts the whole patch.
+ */
+const readJsonPatch = (
+  patch: unknown,
+  product: Product
+): { changes?: FieldChanges; error?: string; errors?: FieldError[] } => {
+  if (!Array.isArray(patch)) {
+    return { error: "A JSON patch must be an array of operations." };
+  }
+  const changes: FieldChanges = {};
+  for (const operation of patch) {
+    if (!isPlainObject(operation) || typeof operation.path !== "string") {
+      return { error: "Every JSON patch operation needs an op and a path." };
+    }
+    const field = operation.path.replace(/^\//, "");
+    if (!isProductInputField(field)) {
+      return { errors: [notPatchable(field)] };
+    }
+    const key = field;
+    const current = key in changes ? changes[key] : product[key];
+
+    switch (operation.op) {
+      case "add":
+      case "replace":
+        if (!("value" in operation)) {
+          return { error: `Operation '${operation.op}' requires a value.` };
+        }
+        if (operation.op === "replace" && current === undefined) {
+          return { error: `Cannot replace missing field '${field}'.` };
+        }
+        changes[key] = operation.value;
+        break;
+      case "remove":
+        if (current === undefined) {
+          return { error: `Cannot remove missing field '${field}'.` };
+        }
+        changes[key] = undefined;
+        break;
+      case "test":
+        if (current !== operation.value) {
+          return { error: `Test failed for field '${field}'.` };
+        }
+        break;
+      default:
+        return {
+          error: `Unsupported JSON patch operation '${String(operation.op)}'.`,
+        };
+    }
+  }
+  return { changes };
+};
+
+/**
+ * Applies a merge patch or JSON patch document to a product.
+ * The returned product only gets a new updatedAt when at least one field changed.
+ */
+export const applyProductPatch = (
+  product: Product,
+  patch: unknown,
+  format: "merge" | "json-patch"
+): PatchResult => {
+  const read =
+    format === "json-patch"
+      ? readJsonPatch(patch, product)
+      : readMergePatch(patch);
+  if (read.errors) {
+    return { error: "Product validation failed.", errors: read.errors };
+  }
+  if (!read.changes) {
+    return { error: read.error as string };
+  }
+
+  const { normalized, errors } = validateChanges(read.changes);
+  if (errors.length > 0) {
+    return { error: "Product validation failed.", errors };
+  }
+
+  const patched: Product = { ...product };
+  let changed = false;
+  for (const field of Object.keys(normalized) as ProductInputField[]) {
+    const value = normalized[field];
+    if (patched[field] === value) {
+      continue;
+    }
+    changed = true;
+    const target = patched as unknown as Record<string, unknown>;
+    if (value === undefined) {
+      delete target[field];
+    } else {
+      target[field] = value;
+    }
+  }
+
+  if (changed) {
+    patched.updatedAt = new Date();
+  }
+  return { product: patched, changed };
+};
@@ -0,0 +1,196 @@
+import { Product } from "./types";
+import { slugify } from "./categorySchema";
+
+// --- Filtering, Sorting and Search for Product Listings ---
+
+// The product fields a listing can be sorted on.
+export const SORTABLE_FIELDS = ["price", "name", "createdAt", "updatedAt"];
+
+export type SortField = "price" | "name" | "createdAt" | "updatedAt";
+export type SortDirection = "asc" | "desc";
+
+// The filters and sort order requested through the GET /products query string.
+export interface ProductListOptions {
+  // A category slug or name, matched by slug so "Accessories" finds "accessories".
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  q?: string;
+  sort?: { field: SortField; direction: SortDirection };
+  // Trashed (soft-deleted) products are left out unless this is true.
+  includeDeleted?: boolean;
+}
+
+// The result of parsing a query string: either usable options or a list of problems.
+export type ParsedProductListOptions =
+  | { options: ProductListOptions; errors?: undefined }
+  | { options?: undefined; errors: string[] };
+
+// Express can hand us strings, arrays or nested objects for a query parameter.
+// Only plain strings are meaningful for our filters.
+const readString = (
+  query: Record<string, unknown>,
+  key: string,
+  errors: string[]
+): string | undefined => {
+  const value = query[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    errors.push(`${key} must be provided at most once.`);
+    return undefined;
+  }
+  return value.trim();
+};
+
+const readPrice = (
+  query: Record<string, unknown>,
+  key: string,
+  errors: string[]
+): number | undefined => {
+  const raw = readString(query, key, errors);
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (isNaN(value) || value < 0) {
+    errors.push(`${key} must be a non-negative number.`);
+    return undefined;
+  }
+  return value;
+};
+
+/**
+ * Parses the filter and sort parameters of GET /products.
+ * Supported parameters: category, minPrice, maxPrice, inStock (true/false),
+ * includeDeleted (true/false), q (free text) and sort in the form `field` or
+ * `field:asc|desc`.
+ */
+export const parseProductListOptions = (
+  query: Record<string, unknown>
+): ParsedProductListOptions => {
+  const errors: string[] = [];
+  const options: ProductListOptions = {};
+
+  const category = readString(query, "category", errors);
+  if (category) {
+    options.category = category;
+  }
+
+  options.minPrice = readPrice(query, "minPrice", errors);
+  options.maxPrice = readPrice(query, "maxPrice", errors);
+  if (
+    options.minPrice !== undefined &&
+    options.maxPrice !== undefined &&
+    options.minPrice > options.maxPrice
+  ) {
+    errors.push("minPrice cannot be greater than maxPrice.");
+  }
+
+  const inStock = readString(query, "inStock", errors);
+  if (inStock !== undefined && inStock !== "") {
+    if (inStock !== "true" && inStock !== "false") {
+      errors.push("inStock must be either true or false.");
+    } else {
+      options.inStock = inStock === "true";
+    }
+  }
+
+  const includeDeleted = readString(query, "includeDeleted", errors);
+  if (includeDeleted !== undefined && includeDeleted !== "") {
+    if (includeDeleted !== "true" && includeDeleted !== "false") {
+      errors.push("includeDeleted must be either true or false.");
+    } else {
+      options.includeDeleted = includeDeleted === "true";
+    }
+  }
+
+  const q = readString(query, "q", errors);
+  if (q) {
+    options.q = q;
+  }
+
+  const sort = readString(query, "sort", errors);
+  if (sort) {
+    const [field, direction = "asc"] = sort.split(":");
+    if (SORTABLE_FIELDS.indexOf(field) === -1) {
+      errors.push(`sort field must be one of: ${SORTABLE_FIELDS.join(", ")}.`);
+    } else if (direction !== "asc" && direction !== "desc") {
+      errors.push("sort direction must be either asc or desc.");
+    } else {
+      options.sort = { field: field as SortField, direction };
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { options };
+};
+
+// Compares two products on a single field, ascending.
+const compareBy = (field: SortField, a: Product, b: Product): number => {
+  switch (field) {
+    case "price":
+      return a.price - b.price;
+    case "name":
+      return a.name.localeCompare(b.name);
+    case "createdAt":
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case "updatedAt":
+      return a.updatedAt.getTime() - b.updatedAt.getTime();
+  }
+};
+
+// Case-insensitive substring search across the descriptive text fields.
+const matchesText = (product: Product, needle: string): boolean =>
+  [product.name, product.description, product.detailedDescription || ""].some(
+    (text) => text.toLowerCase().indexOf(needle) !== -1
+  );
+
+/**
+ * Applies the parsed filters and sort order to a list of products.
+ * Without a sort option the repository order (insertion order) is kept.
+ */
+export const applyProductListOptions = (
+  products: Product[],
+  options: ProductListOptions
+): Product[] => {
+  const category = options.category && slugify(options.category);
+  const needle = options.q && options.q.toLowerCase();
+
+  const filtered = products.filter((product) => {
+    if (product.deletedAt && !options.includeDeleted) {
+      return false;
+    }
+    if (category && slugify(product.category) !== category) {
+      return false;
+    }
+    if (options.minPrice !== undefined && product.price < options.minPrice) {
+      return false;
+    }
+    if (options.maxPrice !== undefined && product.price > options.maxPrice) {
+      return false;
+    }
+    if (
+      options.inStock !== undefined &&
+      product.stockQuantity > 0 !== options.inStock
+    ) {
+      return false;
+    }
+    if (needle && !matchesText(product, needle)) {
+      return false;
+    }
+    return true;
+  });
+
+  const sort = options.sort;
+  if (sort) {
+    const sign = sort.direction === "desc" ? -1 : 1;
+    // Fall back to the id so products with equal values keep a deterministic order.
+    filtered.sort(
+      (a, b) => sign * compareBy(sort.field, a, b) || a.id.localeCompare(b.id)
+    );
+  }
+
+  return filtered;
+};
@@ -0,0 +1,235 @@
+// Import Node's file system helpers to create a throwaway directory for each test.
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Import the repository implementations and the factory under test.
+import {
+  FileProductRepository,
+  InMemoryProductRepository,
+  createProductRepository,
+  readProductRepositoryConfig,
+} from "./productRepository";
+import { computeProductETag } from "./etag";
+import { OutboxEvent } from "./outbox";
+import { Product } from "./types";
+
+// Import the uuid library to generate unique IDs for test data.
+import { v4 as uuid } from "uuid";
+
+// Builds a valid product, letting each test override only the fields it cares about.
+const buildProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: uuid(),
+  name: "Repository Product",
+  description: "Desc",
+  price: 10,
+  stockQuantity: 5,
+  category: "RepoCat",
+  imageUrl: "https://example.com/repo.jpg",
+  createdAt: new Date("2025-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-01-02T00:00:00.000Z"),
+  ...overrides,
+});
+
+describe("Product Repositories", () => {
+  // --- Tests for InMemoryProductRepository ---
+  describe("InMemoryProductRepository", () => {
+    // Test case: stored records cannot be changed through the objects handed back to callers.
+    it("should return copies so callers cannot mutate stored products", async () => {
+      // Arrange
+      const product = buildProduct();
+      const repository = new InMemoryProductRepository([product]);
+      // Act
+      const fetched = await repository.findById(product.id);
+      fetched!.name = "Mutated";
+      // Assert
+      expect((await repository.findById(product.id))?.name).toBe(product.name);
+    });
+  });
+
+  // --- Tests for FileProductRepository ---
+  describe("FileProductRepository", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "product-repo-"));
+      filePath = path.join(tempDir, "nested", "products.json");
+    });
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    // Test case: the seed catalog is written to disk the first time the file is missing.
+    it("should seed a missing file with the given products", async () => {
+      // Arrange
+      const seed = buildProduct();
+      const repository = new FileProductRepository(filePath, [seed]);
+      // Act
+      const all = await repository.findAll();
+      // Assert
+      expect(all).toEqual([seed]);
+      const onDisk = JSON.parse(await fs.readFile(filePath, "utf8"));
+      expect(onDisk.products[0].id).toBe(seed.id);
+    });
+
+    // Test case: data written by one instance is visible to a new instance (i.e. survives a restart).
+    it("should persist creates, updates and deletes across instances", async () => {
+      // Arrange
+      const first = buildProduct({ name: "First" });
+      const second = buildProduct({ name: "Second" });
+      const writer = new FileProductRepository(filePath);
+      // Act
+      await writer.create(first);
+      await writer.create(second);
+      await writer.update({
+        ...first,
+        price: 99,
+        deletedAt: new Date("2025-01-03T00:00:00.000Z"),
+      });
+      const deleted = await writer.delete(second.id);
+      // Assert
+      expect(deleted).toBe(true);
+      const reader = new FileProductRepository(filePath);
+      const all = await reader.findAll();
+      expect(all.length).toBe(1);
+      expect(all[0].price).toBe(99);
+      expect(all[0].createdAt).toBeInstanceOf(Date); // Dates are revived from JSON.
+      expect(all[0].createdAt.getTime()).toBe(first.createdAt.getTime());
+      expect(all[0].deletedAt).toEqual(new Date("2025-01-03T00:00:00.000Z"));
+    });
+
+    // Test case: concurrent writes are queued so none of them is lost.
+    it("should not lose concurrent creates", async () => {
+      // Arrange
+      const repository = new FileProductRepository(filePath);
+      const batch = [buildProduct(), buildProduct(), buildProduct()];
+      // Act
+      await Promise.all(batch.map((p) => repository.create(p)));
+      // Assert
+      expect((await new FileProductRepository(filePath).findAll()).length).toBe(
+        3
+      );
+    });
+
+    // Test case: two instances stand in for replicas sharing a volume; the lock file
+    // keeps one from overwriting the other's changes.
+    it("should not lose concurrent writes from separate instances", async () => {
+      // Arrange
+      const replicas = [
+        new FileProductRepository(filePath),
+        new FileProductRepository(filePath),
+      ];
+      const batch = [
+        buildProduct(),
+        buildProduct(),
+        buildProduct(),
+        buildProduct(),
+      ];
+      // Act
+      await Promise.all(batch.map((p, index) => replicas[index % 2].create(p)));
+      // Assert
+      const ids = (await replicas[0].findAll()).map((p) => p.id).sort();
+      expect(ids).toEqual(batch.map((p) => p.id).sort());
+      await expect(fs.stat(`${filePath}.lock`)).rejects.toThrow("ENOENT");
+    });
+
+    // Test case: updating or deleting an unknown id reports that nothing happened.
+    it("should report unknown ids on update and delete", async () => {
+      // Arrange
+      const repository = new FileProductRepository(filePath);
+      // Act & Assert
+      expect(await repository.update(buildProduct())).toBeUndefined();
+      expect(await repository.delete(uuid())).toBe(false);
+    });
+
+    // Test case: compare-and-set only writes while the product is as the caller read it.
+    it("should update only while the ETag still matches", async () => {
+      // Arrange: a second replica changes the product after the first one read it.
+      const product = buildProduct({ price: 10 });
+      const first = new FileProductRepository(filePath);
+      await first.create(product);
+      const read = (await first.findById(product.id))!;
+      await new FileProductRepository(filePath).update({ ...read, price: 20 });
+      // Act
+      const stale = await first.updateIfMatch(
+        { ...read, price: 30 },
+        computeProductETag(read)
+      );
+      const current = (await first.findById(product.id))!;
+      const fresh = await first.updateIfMatch(
+        { ...current, price: 40 },
+        computeProductETag(current)
+      );
+      // Assert
+      expect(stale).toBeUndefined();
+      expect(fresh?.price).toBe(40);
+      expect((await first.findById(product.id))!.price).toBe(40);
+    });
+
+    // Test case: outbox events are written with the product and survive a restart.
+    it("should store outbox events in the same write as the product", async () => {
+      // Arrange
+      const product = buildProduct();
+      const event: OutboxEvent = {
+        id: uuid(),
+        type: "product.created",
+        productId: product.id,
+        occurredAt: new Date("2025-01-01T00:00:00.000Z"),
+        data: product,
+        attempts: 0,
+        nextAttemptAt: new Date("2025-01-01T00:00:00.000Z"),
+      };
+      const writer = new FileProductRepository(filePath);
+      // Act
+      await writer.create(product, [event]);
+      await writer.update(buildProduct(), [{ ...event, id: uuid() }]); // Unknown id: no event.
+      const pending = await new FileProductRepository(
+        filePath
+      ).findUndeliveredEvents(10);
+      await writer.markEventDelivered(event.id);
+      // Assert
+      expect(pending).toEqual([event]);
+      expect(await writer.findUndeliveredEvents(10)).toEqual([]);
+    });
+
+    // Test case: catalogs written before the outbox existed are plain arrays.
+    it("should read a legacy catalog stored as a bare array", async () => {
+      // Arrange
+      const product = buildProduct();
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify([product]), "utf8");
+      // Act
+      const all = await new FileProductRepository(filePath).findAll();
+      // Assert
+      expect(all).toEqual([product]);
+    });
+  });
+
+  // --- Tests for configuration ---
+  describe("createProductRepository", () => {
+    // Test case: the driver is chosen from the environment, defaulting to memory.
+    it("should pick the implementation from PRODUCT_REPOSITORY", () => {
+      // Act
+      const memory = createProductRepository(readProductRepositoryConfig({}));
+      const file = createProductRepository(
+        readProductRepositoryConfig({
+          PRODUCT_REPOSITORY: "file",
+          PRODUCT_DATA_FILE: "/tmp/products.json",
+        })
+      );
+      // Assert
+      expect(memory).toBeInstanceOf(InMemoryProductRepository);
+      expect(file).toBeInstanceOf(FileProductRepository);
+    });
+
+    // Test case: typos in the configuration fail fast instead of silently using memory.
+    it("should throw for an unknown driver", () => {
+      expect(() =>
+        readProductRepositoryConfig({ PRODUCT_REPOSITORY: "mongo" })
+      ).toThrow(
+        "Unsupported PRODUCT_REPOSITORY 'mongo'. Use 'memory' or 'file'."
+      );
+    });
+  });
+});
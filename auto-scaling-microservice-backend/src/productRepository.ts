@@ -0,0 +1,635 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  DEFAULT_FILE_LOCK_OPTIONS,
+  FileLockOptions,
+  withFileLock,
+} from "../shared/fileLock";
+import { computeProductETag } from "./etag";
+import { OutboxEvent, OutboxStore } from "./outbox";
+import { Product } from "./types";
+
+// --- Product Repository Abstraction ---
+
+// The storage contract every product store must fulfil. Handlers only talk to this
+// interface, so the same service can run against memory in tests, a local file on a
+// developer machine, or a shared volume in the cluster without any code changes.
+// Every write also accepts outbox events, which are stored in the same write (and
+// only if the write takes effect) so product changes and their events never diverge.
+export interface ProductRepository extends OutboxStore {
+  findAll(): Promise<Product[]>;
+  findById(id: string): Promise<Product | undefined>;
+  create(product: Product, events?: OutboxEvent[]): Promise<Product>;
+  // Stores many products in one write, used by bulk imports.
+  createMany(products: Product[], events?: OutboxEvent[]): Promise<Product[]>;
+  // Replaces the stored product with the same id. Resolves to undefined if it does not exist.
+  update(
+    product: Product,
+    events?: OutboxEvent[]
+  ): Promise<Product | undefined>;
+  // Compare-and-set: like update, but only while the stored product still has the
+  // ETag `expectedETag`, so a change made since the caller read it is not
+  // overwritten. Resolves to undefined if it does not exist or has changed.
+  updateIfMatch(
+    product: Product,
+    expectedETag: string,
+    events?: OutboxEvent[]
+  ): Promise<Product | undefined>;
+  // Permanently removes a product. Resolves to true if a product was removed,
+  // false if the id was unknown. Soft deletes are plain updates of deletedAt.
+  delete(id: string, events?: OutboxEvent[]): Promise<boolean>;
+}
+
+// Returns a shallow copy so callers can never mutate the stored record by accident.
+const cloneProduct = (product: Product): Product => ({ ...product });
+
+const cloneEvent = (event: OutboxEvent): OutboxEvent => ({
+  ...event,
+  data: cloneProduct(event.data),
+});
+
+// The outbox operations shared by both implementations, applied to a plain array.
+const oldestFirst = (outbox: OutboxEvent[]): OutboxEvent[] =>
+  outbox
+    .slice()
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+const findUndelivered = (outbox: OutboxEvent[], limit: number): OutboxEvent[] =>
+  oldestFirst(outbox).slice(0, limit).map(cloneEvent);
+
+// The stored events (not copies) that OutboxStore.claimDueEvents may claim.
+const findDue = (
+  outbox: OutboxEvent[],
+  now: Date,
+  limit: number
+): OutboxEvent[] => {
+  const blockedProducts: { [productId: string]: boolean } = {};
+  const due: OutboxEvent[] = [];
+  for (const event of oldestFirst(outbox)) {
+    if (due.length >= limit) {
+      break;
+    }
+    if (event.deadLetteredAt || blockedProducts[event.productId]) {
+      continue;
+    }
+    if (
+      event.nextAttemptAt.getTime() > now.getTime() ||
+      (event.leasedUntil && event.leasedUntil.getTime() > now.getTime())
+    ) {
+      blockedProducts[event.productId] = true;
+      continue;
+    }
+    due.push(event);
+  }
+  return due;
+};
+
+const claimDue = (
+  outbox: OutboxEvent[],
+  now: Date,
+  limit: number,
+  leaseUntil: Date
+): OutboxEvent[] =>
+  findDue(outbox, now, limit).map((event) => {
+    event.leasedUntil = leaseUntil;
+    return cloneEvent(event);
+  });
+
+const release = (outbox: OutboxEvent[], ids: string[]): void => {
+  outbox.forEach((event) => {
+    if (ids.indexOf(event.id) !== -1) {
+      delete event.leasedUntil;
+    }
+  });
+};
+
+const countDeadLettered = (outbox: OutboxEvent[]): number =>
+  outbox.filter((e) => e.deadLetteredAt).length;
+
+const isDeadLetteredBefore = (event: OutboxEvent, before: Date): boolean =>
+  event.deadLetteredAt !== undefined &&
+  event.deadLetteredAt.getTime() < before.getTime();
+
+const recordFailure = (
+  outbox: OutboxEvent[],
+  id: string,
+  error: string,
+  nextAttemptAt: Date
+): void => {
+  const event = outbox.find((e) => e.id === id);
+  if (event) {
+    event.attempts++;
+    event.lastError = error;
+    event.nextAttemptAt = nextAttemptAt;
+    delete event.leasedUntil;
+  }
+};
+
+const recordDeadLetter = (
+  outbox: OutboxEvent[],
+  id: string,
+  error: string,
+  at: Date
+): void => {
+  const event = outbox.find((e) => e.id === id);
+  if (event) {
+    event.attempts++;
+    event.lastError = error;
+    event.deadLetteredAt = at;
+    delete event.leasedUntil;
+  }
+};
+
+/**
+ * Keeps products in a plain array inside the process.
+ * Data is lost on restart and is not shared between replicas, which makes it
+ * ideal for unit tests and quick local experiments.
+ */
+export class InMemoryProductRepository implements ProductRepository {
+  private products: Product[];
+  private outbox: OutboxEvent[] = [];
+
+  constructor(initialProducts: Product[] = []) {
+    this.products = initialProducts.map(cloneProduct);
+  }
+
+  async findAll(): Promise<Product[]> {
+    return this.products.map(cloneProduct);
+  }
+
+  async findById(id: string): Promise<Product | undefined> {
+    const product = this.products.find((p) => p.id === id);
+    return product ? cloneProduct(product) : undefined;
+  }
+
+  async create(product: Product, events: OutboxEvent[] = []): Promise<Product> {
+    this.products.push(cloneProduct(product));
+    this.outbox.push(...events.map(cloneEvent));
+    return cloneProduct(product);
+  }
+
+  async createMany(
+    products: Product[],
+    events: OutboxEvent[] = []
+  ): Promise<Product[]> {
+    this.products.push(...products.map(cloneProduct));
+    this.outbox.push(...events.map(cloneEvent));
+    return products.map(cloneProduct);
+  }
+
+  async update(
+    product: Product,
+    events: OutboxEvent[] = []
+  ): Promise<Product | undefined> {
+    const productIndex = this.products.findIndex((p) => p.id === product.id);
+    if (productIndex === -1) {
+      return undefined;
+    }
+    this.products[productIndex] = cloneProduct(product);
+    this.outbox.push(...events.map(cloneEvent));
+    return cloneProduct(product);
+  }
+
+  async updateIfMatch(
+    product: Product,
+    expectedETag: string,
+    events: OutboxEvent[] = []
+  ): Promise<Product | undefined> {
+    const stored = this.products.find((p) => p.id === product.id);
+    if (!stored || computeProductETag(stored) !== expectedETag) {
+      return undefined;
+    }
+    return this.update(product, events);
+  }
+
+  async delete(id: string, events: OutboxEvent[] = []): Promise<boolean> {
+    const productIndex = this.products.findIndex((p) => p.id === id);
+    if (productIndex === -1) {
+      return false;
+    }
+    this.products.splice(productIndex, 1);
+    this.outbox.push(...events.map(cloneEvent));
+    return true;
+  }
+
+  async findUndeliveredEvents(limit: number): Promise<OutboxEvent[]> {
+    return findUndelivered(this.outbox, limit);
+  }
+
+  async claimDueEvents(
+    now: Date,
+    limit: number,
+    leaseUntil: Date
+  ): Promise<OutboxEvent[]> {
+    return claimDue(this.outbox, now, limit, leaseUntil);
+  }
+
+  async releaseEvents(ids: string[]): Promise<void> {
+    release(this.outbox, ids);
+  }
+
+  async countDeadLetteredEvents(): Promise<number> {
+    return countDeadLettered(this.outbox);
+  }
+
+  async pruneDeadLetteredEvents(before: Date): Promise<number> {
+    const count = this.outbox.length;
+    this.outbox = this.outbox.filter((e) => !isDeadLetteredBefore(e, before));
+    return count - this.outbox.length;
+  }
+
+  async markEventDelivered(id: string): Promise<void> {
+    this.outbox = this.outbox.filter((e) => e.id !== id);
+  }
+
+  async markEventFailed(
+    id: string,
+    error: string,
+    nextAttemptAt: Date
+  ): Promise<void> {
+    recordFailure(this.outbox, id, error, nextAttemptAt);
+  }
+
+  async markEventDeadLettered(
+    id: string,
+    error: string,
+    at: Date
+  ): Promise<void> {
+    recordDeadLetter(this.outbox, id, error, at);
+  }
+}
+
+// The shape a product takes once it has been through JSON.stringify (dates become strings).
+type StoredProduct = Omit<Product, "createdAt" | "updatedAt" | "deletedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+};
+
+type StoredEvent = Omit<
+  OutboxEvent,
+  "occurredAt" | "nextAttemptAt" | "deadLetteredAt" | "leasedUntil" | "data"
+> & {
+  occurredAt: string;
+  nextAttemptAt: string;
+  deadLetteredAt?: string;
+  leasedUntil?: string;
+  data: StoredProduct;
+};
+
+// The catalog file: products plus the outbox events not yet delivered. Older files
+// hold a bare array of products, which is still accepted.
+type StoredCatalog =
+  | StoredProduct[]
+  | {
+      products: StoredProduct[];
+      outbox?: StoredEvent[];
+    };
+
+interface Catalog {
+  products: Product[];
+  outbox: OutboxEvent[];
+}
+
+const reviveProduct = (stored: StoredProduct): Product => {
+  const { deletedAt, ...rest } = stored;
+  const product: Product = {
+    ...rest,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+  if (deletedAt) {
+    product.deletedAt = new Date(deletedAt);
+  }
+  return product;
+};
+
+const reviveEvent = (stored: StoredEvent): OutboxEvent => {
+  const { deadLetteredAt, leasedUntil, ...rest } = stored;
+  const event: OutboxEvent = {
+    ...rest,
+    occurredAt: new Date(stored.occurredAt),
+    nextAttemptAt: new Date(stored.nextAttemptAt),
+    data: reviveProduct(stored.data),
+  };
+  if (deadLetteredAt) {
+    event.deadLetteredAt = new Date(deadLetteredAt);
+  }
+  if (leasedUntil) {
+    event.leasedUntil = new Date(leasedUntil);
+  }
+  return event;
+};
+
+/**
+ * Persists the whole catalog as a JSON document on disk.
+ * Writes go to a temporary file which is then renamed over the original, so a crash
+ * mid-write never leaves a half-written catalog behind. Outbox events live in the same
+ * document, so the rename commits a product change and its events together.
+ *
+ * Several replicas may mount the same volume: every read-modify-write cycle holds a
+ * lock file next to the catalog (`<file>.lock`), so replicas take turns instead of
+ * overwriting each other's changes. The parsed catalog is cached until the file is
+ * replaced; each rename creates a new file, so its inode and nanosecond mtime tell
+ * writes apart even when they land within the same millisecond.
+ */
+export class FileProductRepository implements ProductRepository {
+  private cache: Catalog | null = null;
+  // Identifies the file the cache was read from (inode, mtime and size).
+  private cachedVersion = "";
+  private tempFileCounter = 0;
+  // Mutations are chained on this promise so requests of one process queue up here
+  // rather than all competing for the lock file.
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seedProducts: Product[] = [],
+    private readonly lockOptions: FileLockOptions = DEFAULT_FILE_LOCK_OPTIONS
+  ) {}
+
+  async findAll(): Promise<Product[]> {
+    const { products } = await this.load();
+    return products.map(cloneProduct);
+  }
+
+  async findById(id: string): Promise<Product | undefined> {
+    const { products } = await this.load();
+    const product = products.find((p) => p.id === id);
+    return product ? cloneProduct(product) : undefined;
+  }
+
+  async create(product: Product, events: OutboxEvent[] = []): Promise<Product> {
+    return this.mutate(({ products, outbox }) => {
+      products.push(cloneProduct(product));
+      outbox.push(...events.map(cloneEvent));
+      return cloneProduct(product);
+    });
+  }
+
+  async createMany(
+    newProducts: Product[],
+    events: OutboxEvent[] = []
+  ): Promise<Product[]> {
+    return this.mutate(({ products, outbox }) => {
+      products.push(...newProducts.map(cloneProduct));
+      outbox.push(...events.map(cloneEvent));
+      return newProducts.map(cloneProduct);
+    });
+  }
+
+  async update(
+    product: Product,
+    events: OutboxEvent[] = []
+  ): Promise<Product | undefined> {
+    return this.mutate(({ products, outbox }) => {
+      const productIndex = products.findIndex((p) => p.id === product.id);
+      if (productIndex === -1) {
+        return undefined;
+      }
+      products[productIndex] = cloneProduct(product);
+      outbox.push(...events.map(cloneEvent));
+      return cloneProduct(product);
+    });
+  }
+
+  async updateIfMatch(
+    product: Product,
+    expectedETag: string,
+    events: OutboxEvent[] = []
+  ): Promise<Product | undefined> {
+    return this.mutate(({ products, outbox }) => {
+      const productIndex = products.findIndex((p) => p.id === product.id);
+      if (
+        productIndex === -1 ||
+        computeProductETag(products[productIndex]) !== expectedETag
+      ) {
+        return undefined;
+      }
+      products[productIndex] = cloneProduct(product);
+      outbox.push(...events.map(cloneEvent));
+      return cloneProduct(product);
+    });
+  }
+
+  async delete(id: string, events: OutboxEvent[] = []): Promise<boolean> {
+    return this.mutate(({ products, outbox }) => {
+      const productIndex = products.findIndex((p) => p.id === id);
+      if (productIndex === -1) {
+        return false;
+      }
+      products.splice(productIndex, 1);
+      outbox.push(...events.map(cloneEvent));
+      return true;
+    });
+  }
+
+  async findUndeliveredEvents(limit: number): Promise<OutboxEvent[]> {
+    return findUndelivered((await this.load()).outbox, limit);
+  }
+
+  // Most rounds find nothing to send, so the lock is only taken when there is.
+  async claimDueEvents(
+    now: Date,
+    limit: number,
+    leaseUntil: Date
+  ): Promise<OutboxEvent[]> {
+    if (findDue((await this.load()).outbox, now, limit).length === 0) {
+      return [];
+    }
+    return this.mutate(({ outbox }) =>
+      claimDue(outbox, now, limit, leaseUntil)
+    );
+  }
+
+  async releaseEvents(ids: string[]): Promise<void> {
+    return this.mutate(({ outbox }) => {
+      release(outbox, ids);
+    });
+  }
+
+  async countDeadLetteredEvents(): Promise<number> {
+    return countDeadLettered((await this.load()).outbox);
+  }
+
+  async pruneDeadLetteredEvents(before: Date): Promise<number> {
+    const { outbox } = await this.load();
+    if (!outbox.some((e) => isDeadLetteredBefore(e, before))) {
+      return 0;
+    }
+    return this.mutate((catalog) => {
+      const count = catalog.outbox.length;
+      catalog.outbox = catalog.outbox.filter(
+        (e) => !isDeadLetteredBefore(e, before)
+      );
+      return count - catalog.outbox.length;
+    });
+  }
+
+  async markEventDelivered(id: string): Promise<void> {
+    return this.mutate((catalog) => {
+      catalog.outbox = catalog.outbox.filter((e) => e.id !== id);
+    });
+  }
+
+  async markEventFailed(
+    id: string,
+    error: string,
+    nextAttemptAt: Date
+  ): Promise<void> {
+    return this.mutate(({ outbox }) => {
+      recordFailure(outbox, id, error, nextAttemptAt);
+    });
+  }
+
+  async markEventDeadLettered(
+    id: string,
+    error: string,
+    at: Date
+  ): Promise<void> {
+    return this.mutate(({ outbox }) => {
+      recordDeadLetter(outbox, id, error, at);
+    });
+  }
+
+  private mutate<T>(change: (catalog: Catalog) => T): Promise<T> {
+    const run = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      return withFileLock(
+        `${this.filePath}.lock`,
+        async () => {
+          const current = await this.load();
+          const catalog: Catalog = {
+            products: current.products.slice(),
+            outbox: current.outbox.map(cloneEvent),
+          };
+          const result = change(catalog);
+          await this.persist(catalog);
+          return result;
+        },
+        this.lockOptions
+      );
+    };
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next;
+    return next;
+  }
+
+  private async load(): Promise<Catalog> {
+    let version: string;
+    try {
+      version = await this.readVersion();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      await this.seed();
+      return this.load();
+    }
+
+    if (this.cache && version === this.cachedVersion) {
+      return this.cache;
+    }
+
+    const raw = await fs.readFile(this.filePath, "utf8");
+    const stored: StoredCatalog = raw.trim() ? JSON.parse(raw) : [];
+    this.cache = Array.isArray(stored)
+      ? { products: stored.map(reviveProduct), outbox: [] }
+      : {
+          products: stored.products.map(reviveProduct),
+          outbox: (stored.outbox || []).map(reviveEvent),
+        };
+    this.cachedVersion = version;
+    return this.cache;
+  }
+
+  private async readVersion(): Promise<string> {
+    const stats = await fs.stat(this.filePath, { bigint: true });
+    return `${stats.ino}:${stats.mtimeNs}:${stats.size}`;
+  }
+
+  // First start against an empty volume: write the seed catalog so it survives
+  // restarts. link() only creates the file if no other replica got there first.
+  private async seed(): Promise<void> {
+    const tempPath = await this.writeTempFile({
+      products: this.seedProducts.map(cloneProduct),
+      outbox: [],
+    });
+    try {
+      await fs.link(tempPath, this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    } finally {
+      await fs.unlink(tempPath);
+    }
+  }
+
+  // Only called while holding the lock, so nobody else replaces the file in between.
+  private async persist(catalog: Catalog): Promise<void> {
+    const tempPath = await this.writeTempFile(catalog);
+    await fs.rename(tempPath, this.filePath);
+    this.cache = catalog;
+    this.cachedVersion = await this.readVersion();
+  }
+
+  private async writeTempFile(catalog: Catalog): Promise<string> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.${++this.tempFileCounter}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(catalog, null, 2), "utf8");
+    return tempPath;
+  }
+}
+
+// Configuration used to pick a repository implementation at startup.
+export interface ProductRepositoryConfig {
+  driver: "memory" | "file";
+  filePath: string;
+  // Where the file driver appends product revision history.
+  historyFilePath: string;
+  // Where the file driver keeps the categories.
+  categoriesFilePath: string;
+  // Where the file driver keeps the responses of requests sent with Idempotency-Key.
+  idempotencyFilePath: string;
+}
+
+/**
+ * Reads the repository configuration from environment variables.
+ * PRODUCT_REPOSITORY selects the driver ("memory" by default) and
+ * PRODUCT_DATA_FILE sets where the file driver keeps its catalog and
+ * PRODUCT_HISTORY_FILE, CATEGORY_DATA_FILE and IDEMPOTENCY_DATA_FILE where it
+ * keeps the revision history, the categories and the Idempotency-Key responses.
+ */
+export const readProductRepositoryConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): ProductRepositoryConfig => {
+  const driver = (env.PRODUCT_REPOSITORY || "memory").toLowerCase();
+  if (driver !== "memory" && driver !== "file") {
+    throw new Error(
+      `Unsupported PRODUCT_REPOSITORY '${driver}'. Use 'memory' or 'file'.`
+    );
+  }
+  return {
+    driver,
+    filePath: env.PRODUCT_DATA_FILE || path.join("data", "products.json"),
+    historyFilePath:
+      env.PRODUCT_HISTORY_FILE || path.join("data", "product-history.ndjson"),
+    categoriesFilePath:
+      env.CATEGORY_DATA_FILE || path.join("data", "categories.json"),
+    idempotencyFilePath:
+      env.IDEMPOTENCY_DATA_FILE || path.join("data", "idempotency-keys.json"),
+  };
+};
+
+// Builds the repository described by the given configuration, seeded with the given products.
+export const createProductRepository = (
+  config: ProductRepositoryConfig,
+  seedProducts: Product[] = []
+): ProductRepository => {
+  if (config.driver === "file") {
+    return new FileProductRepository(config.filePath, seedProducts);
+  }
+  return new InMemoryProductRepository(seedProducts);
+};
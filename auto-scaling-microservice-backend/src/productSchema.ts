@@ -0,0 +1,160 @@
+import { Product } from "./types";
+
+// --- Product Input Schema ---
+
+// The single source of truth for what a client may send for a product. Create (POST),
+// replace (PUT) and partial update (PATCH) all validate against this schema, so the
+// rules can never drift apart between routes.
+
+// One problem with one field, in a shape the frontend can map onto form inputs.
+export interface FieldError {
+  field: string;
+  code:
+    | "required"
+    | "invalid_type"
+    | "empty"
+    | "too_long"
+    | "min"
+    | "integer"
+    | "invalid_url"
+    | "not_allowed"
+    | "invalid_format"
+    | "not_found";
+  message: string;
+}
+
+// The client-writable part of a Product. id and timestamps are owned by the server.
+export type ProductInput = Pick<
+  Product,
+  | "name"
+  | "description"
+  | "detailedDescription"
+  | "imageUrl"
+  | "price"
+  | "stockQuantity"
+  | "category"
+>;
+export type ProductInputField = keyof ProductInput;
+
+type FieldRule =
+  | { type: "string"; required: boolean; maxLength: number; url?: boolean }
+  | { type: "number"; required: boolean; min: number; integer?: boolean };
+
+export const productInputSchema: Record<ProductInputField, FieldRule> = {
+  name: { type: "string", required: true, maxLength: 200 },
+  description: { type: "string", required: true, maxLength: 1000 },
+  detailedDescription: { type: "string", required: false, maxLength: 5000 },
+  imageUrl: { type: "string", required: true, maxLength: 2048, url: true },
+  price: { type: "number", required: true, min: 0 },
+  stockQuantity: { type: "number", required: true, min: 0, integer: true },
+  category: { type: "string", required: true, maxLength: 100 },
+};
+
+export const PRODUCT_INPUT_FIELDS = Object.keys(
+  productInputSchema
+) as ProductInputField[];
+
+export const isProductInputField = (
+  field: string
+): field is ProductInputField =>
+  PRODUCT_INPUT_FIELDS.indexOf(field as ProductInputField) !== -1;
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Validates and normalizes a single field value.
+ * Strings are trimmed; an empty optional string is treated as absent (undefined).
+ */
+export const validateProductField = (
+  field: ProductInputField,
+  rawValue: unknown
+): { value?: unknown; error?: FieldError } => {
+  const rule = productInputSchema[field];
+  const fail = (code: FieldError["code"], message: string) => ({
+    error: { field, code, message },
+  });
+
+  const isMissing =
+    rawValue === undefined ||
+    rawValue === null ||
+    (typeof rawValue === "string" && rawValue.trim() === "");
+  if (isMissing) {
+    if (rule.required) {
+      return typeof rawValue === "string"
+        ? fail("empty", `${field} cannot be empty.`)
+        : fail("required", `${field} is required.`);
+    }
+    return { value: undefined };
+  }
+
+  if (rule.type === "string") {
+    if (typeof rawValue !== "string") {
+      return fail("invalid_type", `${field} must be a string.`);
+    }
+    const value = rawValue.trim();
+    if (value.length > rule.maxLength) {
+      return fail(
+        "too_long",
+        `${field} must be at most ${rule.maxLength} characters long.`
+      );
+    }
+    if (rule.url && !isHttpUrl(value)) {
+      return fail("invalid_url", `${field} must be a valid http(s) URL.`);
+    }
+    return { value };
+  }
+
+  if (typeof rawValue !== "number" || !isFinite(rawValue)) {
+    return fail("invalid_type", `${field} must be a number.`);
+  }
+  if (rule.integer && !Number.isInteger(rawValue)) {
+    return fail("integer", `${field} must be a whole number.`);
+  }
+  if (rawValue < rule.min) {
+    return fail("min", `${field} must be at least ${rule.min}.`);
+  }
+  return { value: rawValue };
+};
+
+/**
+ * Validates a complete product payload (POST and PUT) and reports every failing
+ * field at once. Unknown fields such as id or createdAt are ignored.
+ */
+export const validateProductInput = (
+  body: unknown
+): { value?: ProductInput; errors: FieldError[] } => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return {
+      errors: [
+        {
+          field: "body",
+          code: "invalid_type",
+          message: "Request body must be a JSON object.",
+        },
+      ],
+    };
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+  for (const field of PRODUCT_INPUT_FIELDS) {
+    const result = validateProductField(field, input[field]);
+    if (result.error) {
+      errors.push(result.error);
+    } else if (result.value !== undefined) {
+      value[field] = result.value;
+    }
+  }
+
+  return errors.length > 0
+    ? { errors }
+    : { value: value as unknown as ProductInput, errors };
+};
@@ -0,0 +1,70 @@
+// Command-line entry point for product/stock reconciliation, e.g. for a Kubernetes
+// CronJob. Reads the same environment variables as the Product Service:
+//
+//   npm run reconcile            # report only
+//   npm run reconcile -- --fix   # report and fix
+//
+// The npm script compiles with tsc first; the container image runs
+// dist/src/reconcile.js directly.
+//
+// Prints the report as JSON and exits with 0 when catalog and stock agree (or the
+// differences were fixed), 1 when differences remain and 2 when it could not run.
+
+import {
+  createProductRepository,
+  readProductRepositoryConfig,
+} from "./productRepository";
+import { createRevisionRepository, diffProducts } from "./revisionRepository";
+import { HttpStockClient, readStockClientConfig } from "./stockClient";
+import { isReconciled, reconcileInventory } from "./reconciliation";
+
+const main = async (): Promise<number> => {
+  const repositoryConfig = readProductRepositoryConfig();
+  if (repositoryConfig.driver !== "file") {
+    console.error(
+      "Reconciliation needs a shared catalog. Set PRODUCT_REPOSITORY=file and PRODUCT_DATA_FILE."
+    );
+    return 2;
+  }
+  const stockClientConfig = readStockClientConfig();
+  if (!stockClientConfig) {
+    console.error(
+      "Reconciliation needs the stock service. Set STOCK_SERVICE_URL."
+    );
+    return 2;
+  }
+
+  const repository = createProductRepository(repositoryConfig);
+  const revisions = createRevisionRepository(repositoryConfig);
+  const fix = process.argv.indexOf("--fix") !== -1;
+
+  const report = await reconcileInventory(
+    repository,
+    new HttpStockClient(stockClientConfig),
+    {
+      fix: fix,
+      onProductCorrected: async (before, after) => {
+        await revisions.append({
+          productId: after.id,
+          action: "updated",
+          changedBy: "reconciliation",
+          changedAt: new Date(),
+          changes: diffProducts(before, after),
+          snapshot: after,
+        });
+      },
+    }
+  );
+  console.log(JSON.stringify(report, null, 2));
+  return report.fixed || isReconciled(report) ? 0 : 1;
+};
+
+main().then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error("Error reconciling inventory:", error);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,138 @@
+import { InMemoryProductRepository } from "./productRepository";
+import { isReconciled, reconcileInventory } from "./reconciliation";
+import { StockInventory, StockLevel } from "./stockClient";
+import { Product } from "./types";
+
+const buildProduct = (id: string, stockQuantity: number): Product => ({
+  id: id,
+  name: `Product ${id}`,
+  description: "Desc",
+  price: 10,
+  stockQuantity: stockQuantity,
+  category: "electronics",
+  imageUrl: `https://example.com/${id}.jpg`,
+  createdAt: new Date("2025-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+});
+
+// An inventory stand-in backed by a plain map of stock levels.
+const fakeInventory = (levels: { [productId: string]: number }) => {
+  const inventory: StockInventory = {
+    listStockLevels: async () =>
+      Object.keys(levels).map((productId): StockLevel => ({
+        productId,
+        quantity: levels[productId],
+      })),
+    seedStockLevel: async (productId, quantity) => {
+      if (levels[productId] !== undefined) {
+        return false;
+      }
+      levels[productId] = quantity;
+      return true;
+    },
+    removeStockLevel: async (productId) => {
+      delete levels[productId];
+    },
+  };
+  return inventory;
+};
+
+describe("reconcileInventory", () => {
+  let repository: InMemoryProductRepository;
+  let levels: { [productId: string]: number };
+
+  beforeEach(() => {
+    // Arrange: "same" agrees, "missing" has no stock, "drifted" differs,
+    // "trashed" is soft-deleted and "orphan" only exists in the stock service.
+    repository = new InMemoryProductRepository([
+      buildProduct("same", 5),
+      buildProduct("missing", 7),
+      buildProduct("drifted", 3),
+      { ...buildProduct("trashed", 1), deletedAt: new Date() },
+    ]);
+    levels = { same: 5, drifted: 9, trashed: 1, orphan: 4 };
+  });
+
+  // Test case: a report-only run lists every kind of difference and changes nothing.
+  it("should report products without stock, stock without products and mismatches", async () => {
+    // Act
+    const report = await reconcileInventory(repository, fakeInventory(levels), {
+      fix: false,
+    });
+    // Assert
+    expect(report).toMatchObject({
+      productsChecked: 3,
+      stockRecordsChecked: 4,
+      productsWithoutStock: [
+        { productId: "missing", name: "Product missing", catalogQuantity: 7 },
+      ],
+      stockWithoutProducts: [
+        { productId: "trashed", stockQuantity: 1 },
+        { productId: "orphan", stockQuantity: 4 },
+      ],
+      quantityMismatches: [
+        {
+          productId: "drifted",
+          name: "Product drifted",
+          catalogQuantity: 3,
+          stockQuantity: 9,
+        },
+      ],
+      fixed: false,
+    });
+    expect(levels).toEqual({ same: 5, drifted: 9, trashed: 1, orphan: 4 });
+  });
+
+  // Test case: fixing seeds missing stock, removes orphans and trusts the stock service.
+  it("should fix every difference so a second run is clean", async () => {
+    // Arrange
+    const corrected: string[] = [];
+    // Act
+    const report = await reconcileInventory(repository, fakeInventory(levels), {
+      fix: true,
+      onProductCorrected: async (before, after) => {
+        corrected.push(`${before.stockQuantity}->${after.stockQuantity}`);
+      },
+    });
+    const second = await reconcileInventory(repository, fakeInventory(levels), {
+      fix: false,
+    });
+    // Assert
+    expect(report.fixed).toBe(true);
+    expect(levels).toEqual({ same: 5, drifted: 9, missing: 7 });
+    expect((await repository.findById("drifted"))!.stockQuantity).toBe(9);
+    expect(corrected).toEqual(["3->9"]);
+    expect(isReconciled(second)).toBe(true);
+  });
+
+  // Test case: changes made while reconciling win over the values read before them.
+  it("should not overwrite a product or stock record that changed meanwhile", async () => {
+    // Arrange: once the catalog has been read, an edit sets the drifted product's
+    // quantity and a product event creates the missing stock record.
+    const inventory = fakeInventory(levels);
+    const listStockLevels = inventory.listStockLevels;
+    inventory.listStockLevels = async () => {
+      const listed = await listStockLevels();
+      await repository.update({
+        ...(await repository.findById("drifted"))!,
+        stockQuantity: 8,
+      });
+      levels.missing = 2;
+      return listed;
+    };
+    const corrected: string[] = [];
+    // Act
+    const report = await reconcileInventory(repository, inventory, {
+      fix: true,
+      onProductCorrected: async (before, after) => {
+        corrected.push(after.id);
+      },
+    });
+    // Assert
+    expect(report.skippedProductIds).toEqual(["missing", "drifted"]);
+    expect(report.fixed).toBe(false);
+    expect((await repository.findById("drifted"))!.stockQuantity).toBe(8);
+    expect(levels.missing).toBe(2);
+    expect(corrected).toEqual([]);
+  });
+});
@@ -0,0 +1,153 @@
+import { computeProductETag } from "./etag";
+import { ProductRepository } from "./productRepository";
+import { StockInventory, StockLevel } from "./stockClient";
+import { Product } from "./types";
+
+// --- Product/Stock Reconciliation ---
+
+export interface ProductWithoutStock {
+  productId: string;
+  name: string;
+  catalogQuantity: number;
+}
+
+export interface StockWithoutProduct {
+  productId: string;
+  stockQuantity: number;
+}
+
+export interface QuantityMismatch {
+  productId: string;
+  name: string;
+  catalogQuantity: number;
+  stockQuantity: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  productsChecked: number;
+  stockRecordsChecked: number;
+  // Catalog products the stock service has no record of.
+  productsWithoutStock: ProductWithoutStock[];
+  // Stock records whose product does not exist or is in the trash.
+  stockWithoutProducts: StockWithoutProduct[];
+  // Products whose catalog stockQuantity differs from the stock service.
+  quantityMismatches: QuantityMismatch[];
+  // Products left alone while fixing because the catalog or the stock service changed
+  // them after they were read; the next run checks them again.
+  skippedProductIds: string[];
+  // Whether the differences above were fixed.
+  fixed: boolean;
+}
+
+export interface ReconciliationOptions {
+  fix: boolean;
+  // Called after a product's catalog quantity was corrected, e.g. to record a revision.
+  onProductCorrected?: (before: Product, after: Product) => Promise<void>;
+}
+
+/**
+ * Compares the catalog with the stock service's records and optionally fixes the
+ * differences. The stock service owns stock levels, so fixing means:
+ * - products without stock get a stock record seeded with their catalog quantity,
+ *   unless a record was created in the meantime,
+ * - stock records without a product are removed,
+ * - mismatched catalog quantities are overwritten with the stock service's value,
+ *   unless the product changed since it was read (compare-and-set on its ETag).
+ * Trashed products count as deleted, since deleting a product removes its stock.
+ */
+export const reconcileInventory = async (
+  repository: ProductRepository,
+  inventory: StockInventory,
+  options: ReconciliationOptions
+): Promise<ReconciliationReport> => {
+  const products = (await repository.findAll()).filter((p) => !p.deletedAt);
+  const levels = await inventory.listStockLevels();
+
+  const stockById: { [productId: string]: StockLevel } = {};
+  levels.forEach((level) => {
+    stockById[level.productId] = level;
+  });
+  const productById: { [productId: string]: Product } = {};
+  products.forEach((product) => {
+    productById[product.id] = product;
+  });
+
+  const report: ReconciliationReport = {
+    checkedAt: new Date(),
+    productsChecked: products.length,
+    stockRecordsChecked: levels.length,
+    productsWithoutStock: [],
+    stockWithoutProducts: [],
+    quantityMismatches: [],
+    skippedProductIds: [],
+    fixed: false,
+  };
+
+  products.forEach((product) => {
+    const level = stockById[product.id];
+    if (!level) {
+      report.productsWithoutStock.push({
+        productId: product.id,
+        name: product.name,
+        catalogQuantity: product.stockQuantity,
+      });
+    } else if (level.quantity !== product.stockQuantity) {
+      report.quantityMismatches.push({
+        productId: product.id,
+        name: product.name,
+        catalogQuantity: product.stockQuantity,
+        stockQuantity: level.quantity,
+      });
+    }
+  });
+  levels.forEach((level) => {
+    if (!productById[level.productId]) {
+      report.stockWithoutProducts.push({
+        productId: level.productId,
+        stockQuantity: level.quantity,
+      });
+    }
+  });
+
+  if (!options.fix) {
+    return report;
+  }
+
+  for (const missing of report.productsWithoutStock) {
+    const seeded = await inventory.seedStockLevel(
+      missing.productId,
+      missing.catalogQuantity
+    );
+    if (!seeded) {
+      report.skippedProductIds.push(missing.productId);
+    }
+  }
+  for (const orphan of report.stockWithoutProducts) {
+    await inventory.removeStockLevel(orphan.productId);
+  }
+  for (const mismatch of report.quantityMismatches) {
+    const before = productById[mismatch.productId];
+    const after = await repository.updateIfMatch(
+      {
+        ...before,
+        stockQuantity: mismatch.stockQuantity,
+        updatedAt: new Date(),
+      },
+      computeProductETag(before)
+    );
+    if (!after) {
+      report.skippedProductIds.push(mismatch.productId);
+    } else if (options.onProductCorrected) {
+      await options.onProductCorrected(before, after);
+    }
+  }
+  report.fixed = report.skippedProductIds.length === 0;
+  return report;
+};
+
+// True when the catalog and the stock service agree.
+export const isReconciled = (report: ReconciliationReport): boolean =>
+  report.productsWithoutStock.length === 0 &&
+  report.stockWithoutProducts.length === 0 &&
+  report.quantityMismatches.length === 0;
@@ -0,0 +1,84 @@
+// Import Node's file system helpers to create a throwaway directory for each test.
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Import the repository under test.
+import {
+  FileRevisionRepository,
+  NewProductRevision,
+} from "./revisionRepository";
+import { Product } from "./types";
+
+// Builds a revision for the given product; the repository assigns its number.
+const buildRevision = (productId: string): NewProductRevision => ({
+  productId: productId,
+  action: "updated",
+  changedBy: "tester",
+  changedAt: new Date("2025-01-02T00:00:00.000Z"),
+  changes: { price: { from: 10, to: 12 } },
+  snapshot: {
+    id: productId,
+    name: "Revision Product",
+    description: "Desc",
+    price: 12,
+    stockQuantity: 5,
+    category: "RevCat",
+    imageUrl: "https://example.com/rev.jpg",
+    createdAt: new Date("2025-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2025-01-02T00:00:00.000Z"),
+  } as Product,
+});
+
+describe("FileRevisionRepository", () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "revision-repo-"));
+    filePath = path.join(tempDir, "history.ndjson");
+  });
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Test case: numbering continues from the file, which appends never reread in full.
+  it("should continue numbering from disk without rereading it on every append", async () => {
+    // Arrange: history written by an earlier process.
+    const earlier = new FileRevisionRepository(filePath);
+    await earlier.append(buildRevision("p1"));
+    await earlier.append(buildRevision("p1"));
+    const repository = new FileRevisionRepository(filePath);
+    const readFile = jest.spyOn(fs, "readFile");
+    // Act
+    const appended = await Promise.all([
+      repository.append(buildRevision("p1")),
+      repository.append(buildRevision("p2")),
+      repository.append(buildRevision("p1")),
+    ]);
+    // Assert
+    expect(appended.map((r) => r.revision)).toEqual([3, 1, 4]);
+    expect(readFile).not.toHaveBeenCalled();
+    const history = await repository.findByProductId("p1");
+    expect(history.map((r) => r.revision)).toEqual([1, 2, 3, 4]);
+    expect(history[3].changedAt).toEqual(new Date("2025-01-02T00:00:00.000Z"));
+  });
+
+  // Test case: two instances stand in for replicas appending to one shared file.
+  it("should number revisions appended by separate instances consecutively", async () => {
+    // Arrange
+    const replicas = [
+      new FileRevisionRepository(filePath),
+      new FileRevisionRepository(filePath),
+    ];
+    // Act
+    const appended = await Promise.all(
+      [0, 1, 0, 1].map((index) => replicas[index].append(buildRevision("p1")))
+    );
+    // Assert
+    expect(appended.map((r) => r.revision).sort()).toEqual([1, 2, 3, 4]);
+    const history = await replicas[0].findByProductId("p1");
+    expect(history.map((r) => r.revision)).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,231 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { withFileLock } from "../shared/fileLock";
+import { ProductRepositoryConfig } from "./productRepository";
+import { Product } from "./types";
+
+// --- Product Revision History ---
+
+export type RevisionAction =
+  "created" | "updated" | "deleted" | "restored" | "purged";
+
+// The before/after value of one field that changed in a revision.
+export interface FieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+// One recorded change to a product: who made it, when, and what changed.
+export interface ProductRevision {
+  productId: string;
+  // Sequential per product, starting at 1.
+  revision: number;
+  action: RevisionAction;
+  changedBy: string;
+  changedAt: Date;
+  changes: Record<string, FieldChange>;
+  // The full product as it looked right after this revision.
+  snapshot: Product;
+}
+
+// A revision before the repository has assigned its number.
+export type NewProductRevision = Omit<ProductRevision, "revision">;
+
+export interface RevisionRepository {
+  // Stores a revision, numbering it after the product's previous revisions.
+  append(entry: NewProductRevision): Promise<ProductRevision>;
+  // All revisions of a product, oldest first.
+  findByProductId(productId: string): Promise<ProductRevision[]>;
+}
+
+// Fields that are not part of an audit diff: the id never changes and updatedAt
+// changes on every write, so it would only add noise.
+const IGNORED_FIELDS = ["id", "updatedAt"];
+
+const serialize = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Lists the fields that differ between two versions of a product.
+ * Pass undefined as `before` for a newly created product.
+ */
+export const diffProducts = (
+  before: Product | undefined,
+  after: Product
+): Record<string, FieldChange> => {
+  const changes: Record<string, FieldChange> = {};
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  const fields = Object.keys(previous).concat(
+    Object.keys(next).filter((key) => !(key in previous))
+  );
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.indexOf(field) !== -1) {
+      continue;
+    }
+    const from = serialize(previous[field]);
+    const to = serialize(next[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+};
+
+/**
+ * Keeps revisions in memory, grouped by product id.
+ * Like InMemoryProductRepository, the history is lost on restart.
+ */
+export class InMemoryRevisionRepository implements RevisionRepository {
+  private revisions: { [productId: string]: ProductRevision[] } = {};
+
+  async append(entry: NewProductRevision): Promise<ProductRevision> {
+    const history = this.revisions[entry.productId] || [];
+    const revision: ProductRevision = {
+      ...entry,
+      revision: history.length + 1,
+    };
+    history.push(revision);
+    this.revisions[entry.productId] = history;
+    return revision;
+  }
+
+  async findByProductId(productId: string): Promise<ProductRevision[]> {
+    return (this.revisions[productId] || []).slice();
+  }
+}
+
+// The shape a revision takes in the history file (dates become strings).
+type StoredRevision = Omit<ProductRevision, "changedAt" | "snapshot"> & {
+  changedAt: string;
+  snapshot: Omit<Product, "createdAt" | "updatedAt" | "deletedAt"> & {
+    createdAt: string;
+    updatedAt: string;
+    deletedAt?: string;
+  };
+};
+
+const reviveRevision = (stored: StoredRevision): ProductRevision => {
+  const { deletedAt, ...snapshot } = stored.snapshot;
+  const revision: ProductRevision = {
+    ...stored,
+    changedAt: new Date(stored.changedAt),
+    snapshot: {
+      ...snapshot,
+      createdAt: new Date(snapshot.createdAt),
+      updatedAt: new Date(snapshot.updatedAt),
+    },
+  };
+  if (deletedAt) {
+    revision.snapshot.deletedAt = new Date(deletedAt);
+  }
+  return revision;
+};
+
+/**
+ * Appends revisions to an NDJSON file, one revision per line.
+ * History is append-only, so new revisions never rewrite the existing file. Appends
+ * hold a lock file, like the catalog, so replicas sharing the file number revisions
+ * one at a time.
+ */
+export class FileRevisionRepository implements RevisionRepository {
+  // Appends are chained so revisions of one process queue up here.
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  // The latest revision number of each product, covering the first `bytesRead`
+  // bytes of the file. Each append only reads what other replicas added since, so
+  // appends never reread the whole history.
+  private latestRevisions: { [productId: string]: number } = {};
+  private bytesRead = 0;
+
+  constructor(private readonly filePath: string) {}
+
+  append(entry: NewProductRevision): Promise<ProductRevision> {
+    const run = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      return withFileLock(`${this.filePath}.lock`, async () => {
+        await this.catchUp();
+        const revision: ProductRevision = {
+          ...entry,
+          revision: (this.latestRevisions[entry.productId] || 0) + 1,
+        };
+        const line = `${JSON.stringify(revision)}\n`;
+        await fs.appendFile(this.filePath, line, "utf8");
+        this.latestRevisions[entry.productId] = revision.revision;
+        this.bytesRead += Buffer.byteLength(line, "utf8");
+        return revision;
+      });
+    };
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next;
+    return next;
+  }
+
+  async findByProductId(productId: string): Promise<ProductRevision[]> {
+    return (await this.readAll())
+      .filter((stored) => stored.productId === productId)
+      .map(reviveRevision);
+  }
+
+  // Folds the lines appended since the last call (by any replica) into
+  // latestRevisions. Only called while holding the lock, so every line is complete.
+  private async catchUp(): Promise<void> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.filePath, "r");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    try {
+      const { size } = await handle.stat();
+      if (size <= this.bytesRead) {
+        return;
+      }
+      const buffer = Buffer.alloc(size - this.bytesRead);
+      await handle.read(buffer, 0, buffer.length, this.bytesRead);
+      buffer
+        .toString("utf8")
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .forEach((line) => {
+          const stored = JSON.parse(line) as StoredRevision;
+          this.latestRevisions[stored.productId] = Math.max(
+            this.latestRevisions[stored.productId] || 0,
+            stored.revision
+          );
+        });
+      this.bytesRead = size;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async readAll(): Promise<StoredRevision[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return raw
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as StoredRevision);
+  }
+}
+
+// Builds the revision store for the configured driver, so history is persisted
+// exactly when the catalog is.
+export const createRevisionRepository = (
+  config: ProductRepositoryConfig
+): RevisionRepository =>
+  config.driver === "file"
+    ? new FileRevisionRepository(config.historyFilePath)
+    : new InMemoryRevisionRepository();
@@ -0,0 +1,36 @@
+// --- Last-Known-Good Stock Cache ---
+
+export interface CachedStockLevel {
+  quantity: number;
+  // When the stock service last confirmed this quantity.
+  cachedAt: Date;
+}
+
+/**
+ * Remembers the last stock level the stock service reported for each product, so
+ * product reads can fall back to it while the stock service is unreachable. Entries
+ * never expire (a stale value beats none) but the cache is bounded: once full, the
+ * least recently refreshed product is dropped first.
+ */
+export class StockCache {
+  // Map keeps insertion order, so the first key is always the oldest entry.
+  private entries = new Map<string, CachedStockLevel>();
+
+  constructor(private readonly maxEntries: number = 10000) {}
+
+  set(productId: string, quantity: number, cachedAt: Date = new Date()): void {
+    this.entries.delete(productId);
+    this.entries.set(productId, { quantity, cachedAt });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  get(productId: string): CachedStockLevel | undefined {
+    return this.entries.get(productId);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
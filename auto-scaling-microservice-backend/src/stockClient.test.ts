@@ -0,0 +1,355 @@
+import { CircuitBreaker } from "./circuitBreaker";
+import {
+  FetchLike,
+  HttpStockClient,
+  StockClientConfig,
+  readStockClientConfig,
+} from "./stockClient";
+import { InMemorySpanExporter, Tracer, setTracer } from "../shared/tracing";
+
+// Fast settings so retries and timeouts do not slow the suite down.
+const config: StockClientConfig = {
+  baseUrl: "http://stock.test",
+  timeoutMs: 20,
+  retries: 2,
+  retryDelayMs: 0,
+  failureThreshold: 2,
+  resetTimeoutMs: 1000,
+  concurrency: 2,
+  cacheMaxEntries: 10,
+};
+
+// A fetch stand-in that answers from a queue of canned responses.
+const fakeFetch = (
+  ...responses: ({ status: number; body?: unknown } | "hang" | "fail")[]
+) => {
+  const calls: string[] = [];
+  const fetchImpl: FetchLike = (url, init) => {
+    calls.push(url);
+    const next = responses.length > 1 ? responses.shift() : responses[0];
+    if (next === "fail") {
+      return Promise.reject(new Error("ECONNREFUSED"));
+    }
+    if (next === "hang" || next === undefined) {
+      // Never answers; only the client's timeout ends the attempt.
+      return new Promise((resolve, reject) => {
+        init.signal.addEventListener("abort", () =>
+          reject(new Error("aborted"))
+        );
+      });
+    }
+    return Promise.resolve({
+      status: next.status,
+      json: async () => next.body,
+    });
+  };
+  return { fetchImpl, calls };
+};
+
+describe("HttpStockClient", () => {
+  // Test case: a 200 response yields the live quantity.
+  it("should return the quantity reported by the stock service", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch({
+      status: 200,
+      body: { productId: "p1", quantity: 7 },
+    });
+    const stockClient = new HttpStockClient(config, fetchImpl);
+    // Act
+    const lookup = await stockClient.getStockLevel("p1");
+    // Assert
+    expect(lookup).toEqual({ status: "found", quantity: 7 });
+    expect(calls).toEqual(["http://stock.test/stock/p1"]);
+  });
+
+  // Test case: each attempt is a client span whose context reaches the stock service.
+  it("should send traceparent for the client span of the lookup", async () => {
+    // Arrange
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer("product-service", exporter);
+    setTracer(tracer);
+    const headers: { [name: string]: string }[] = [];
+    const { fetchImpl } = fakeFetch({
+      status: 200,
+      body: { productId: "p1", quantity: 7 },
+    });
+    const stockClient = new HttpStockClient(config, (url, init) => {
+      headers.push(init.headers || {});
+      return fetchImpl(url, init);
+    });
+    // Act
+    await tracer.trace("GET /products/:id", () =>
+      stockClient.getStockLevel("p1")
+    );
+    // Assert
+    const [client, parent] = exporter.spans;
+    expect(client).toMatchObject({
+      name: "stock-service get_stock",
+      kind: "client",
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+      attributes: { "http.method": "GET", "http.status_code": 200 },
+    });
+    expect(headers[0].traceparent).toBe(
+      `00-${client.traceId}-${client.spanId}-01`
+    );
+  });
+
+  // Test case: 404 means "no stock record", which is an answer and is not retried.
+  it("should report not_found without retrying", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch({ status: 404 });
+    const stockClient = new HttpStockClient(config, fetchImpl);
+    // Act
+    const lookup = await stockClient.getStockLevel("p1");
+    // Assert
+    expect(lookup).toEqual({ status: "not_found" });
+    expect(calls.length).toBe(1);
+  });
+
+  // Test case: transient 5xx and network errors are retried.
+  it("should retry server errors and network failures", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch({ status: 503 }, "fail", {
+      status: 200,
+      body: { productId: "p1", quantity: 3 },
+    });
+    const stockClient = new HttpStockClient(config, fetchImpl);
+    // Act
+    const lookup = await stockClient.getStockLevel("p1");
+    // Assert
+    expect(lookup).toEqual({ status: "found", quantity: 3 });
+    expect(calls.length).toBe(3);
+  });
+
+  // Test case: every attempt times out, so the lookup degrades to unavailable.
+  it("should give up after the configured retries when requests time out", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch("hang");
+    const stockClient = new HttpStockClient(
+      { ...config, failureThreshold: 10 },
+      fetchImpl
+    );
+    // Act
+    const lookup = await stockClient.getStockLevel("p1");
+    // Assert
+    expect(lookup).toEqual({ status: "unavailable", reason: "timeout" });
+    expect(calls.length).toBe(3);
+  });
+
+  // Test case: once the circuit opens, lookups fail fast without any HTTP call.
+  it("should open the circuit after consecutive failures", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch({ status: 500 });
+    const stockClient = new HttpStockClient(
+      { ...config, retries: 0 },
+      fetchImpl
+    );
+    await stockClient.getStockLevel("p1");
+    await stockClient.getStockLevel("p2");
+    // Act
+    const lookup = await stockClient.getStockLevel("p3");
+    // Assert
+    expect(lookup).toEqual({ status: "unavailable", reason: "circuit_open" });
+    expect(calls.length).toBe(2);
+  });
+
+  // Test case: answers the stock service rejects show it is up, so they do not open the circuit.
+  it("should not open the circuit on client errors", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch({ status: 400 });
+    const stockClient = new HttpStockClient(
+      { ...config, retries: 0 },
+      fetchImpl
+    );
+    await stockClient.getStockLevels(["a"]);
+    await stockClient.getStockLevels(["b"]);
+    // Act
+    const lookups = await stockClient.getStockLevels(["c"]);
+    // Assert
+    expect(lookups).toEqual({
+      c: { status: "unavailable", reason: "http_400" },
+    });
+    expect(calls.length).toBe(3);
+    expect(stockClient.getCircuitState()).toBe("closed");
+  });
+
+  // Test case: list lookups are de-duplicated and sent as one batch request.
+  it("should look up many products with one batch request", async () => {
+    // Arrange
+    const bodies: string[] = [];
+    const { fetchImpl: batchFetch, calls } = fakeFetch({
+      status: 200,
+      body: {
+        data: [
+          { productId: "a", quantity: 1 },
+          { productId: "c", quantity: 3 },
+        ],
+        notFound: ["b"],
+      },
+    });
+    const fetchImpl: FetchLike = (url, init) => {
+      bodies.push(init.body || "");
+      return batchFetch(url, init);
+    };
+    const stockClient = new HttpStockClient(config, fetchImpl);
+    // Act
+    const lookups = await stockClient.getStockLevels(["a", "b", "a", "c"]);
+    // Assert
+    expect(calls).toEqual(["http://stock.test/stock/batch-get"]);
+    expect(JSON.parse(bodies[0])).toEqual({ productIds: ["a", "b", "c"] });
+    expect(lookups).toEqual({
+      a: { status: "found", quantity: 1 },
+      b: { status: "not_found" },
+      c: { status: "found", quantity: 3 },
+    });
+  });
+
+  // Test case: a failed batch makes each of its products unavailable.
+  it("should report every product of a failed batch as unavailable", async () => {
+    // Arrange
+    const { fetchImpl } = fakeFetch({ status: 500 });
+    const stockClient = new HttpStockClient(
+      { ...config, retries: 0, failureThreshold: 10 },
+      fetchImpl
+    );
+    // Act
+    const lookups = await stockClient.getStockLevels(["a", "b"]);
+    // Assert
+    expect(lookups).toEqual({
+      a: { status: "unavailable", reason: "http_5xx" },
+      b: { status: "unavailable", reason: "http_5xx" },
+    });
+  });
+});
+
+describe("HttpStockClient inventory operations", () => {
+  // Test case: the whole inventory is read by following the stock cursors.
+  it("should list every stock record page by page", async () => {
+    // Arrange
+    const { fetchImpl, calls } = fakeFetch(
+      {
+        status: 200,
+        body: {
+          data: [{ productId: "a", quantity: 1 }],
+          pagination: { nextCursor: "c1" },
+        },
+      },
+      {
+        status: 200,
+        body: {
+          data: [{ productId: "b", quantity: 2 }],
+          pagination: { nextCursor: null },
+        },
+      }
+    );
+    const stockClient = new HttpStockClient(config, fetchImpl);
+    // Act
+    const levels = await stockClient.listStockLevels();
+    // Assert
+    expect(levels).toEqual([
+      { productId: "a", quantity: 1 },
+      { productId: "b", quantity: 2 },
+    ]);
+    expect(calls).toEqual([
+      "http://stock.test/stock?limit=100&cursor=",
+      "http://stock.test/stock?limit=100&cursor=c1",
+    ]);
+  });
+
+  // Test case: unlike lookups, inventory operations fail loudly.
+  it("should throw when the stock service is unavailable", async () => {
+    // Arrange
+    const { fetchImpl } = fakeFetch({ status: 503 });
+    const stockClient = new HttpStockClient(
+      { ...config, retries: 0 },
+      fetchImpl
+    );
+    // Act & Assert
+    await expect(stockClient.seedStockLevel("a", 3)).rejects.toThrow(
+      "Stock service unavailable: http_5xx"
+    );
+  });
+
+  // Test case: seeding only creates records, so an existing quantity is never overwritten.
+  it("should seed a stock record only when it does not exist", async () => {
+    // Arrange: the first record is new, the second exists already.
+    const headers: { [name: string]: string }[] = [];
+    const { fetchImpl: answer } = fakeFetch(
+      { status: 200, body: { productId: "a", quantity: 3 } },
+      { status: 412 }
+    );
+    const fetchImpl: FetchLike = (url, init) => {
+      headers.push(init.headers || {});
+      return answer(url, init);
+    };
+    const stockClient = new HttpStockClient(config, fetchImpl);
+    // Act
+    const created = await stockClient.seedStockLevel("a", 3);
+    const existing = await stockClient.seedStockLevel("b", 3);
+    // Assert
+    expect([created, existing]).toEqual([true, false]);
+    expect(headers[0]["If-None-Match"]).toBe("*");
+    expect(stockClient.getCircuitState()).toBe("closed");
+  });
+});
+
+describe("CircuitBreaker", () => {
+  // Test case: after the reset timeout one trial call decides whether to close again.
+  it("should let one trial call through after the reset timeout", async () => {
+    // Arrange
+    let now = 0;
+    const breaker = new CircuitBreaker("test", {
+      failureThreshold: 1,
+      resetTimeoutMs: 100,
+      now: () => now,
+    });
+    await expect(
+      breaker.execute(() => Promise.reject(new Error("down")))
+    ).rejects.toThrow("down");
+    // Act & Assert: still open before the timeout...
+    expect(breaker.getState()).toBe("open");
+    await expect(breaker.execute(async () => "ok")).rejects.toThrow(
+      "Circuit 'test' is open"
+    );
+    // ...half-open afterwards, and a successful trial closes it.
+    now = 100;
+    expect(breaker.getState()).toBe("half-open");
+    await expect(breaker.execute(async () => "ok")).resolves.toBe("ok");
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  // Test case: a threshold below 1 would open the circuit before any call.
+  it("should reject a failure threshold below 1", () => {
+    expect(
+      () =>
+        new CircuitBreaker("test", { failureThreshold: 0, resetTimeoutMs: 100 })
+    ).toThrow(
+      "Invalid failure threshold '0' for circuit 'test'. Use a positive integer."
+    );
+  });
+});
+
+describe("readStockClientConfig", () => {
+  // Test case: live stock is opt-in through STOCK_SERVICE_URL.
+  it("should be disabled without STOCK_SERVICE_URL and validate numbers", () => {
+    expect(readStockClientConfig({})).toBeUndefined();
+    expect(
+      readStockClientConfig({ STOCK_SERVICE_URL: "http://stock:3001/" })
+    ).toMatchObject({ baseUrl: "http://stock:3001", timeoutMs: 500 });
+    expect(() =>
+      readStockClientConfig({
+        STOCK_SERVICE_URL: "http://stock:3001",
+        STOCK_TIMEOUT_MS: "soon",
+      })
+    ).toThrow("Invalid STOCK_TIMEOUT_MS 'soon'. Use a non-negative integer.");
+    expect(() =>
+      readStockClientConfig({
+        STOCK_SERVICE_URL: "http://stock:3001",
+        STOCK_CIRCUIT_FAILURE_THRESHOLD: "0",
+      })
+    ).toThrow(
+      "Invalid STOCK_CIRCUIT_FAILURE_THRESHOLD '0'. Use a positive integer."
+    );
+  });
+});
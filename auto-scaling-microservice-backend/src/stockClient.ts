@@ -0,0 +1,493 @@
+// Import the Prometheus client to record how the stock service behaves from our side.
+import client from "prom-client";
+
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  CircuitState,
+} from "./circuitBreaker";
+import { readNonNegativeInt, readPositiveInt } from "../shared/env";
+import { currentRequestId } from "../shared/logger";
+import { getTracer, injectTraceHeaders } from "../shared/tracing";
+
+// --- Stock Service Client ---
+
+// The body of GET /stock/:productId in the stock service.
+export interface StockLevel {
+  productId: string;
+  quantity: number;
+}
+
+// The outcome of looking up one product. Lookups never throw: a failing stock service
+// must not fail product reads, so callers decide how to degrade on "unavailable".
+export type StockLookup =
+  | { status: "found"; quantity: number }
+  | { status: "not_found" }
+  | { status: "unavailable"; reason: string };
+
+// The body of POST /stock/batch-get in the stock service.
+export interface StockBatch {
+  data: StockLevel[];
+  notFound: string[];
+}
+
+export interface StockClient {
+  getStockLevel(productId: string): Promise<StockLookup>;
+  // Looks up many products at once, keyed by product id.
+  getStockLevels(
+    productIds: string[]
+  ): Promise<{ [productId: string]: StockLookup }>;
+}
+
+// Whole-inventory operations, used by reconciliation. Unlike lookups these throw a
+// StockServiceUnavailableError when the stock service cannot be reached, since acting
+// on a partial picture of the inventory would do more harm than stopping.
+export interface StockInventory {
+  // Every stock record, read page by page.
+  listStockLevels(): Promise<StockLevel[]>;
+  // Creates a stock record unless the product has one already. Resolves to false if
+  // it had, in which case its quantity is left alone.
+  seedStockLevel(productId: string, quantity: number): Promise<boolean>;
+  removeStockLevel(productId: string): Promise<void>;
+}
+
+export class StockServiceUnavailableError extends Error {
+  constructor(readonly reason: string) {
+    super(`Stock service unavailable: ${reason}`);
+    this.name = "StockServiceUnavailableError";
+  }
+}
+
+export interface StockClientConfig {
+  baseUrl: string;
+  // Per attempt; a lookup can take up to (retries + 1) timeouts plus backoff.
+  timeoutMs: number;
+  retries: number;
+  // Base of the exponential backoff between attempts.
+  retryDelayMs: number;
+  // Consecutive failed requests (timeouts, network errors and 5xx answers) that open
+  // the circuit; at least 1.
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  // How many batch requests of one list run in parallel.
+  concurrency: number;
+  // How many products the last-known-good stock cache remembers.
+  cacheMaxEntries: number;
+}
+
+/**
+ * Reads the stock client configuration from environment variables. Live stock is
+ * only fetched when STOCK_SERVICE_URL is set; without it the catalog's own
+ * stockQuantity is returned unchanged, which keeps unit tests and local runs
+ * independent of the stock service.
+ */
+export const readStockClientConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): StockClientConfig | undefined => {
+  if (!env.STOCK_SERVICE_URL) {
+    return undefined;
+  }
+  return {
+    baseUrl: env.STOCK_SERVICE_URL.replace(/\/+$/, ""),
+    timeoutMs: readNonNegativeInt(env, "STOCK_TIMEOUT_MS", 500),
+    retries: readNonNegativeInt(env, "STOCK_RETRIES", 2),
+    retryDelayMs: readNonNegativeInt(env, "STOCK_RETRY_DELAY_MS", 50),
+    failureThreshold: readPositiveInt(
+      env,
+      "STOCK_CIRCUIT_FAILURE_THRESHOLD",
+      5
+    ),
+    resetTimeoutMs: readNonNegativeInt(env, "STOCK_CIRCUIT_RESET_MS", 30000),
+    concurrency: readNonNegativeInt(env, "STOCK_BATCH_CONCURRENCY", 10) || 1,
+    cacheMaxEntries: readNonNegativeInt(env, "STOCK_CACHE_MAX_ENTRIES", 10000),
+  };
+};
+
+// --- Downstream Metrics ---
+
+// Latency of every HTTP attempt against the stock service, by outcome
+// (success, not_found, timeout, network, http_5xx, ...).
+const downstreamRequestDuration = new client.Histogram({
+  name: "downstream_request_duration_seconds",
+  help: "Duration of requests to downstream services in seconds",
+  labelNames: ["service", "operation", "outcome"],
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+});
+
+// Lookups that failed for good, after retries or because the circuit was open.
+const downstreamFailureCounter = new client.Counter({
+  name: "downstream_request_failures_total",
+  help: "Total number of failed calls to downstream services",
+  labelNames: ["service", "operation", "reason"],
+});
+
+// The subset of the fetch API the client needs, so tests can pass a fake.
+export type FetchLike = (
+  url: string,
+  init: {
+    signal: AbortSignal;
+    method?: "POST" | "PUT" | "DELETE";
+    headers?: { [name: string]: string };
+    body?: string;
+  }
+) => Promise<{ status: number; json(): Promise<unknown> }>;
+
+// The most product ids the stock service accepts in one batch lookup.
+const MAX_BATCH_SIZE = 100;
+
+// Page size when reading the whole inventory.
+const LIST_PAGE_SIZE = 100;
+
+// A failed attempt. 5xx responses, timeouts and network errors are worth retrying;
+// other client errors and malformed bodies are not.
+class StockRequestError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly retryable: boolean
+  ) {
+    super(`Stock service request failed: ${reason}`);
+    this.name = "StockRequestError";
+  }
+}
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls the stock service over HTTP with a timeout per attempt, retries with
+ * exponential backoff, and a circuit breaker around each request. Only the errors
+ * worth retrying count against the circuit: a 4xx or a malformed body means the
+ * stock service answered. Lists are looked up
+ * with POST /stock/batch-get, one request per 100 products, instead of one per product.
+ */
+export class HttpStockClient implements StockClient, StockInventory {
+  private readonly breaker: CircuitBreaker;
+
+  constructor(
+    private readonly config: StockClientConfig,
+    private readonly fetchImpl: FetchLike = fetch,
+    breaker?: CircuitBreaker
+  ) {
+    this.breaker =
+      breaker ||
+      new CircuitBreaker("stock-service", {
+        failureThreshold: config.failureThreshold,
+        resetTimeoutMs: config.resetTimeoutMs,
+        isFailure: (error) =>
+          error instanceof StockRequestError && error.retryable,
+      });
+  }
+
+  // Exposed for readiness reporting.
+  getCircuitState(): CircuitState {
+    return this.breaker.getState();
+  }
+
+  async getStockLevel(productId: string): Promise<StockLookup> {
+    try {
+      return await this.breaker.execute(() =>
+        this.requestWithRetry(() => this.requestOnce(productId))
+      );
+    } catch (error) {
+      return {
+        status: "unavailable",
+        reason: this.recordFailure("get_stock", error),
+      };
+    }
+  }
+
+  async getStockLevels(
+    productIds: string[]
+  ): Promise<{ [productId: string]: StockLookup }> {
+    const uniqueIds = productIds.filter(
+      (id, index) => productIds.indexOf(id) === index
+    );
+    const batches: string[][] = [];
+    for (let i = 0; i < uniqueIds.length; i += MAX_BATCH_SIZE) {
+      batches.push(uniqueIds.slice(i, i + MAX_BATCH_SIZE));
+    }
+
+    const results: { [productId: string]: StockLookup } = {};
+    for (let i = 0; i < batches.length; i += this.config.concurrency) {
+      const group = batches.slice(i, i + this.config.concurrency);
+      const lookups = await Promise.all(
+        group.map((batch) => this.getStockBatch(batch))
+      );
+      lookups.forEach((lookup) => {
+        Object.keys(lookup).forEach((id) => {
+          results[id] = lookup[id];
+        });
+      });
+    }
+    return results;
+  }
+
+  // One batch request; a failure makes every product of the batch unavailable.
+  private async getStockBatch(
+    productIds: string[]
+  ): Promise<{ [productId: string]: StockLookup }> {
+    const results: { [productId: string]: StockLookup } = {};
+    try {
+      const batch = await this.breaker.execute(() =>
+        this.requestWithRetry(() => this.requestBatchOnce(productIds))
+      );
+      batch.data.forEach((level) => {
+        results[level.productId] = {
+          status: "found",
+          quantity: level.quantity,
+        };
+      });
+      productIds.forEach((id) => {
+        if (!results[id]) {
+          results[id] = { status: "not_found" };
+        }
+      });
+    } catch (error) {
+      const reason = this.recordFailure("batch_get_stock", error);
+      productIds.forEach((id) => {
+        results[id] = { status: "unavailable", reason: reason };
+      });
+    }
+    return results;
+  }
+
+  async listStockLevels(): Promise<StockLevel[]> {
+    const levels: StockLevel[] = [];
+    let cursor = "";
+    for (;;) {
+      const { body: page } = await this.inventoryRequest<{
+        data: StockLevel[];
+        pagination: { nextCursor: string | null };
+      }>(
+        "list_stock",
+        `/stock?limit=${LIST_PAGE_SIZE}&cursor=${encodeURIComponent(cursor)}`
+      );
+      if (!page || !Array.isArray(page.data) || !page.pagination) {
+        throw new StockServiceUnavailableError("invalid_response");
+      }
+      page.data.forEach((level) => levels.push(level));
+      if (!page.pagination.nextCursor) {
+        return levels;
+      }
+      cursor = page.pagination.nextCursor;
+    }
+  }
+
+  // PUT with If-None-Match: * only creates the record; the stock service answers 412
+  // when one exists, e.g. because a product event created it in the meantime.
+  async seedStockLevel(productId: string, quantity: number): Promise<boolean> {
+    const { status } = await this.inventoryRequest(
+      "seed_stock",
+      `/stock/${encodeURIComponent(productId)}`,
+      "PUT",
+      JSON.stringify({ quantity: quantity }),
+      { "If-None-Match": "*" }
+    );
+    return status !== 412;
+  }
+
+  async removeStockLevel(productId: string): Promise<void> {
+    // A record that is already gone counts as removed.
+    await this.inventoryRequest(
+      "remove_stock",
+      `/stock/${encodeURIComponent(productId)}`,
+      "DELETE"
+    );
+  }
+
+  // Runs an inventory request with retries and the circuit breaker, resolving with
+  // the response status and body (undefined for 204, 404 and 412).
+  private async inventoryRequest<T>(
+    operation: string,
+    path: string,
+    method?: "PUT" | "DELETE",
+    body?: string,
+    headers?: { [name: string]: string }
+  ): Promise<{ status: number; body: T | undefined }> {
+    try {
+      return await this.breaker.execute(() =>
+        this.requestWithRetry(() =>
+          this.timedRequest(
+            operation,
+            `${this.config.baseUrl}${path}`,
+            body,
+            (status, responseBody) => ({
+              outcome:
+                status === 404
+                  ? "not_found"
+                  : status === 412
+                    ? "precondition_failed"
+                    : "success",
+              result: { status: status, body: responseBody as T | undefined },
+            }),
+            method,
+            headers
+          )
+        )
+      );
+    } catch (error) {
+      throw new StockServiceUnavailableError(
+        this.recordFailure(operation, error)
+      );
+    }
+  }
+
+  // Counts a request that failed for good and returns the reason to report.
+  private recordFailure(operation: string, error: unknown): string {
+    const reason =
+      error instanceof CircuitOpenError
+        ? "circuit_open"
+        : error instanceof StockRequestError
+          ? error.reason
+          : "unknown";
+    downstreamFailureCounter.inc({
+      service: "stock",
+      operation: operation,
+      reason: reason,
+    });
+    return reason;
+  }
+
+  private async requestWithRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const retryable = error instanceof StockRequestError && error.retryable;
+        if (!retryable || attempt >= this.config.retries) {
+          throw error;
+        }
+        await delay(this.config.retryDelayMs * Math.pow(2, attempt));
+      }
+    }
+  }
+
+  private async requestOnce(productId: string): Promise<StockLookup> {
+    return this.timedRequest<StockLookup>(
+      "get_stock",
+      `${this.config.baseUrl}/stock/${encodeURIComponent(productId)}`,
+      undefined,
+      (status, body) => {
+        if (status === 404) {
+          return { outcome: "not_found", result: { status: "not_found" } };
+        }
+        const level = body as Partial<StockLevel>;
+        if (typeof level.quantity !== "number") {
+          throw new StockRequestError("invalid_response", false);
+        }
+        return {
+          outcome: "success",
+          result: { status: "found", quantity: level.quantity },
+        };
+      }
+    );
+  }
+
+  private async requestBatchOnce(productIds: string[]): Promise<StockBatch> {
+    return this.timedRequest(
+      "batch_get_stock",
+      `${this.config.baseUrl}/stock/batch-get`,
+      JSON.stringify({ productIds: productIds }),
+      (status, body) => {
+        const batch = body as Partial<StockBatch>;
+        if (
+          status === 404 ||
+          !Array.isArray(batch.data) ||
+          batch.data.some((level) => typeof level.quantity !== "number")
+        ) {
+          throw new StockRequestError(
+            status === 404 ? "http_404" : "invalid_response",
+            false
+          );
+        }
+        return { outcome: "success", result: batch as StockBatch };
+      }
+    );
+  }
+
+  // Runs one HTTP attempt with a timeout and records its latency by outcome. 5xx
+  // answers, timeouts and network errors become retryable StockRequestErrors; 2xx,
+  // 404 and 412 answers are handed to `parse` (with the body for 200). Requests with
+  // a body are POSTs unless another method is given. Each attempt is a client span
+  // whose context is sent along, so the stock service continues the trace.
+  private timedRequest<T>(
+    operation: string,
+    url: string,
+    body: string | undefined,
+    parse: (status: number, body: unknown) => { outcome: string; result: T },
+    method?: "PUT" | "DELETE",
+    extraHeaders: { [name: string]: string } = {}
+  ): Promise<T> {
+    const httpMethod = method || (body === undefined ? "GET" : "POST");
+    return getTracer().trace(
+      `stock-service ${operation}`,
+      async (span) => {
+        span.setAttribute("http.method", httpMethod);
+        span.setAttribute("http.url", url);
+
+        const controller = new AbortController();
+        const timer = setTimeout(
+          () => controller.abort(),
+          this.config.timeoutMs
+        );
+        const end = downstreamRequestDuration.startTimer({
+          service: "stock",
+          operation: operation,
+        });
+
+        // Forward the request ID, so the stock service's logs line up with ours.
+        const headers: { [name: string]: string } = injectTraceHeaders({
+          ...extraHeaders,
+        });
+        const requestId = currentRequestId();
+        if (requestId) {
+          headers["X-Request-Id"] = requestId;
+        }
+
+        try {
+          const response = await this.fetchImpl(
+            url,
+            body === undefined
+              ? { signal: controller.signal, method: method, headers: headers }
+              : {
+                  signal: controller.signal,
+                  method: method || "POST",
+                  headers: { ...headers, "Content-Type": "application/json" },
+                  body: body,
+                }
+          );
+          span.setAttribute("http.status_code", response.status);
+          if (response.status >= 500) {
+            throw new StockRequestError("http_5xx", true);
+          }
+          if (
+            response.status !== 404 &&
+            response.status !== 412 &&
+            (response.status < 200 || response.status >= 300)
+          ) {
+            throw new StockRequestError(`http_${response.status}`, false);
+          }
+          const parsed = parse(
+            response.status,
+            response.status === 200 ? await response.json() : undefined
+          );
+          end({ outcome: parsed.outcome });
+          return parsed.result;
+        } catch (error) {
+          const failure =
+            error instanceof StockRequestError
+              ? error
+              : new StockRequestError(
+                  controller.signal.aborted ? "timeout" : "network",
+                  true
+                );
+          end({ outcome: failure.reason });
+          throw failure;
+        } finally {
+          clearTimeout(timer);
+        }
+      },
+      "client"
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// --- Shared Data Model ---
+
+// Defines the data structure for a Product object using a TypeScript interface for type safety.
+export interface Product {
+  id: string;
+  name: string;
+  description: string;
+  detailedDescription?: string;
+  imageUrl: string;
+  price: number;
+  stockQuantity: number;
+  // The slug of the Category this product belongs to.
+  category: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Set when the product has been moved to the trash (soft delete). Trashed products
+  // are hidden from normal reads until they are restored or purged.
+  deletedAt?: Date;
+}
+
+// A product category. Products reference their category by slug, which is the stable,
+// lowercase identifier ("home-office"), while name is what the UI shows ("Home Office").
+export interface Category {
+  slug: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
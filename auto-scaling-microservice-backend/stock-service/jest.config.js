@@ -2,6 +2,11 @@ module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
   roots: ["<rootDir>/src"],
+  // ../shared sits outside this package, so its imports would otherwise resolve to the
+  // Product Service's node_modules and register metrics in a second prom-client.
+  moduleNameMapper: {
+    "^prom-client$": "<rootDir>/node_modules/prom-client",
+  },
   testMatch: [
     "**/__tests__/**/*.+(ts|tsx|js)",
     "**/?(*.)+(spec|test).+(ts|tsx|js)",
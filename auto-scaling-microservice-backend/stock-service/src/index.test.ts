@@ -1,11 +1,56 @@
 // stock-service/src/index.test.ts
 import { Request, Response } from "express";
-import {
+import app, {
   getStockByProductIdHandler,
   updateStockHandler,
   listAllStockHandler,
   stockLevels,
-} from "./index"; // ./index.ts'ten
+  productEventHandler,
+  setProcessedEventStore,
+  createReservationHandler,
+  commitReservationHandler,
+  releaseReservationHandler,
+  sweepExpiredReservations,
+  setReservationStore,
+  adjustStockHandler,
+  listStockMovementsHandler,
+  verifyStockMovementsHandler,
+  setMovementLedger,
+  reorderThresholds,
+  setReorderThresholdHandler,
+  deleteReorderThresholdHandler,
+  setThresholdStore,
+  setWebhookNotifier,
+  batchGetStockHandler,
+  deleteStockHandler,
+  adjustmentIdempotency,
+  setIdempotencyStore,
+  lifecycle,
+} from "./index";
+import {
+  FileIdempotencyStore,
+  InMemoryIdempotencyStore,
+} from "../../shared/idempotency";
+import { EventEmitter } from "events";
+import { WebhookNotifier } from "./webhooks";
+import { metricsHandler } from "../../shared/instrumentation";
+import { Logger } from "../../shared/logger";
+import { InMemoryMovementLedger } from "./movementLedger";
+import { ReservationStore } from "./reservations"; // ./index.ts'ten
+import {
+  FileProcessedEventStore,
+  InMemoryProcessedEventStore,
+} from "./processedEvents";
+import {
+  InMemoryThresholdStore,
+  createThresholdStore,
+} from "./reorderThresholds";
+import { InMemorySpanExporter, Tracer, setTracer } from "../../shared/tracing";
+import { AddressInfo } from "net";
+import http from "http";
+import fs from "fs";
+import os from "os";
+import path from "path";
 
 describe("Stock Service Handlers", () => {
   describe("getStockByProductIdHandler", () => {
@@ -48,6 +93,8 @@ describe("Stock Service Handlers", () => {
       expect(responseJsonPayload).toEqual({
         productId: testProductId,
         quantity: initialStock,
+        reserved: 0,
+        available: initialStock,
       });
     });
 
@@ -80,6 +127,7 @@ describe("Stock Service Handlers", () => {
         delete stockLevels[key];
       }
       stockLevels[existingProductId] = 20;
+      setReservationStore(new ReservationStore());
 
       mockRequest = {
         params: {},
@@ -111,6 +159,63 @@ describe("Stock Service Handlers", () => {
       expect(stockLevels[existingProductId]).toBe(25);
     });
 
+    it("should only create stock with If-None-Match: * and return 412 for an existing record", () => {
+      mockRequest.headers = { "if-none-match": "*" };
+      mockRequest.body = { quantity: 10 };
+
+      mockRequest.params = { productId: existingProductId };
+      updateStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(412);
+      expect(stockLevels[existingProductId]).toBe(20);
+
+      mockRequest.params = { productId: newProductId };
+      updateStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(stockLevels[newProductId]).toBe(10);
+    });
+
+    it("should return 409 when the quantity is below the reserved units", () => {
+      const reservationStore = new ReservationStore();
+      reservationStore.add({
+        id: "r1",
+        productId: existingProductId,
+        quantity: 5,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60000),
+      });
+      setReservationStore(reservationStore);
+      mockRequest.params = { productId: existingProductId };
+
+      mockRequest.body = { quantity: 4 };
+      updateStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(responseJsonPayload.message).toBe(
+        `Quantity 4 is below the 5 units reserved for product ID ${existingProductId}.`
+      );
+      expect(stockLevels[existingProductId]).toBe(20);
+
+      mockRequest.body = { quantity: 5 };
+      updateStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(stockLevels[existingProductId]).toBe(5);
+    });
+
     it("should create stock for a new productId and return 200 (upsert behavior)", () => {
       mockRequest.params = { productId: newProductId };
       mockRequest.body = { quantity: 10 };
@@ -177,6 +282,48 @@ describe("Stock Service Handlers", () => {
       );
     });
   });
+  describe("deleteStockHandler", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      stockLevels["product-gone"] = 4;
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    it("should remove the stock record and return 204", () => {
+      deleteStockHandler(
+        { params: { productId: "product-gone" } } as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+      expect(stockLevels["product-gone"]).toBeUndefined();
+    });
+
+    it("should return 404 if productId does not exist in stockLevels", () => {
+      deleteStockHandler(
+        { params: { productId: "product-unknown" } } as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(responseJsonPayload.message).toBe(
+        "Stock information not found for product ID: product-unknown"
+      );
+    });
+  });
   describe("listAllStockHandler", () => {
     let mockRequest: Partial<Request>;
     let mockResponse: Partial<Response>;
@@ -268,6 +415,50 @@ describe("Stock Service Handlers", () => {
       expect(responseJsonPayload.pagination.totalPages).toBe(3);
     });
 
+    it("should page through stock records with cursors ordered by productId", () => {
+      mockRequest.query = { cursor: "", limit: "2" };
+      listAllStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+      const firstPage = responseJsonPayload;
+
+      // A record created before the cursor position must not shift the next page.
+      stockLevels["product-000"] = 5;
+      mockRequest.query = {
+        cursor: firstPage.pagination.nextCursor,
+        limit: "2",
+      };
+      listAllStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      expect(firstPage.data).toEqual([
+        { productId: "product-aaa", quantity: 10 },
+        { productId: "product-bbb", quantity: 20 },
+      ]);
+      expect(responseJsonPayload.data).toEqual([
+        { productId: "product-ccc", quantity: 30 },
+        { productId: "product-ddd", quantity: 40 },
+      ]);
+      expect(responseJsonPayload.pagination.hasNextPage).toBe(true);
+    });
+
+    it("should return 400 if cursor is invalid", () => {
+      mockRequest.query = { cursor: "garbage" };
+      listAllStockHandler(
+        mockRequest as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe("Invalid cursor.");
+    });
+
     it("should return 400 if page parameter is invalid", () => {
       mockRequest.query = { page: "invalid" };
       listAllStockHandler(
@@ -282,4 +473,950 @@ describe("Stock Service Handlers", () => {
       );
     });
   });
+
+  describe("productEventHandler", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+
+    const send = (body: any) =>
+      productEventHandler(
+        { body } as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      setProcessedEventStore(new InMemoryProcessedEventStore());
+      setMovementLedger(new InMemoryMovementLedger());
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    it("should initialize stock from product.created and keep existing quantities on product.updated", () => {
+      send({
+        id: "evt-1",
+        type: "product.created",
+        productId: "p1",
+        data: { stockQuantity: 12 },
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload).toEqual({
+        eventId: "evt-1",
+        status: "applied",
+      });
+      expect(stockLevels["p1"]).toBe(12);
+
+      send({
+        id: "evt-2",
+        type: "product.updated",
+        productId: "p1",
+        data: { stockQuantity: 99 },
+      });
+      expect(stockLevels["p1"]).toBe(12);
+    });
+
+    it("should remove the stock record on product.deleted", () => {
+      stockLevels["p1"] = 5;
+
+      send({ id: "evt-3", type: "product.deleted", productId: "p1" });
+
+      expect(responseJsonPayload.status).toBe("applied");
+      expect(stockLevels["p1"]).toBeUndefined();
+    });
+
+    it("should bring back the quantity held before deletion on product.restored", () => {
+      send({
+        id: "evt-6",
+        type: "product.created",
+        productId: "p1",
+        data: { stockQuantity: 12 },
+      });
+      stockLevels["p1"] = 7; // e.g. after sales; the removal records this quantity
+      send({ id: "evt-7", type: "product.deleted", productId: "p1" });
+
+      send({
+        id: "evt-8",
+        type: "product.restored",
+        productId: "p1",
+        data: { stockQuantity: 12 },
+      });
+
+      expect(responseJsonPayload.status).toBe("applied");
+      expect(stockLevels["p1"]).toBe(7);
+    });
+
+    it("should seed a restored product it never saw deleted from the catalog", () => {
+      send({
+        id: "evt-9",
+        type: "product.restored",
+        productId: "p2",
+        data: { stockQuantity: 3 },
+      });
+
+      expect(stockLevels["p2"]).toBe(3);
+    });
+
+    it("should treat a redelivered event as a duplicate", () => {
+      const event = {
+        id: "evt-4",
+        type: "product.created",
+        productId: "p1",
+        data: { stockQuantity: 3 },
+      };
+      send(event);
+      stockLevels["p1"] = 1; // changed by a stock update in between
+
+      send(event);
+
+      expect(responseJsonPayload).toEqual({
+        eventId: "evt-4",
+        status: "duplicate",
+      });
+      expect(stockLevels["p1"]).toBe(1);
+    });
+
+    it("should recognize a redelivery after a restart when the ids are persisted", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "processed-events-"));
+      const filePath = path.join(dir, "processed-events.log");
+      try {
+        const event = { id: "evt-5", type: "product.deleted", productId: "p1" };
+        setProcessedEventStore(new FileProcessedEventStore(filePath));
+        send(event);
+        stockLevels["p1"] = 4; // created again by a later event
+
+        // A new store reading the same file stands in for the restarted service.
+        setProcessedEventStore(new FileProcessedEventStore(filePath));
+        send(event);
+
+        expect(responseJsonPayload.status).toBe("duplicate");
+        expect(stockLevels["p1"]).toBe(4);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should return 400 if the event has no id", () => {
+      send({ type: "product.created", productId: "p1" });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe('Missing "id" in event body.');
+    });
+  });
+
+  describe("reservations", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+    let now: Date;
+
+    const productId = "product-res-1";
+
+    const call = (handler: any, request: Partial<Request>) =>
+      handler(
+        { params: {}, body: {}, ...request } as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+    const reserve = (quantity: number, ttlSeconds?: number) => {
+      call(createReservationHandler, {
+        params: { productId },
+        body: { quantity, ttlSeconds },
+      });
+      return responseJsonPayload;
+    };
+
+    const stockOf = () => {
+      call(getStockByProductIdHandler, { params: { productId } });
+      return responseJsonPayload;
+    };
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      stockLevels[productId] = 10;
+      now = new Date("2025-01-01T00:00:00.000Z");
+      setReservationStore(new ReservationStore(() => now));
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    it("should hold units and report them as reserved", () => {
+      const reservation = reserve(4);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(reservation).toMatchObject({ productId, quantity: 4 });
+      expect(stockOf()).toEqual({
+        productId,
+        quantity: 10,
+        reserved: 4,
+        available: 6,
+      });
+    });
+
+    it("should return 409 if not enough stock is available", () => {
+      reserve(8);
+
+      reserve(3);
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(409);
+      expect(responseJsonPayload.message).toBe(
+        `Insufficient stock for product ID ${productId}: requested 3, available 2.`
+      );
+    });
+
+    it("should return 400 if quantity is not a positive integer", () => {
+      reserve(0);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        '"quantity" must be a positive integer.'
+      );
+    });
+
+    it("should deduct committed units from the on-hand quantity", () => {
+      const reservation = reserve(4);
+
+      call(commitReservationHandler, {
+        params: { productId, reservationId: reservation.id },
+      });
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(responseJsonPayload).toEqual({
+        productId,
+        quantity: 6,
+        reserved: 0,
+        available: 6,
+      });
+    });
+
+    it("should return 409 and keep the reservation if the held units are gone", () => {
+      const reservation = reserve(4);
+      const params = { productId, reservationId: reservation.id };
+      // Writes refuse to take reserved units, so set the level directly.
+      stockLevels[productId] = 3;
+
+      call(commitReservationHandler, { params });
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(409);
+      expect(responseJsonPayload.message).toBe(
+        `Cannot commit reservation '${reservation.id}': it holds 4 units but only 3 are on hand for product ID ${productId}.`
+      );
+      expect(stockLevels[productId]).toBe(3);
+      expect(stockOf().reserved).toBe(4);
+    });
+
+    it("should release a reservation and return 404 afterwards", () => {
+      const reservation = reserve(4);
+      const params = { productId, reservationId: reservation.id };
+
+      call(releaseReservationHandler, { params });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(204);
+      expect(stockOf().available).toBe(10);
+
+      call(commitReservationHandler, { params });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(404);
+    });
+
+    it("should stop holding expired reservations and refuse to commit them", () => {
+      const expiring = reserve(4, 60);
+      reserve(2, 600);
+      now = new Date("2025-01-01T00:01:00.000Z");
+
+      expect(stockOf().reserved).toBe(2);
+      call(commitReservationHandler, {
+        params: { productId, reservationId: expiring.id },
+      });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(410);
+      expect(stockLevels[productId]).toBe(10);
+    });
+
+    it("should sweep expired reservations", () => {
+      reserve(4, 60);
+      reserve(2, 600);
+      now = new Date("2025-01-01T00:05:00.000Z");
+
+      expect(sweepExpiredReservations()).toBe(1);
+      expect(sweepExpiredReservations()).toBe(0);
+    });
+  });
+
+  describe("adjustStockHandler", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+
+    const productId = "product-adj-1";
+
+    const adjust = (body: any, id: string = productId) =>
+      adjustStockHandler(
+        { params: { productId: id }, body } as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      stockLevels[productId] = 10;
+      setReservationStore(new ReservationStore());
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    it("should apply consecutive adjustments on top of each other", () => {
+      adjust({ delta: -3, reason: "sale" });
+      adjust({ delta: 5, reason: "restock" });
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(responseJsonPayload).toEqual({
+        productId,
+        quantity: 12,
+        reserved: 0,
+        available: 12,
+        delta: 5,
+        reason: "restock",
+      });
+      expect(stockLevels[productId]).toBe(12);
+    });
+
+    it("should create a stock record when restocking an untracked product", () => {
+      adjust({ delta: 4, reason: "restock" }, "product-new");
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(stockLevels["product-new"]).toBe(4);
+    });
+
+    it("should return 409 and leave stock unchanged if the result would be negative", () => {
+      adjust({ delta: -11, reason: "sale" });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(responseJsonPayload.message).toBe(
+        `Adjustment would make stock negative for product ID ${productId}: current 10, delta -11.`
+      );
+      expect(stockLevels[productId]).toBe(10);
+    });
+
+    it("should return 409 if a decrease would take units held by a reservation", () => {
+      createReservationHandler(
+        { params: { productId }, body: { quantity: 8 } } as unknown as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      adjust({ delta: -3, reason: "sale" });
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(409);
+      expect(responseJsonPayload.message).toBe(
+        `Adjustment would take reserved stock for product ID ${productId}: available 2, delta -3.`
+      );
+      expect(stockLevels[productId]).toBe(10);
+
+      adjust({ delta: -2, reason: "sale" });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(stockLevels[productId]).toBe(8);
+    });
+
+    it("should return 400 for an unknown reason, a mismatched sign or a fractional delta", () => {
+      adjust({ delta: 1, reason: "gift" });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        '"reason" must be one of: sale, restock, return, correction.'
+      );
+
+      adjust({ delta: 2, reason: "sale" });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        'A "sale" must have a negative delta.'
+      );
+
+      adjust({ delta: 1.5, reason: "restock" });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        '"delta" must be a non-zero integer.'
+      );
+    });
+  });
+
+  describe("stock movements", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+    let ledger: InMemoryMovementLedger;
+
+    const productId = "product-mov-1";
+
+    const call = (handler: any, request: any) =>
+      handler(
+        { params: { productId }, query: {}, headers: {}, body: {}, ...request },
+        mockResponse as Response,
+        jest.fn()
+      );
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      ledger = new InMemoryMovementLedger();
+      setMovementLedger(ledger);
+      setReservationStore(new ReservationStore());
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    it("should record every change with its delta, resulting quantity and request id", () => {
+      call(updateStockHandler, { body: { quantity: 10 } });
+      call(adjustStockHandler, {
+        body: { delta: -3, reason: "sale" },
+        headers: { "x-request-id": "req-42" },
+      });
+
+      call(listStockMovementsHandler, {});
+
+      expect(mockResponse.status).toHaveBeenLastCalledWith(200);
+      expect(responseJsonPayload.pagination.totalItems).toBe(2);
+      expect(responseJsonPayload.data[0]).toMatchObject({
+        productId,
+        delta: 10,
+        resultingQuantity: 10,
+        reason: "overwrite",
+      });
+      expect(responseJsonPayload.data[1]).toMatchObject({
+        delta: -3,
+        resultingQuantity: 7,
+        reason: "sale",
+        requestId: "req-42",
+      });
+    });
+
+    it("should filter movements by date range and paginate them", () => {
+      const at = (iso: string) => new Date(iso);
+      ["2025-01-01", "2025-01-02", "2025-01-03", "2025-01-04"].forEach(
+        (day, index) =>
+          ledger.append({
+            id: `m${index}`,
+            productId,
+            delta: 1,
+            resultingQuantity: index + 1,
+            reason: "restock",
+            occurredAt: at(`${day}T12:00:00.000Z`),
+            requestId: "test",
+          })
+      );
+
+      call(listStockMovementsHandler, {
+        query: {
+          from: "2025-01-02T00:00:00.000Z",
+          to: "2025-01-04T00:00:00.000Z",
+          limit: "1",
+          page: "2",
+        },
+      });
+
+      expect(responseJsonPayload.data.map((m: any) => m.id)).toEqual(["m2"]);
+      expect(responseJsonPayload.pagination).toMatchObject({
+        totalItems: 2,
+        totalPages: 2,
+        hasNextPage: false,
+        hasPreviousPage: true,
+      });
+    });
+
+    it("should return 400 for an invalid date", () => {
+      stockLevels[productId] = 1;
+
+      call(listStockMovementsHandler, { query: { from: "yesterday" } });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        '"from" and "to" must be valid ISO 8601 timestamps.'
+      );
+    });
+
+    it("should recompute the quantity from the ledger and detect drift", () => {
+      call(updateStockHandler, { body: { quantity: 10 } });
+      call(adjustStockHandler, { body: { delta: 5, reason: "restock" } });
+
+      call(verifyStockMovementsHandler, {});
+      expect(responseJsonPayload).toEqual({
+        productId,
+        quantity: 15,
+        ledgerQuantity: 15,
+        movementCount: 2,
+        consistent: true,
+      });
+
+      stockLevels[productId] = 99; // a write that bypassed the ledger
+      call(verifyStockMovementsHandler, {});
+      expect(responseJsonPayload.consistent).toBe(false);
+    });
+  });
+
+  describe("reorder thresholds", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+    let notify: jest.Mock;
+    let thresholdStore: InMemoryThresholdStore;
+
+    const productId = "product-low-1";
+
+    const call = (handler: any, request: any) =>
+      handler(
+        { params: { productId }, query: {}, headers: {}, body: {}, ...request },
+        mockResponse as Response,
+        jest.fn()
+      );
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      for (const key in reorderThresholds) {
+        delete reorderThresholds[key];
+      }
+      stockLevels[productId] = 10;
+      stockLevels["product-plenty"] = 100;
+      setReservationStore(new ReservationStore());
+      thresholdStore = new InMemoryThresholdStore();
+      setThresholdStore(thresholdStore);
+      notify = jest.fn().mockResolvedValue(true);
+      setWebhookNotifier({ notify } as unknown as WebhookNotifier);
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    afterEach(() => {
+      setWebhookNotifier(undefined);
+      jest.restoreAllMocks();
+    });
+
+    it("should notify once when stock drops below the threshold and once when it recovers", () => {
+      call(setReorderThresholdHandler, { body: { threshold: 5 } });
+      expect(responseJsonPayload.reorderThreshold).toBe(5);
+
+      call(adjustStockHandler, { body: { delta: -6, reason: "sale" } });
+      call(adjustStockHandler, { body: { delta: -1, reason: "sale" } });
+      call(adjustStockHandler, { body: { delta: 10, reason: "restock" } });
+
+      expect(notify).toHaveBeenCalledTimes(2);
+      expect(notify.mock.calls[0][0]).toMatchObject({
+        type: "stock.low",
+        productId,
+        quantity: 4,
+        reorderThreshold: 5,
+      });
+      expect(notify.mock.calls[1][0]).toMatchObject({
+        type: "stock.replenished",
+        quantity: 13,
+      });
+    });
+
+    it("should notify when a new threshold puts current stock below it", () => {
+      call(setReorderThresholdHandler, { body: { threshold: 20 } });
+
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify.mock.calls[0][0].type).toBe("stock.low");
+    });
+
+    it("should list only products below their threshold", () => {
+      reorderThresholds[productId] = 20;
+      reorderThresholds["product-plenty"] = 20;
+
+      call(listAllStockHandler, { query: { belowThreshold: "true" } });
+
+      expect(responseJsonPayload.data).toEqual([
+        { productId, quantity: 10, reorderThreshold: 20 },
+      ]);
+    });
+
+    it("should persist thresholds as they are set and removed", () => {
+      call(setReorderThresholdHandler, { body: { threshold: 5 } });
+      expect(thresholdStore.load()).toEqual({ [productId]: 5 });
+
+      call(deleteReorderThresholdHandler, {});
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+      expect(thresholdStore.load()).toEqual({});
+    });
+
+    it("should store thresholds next to the ledger file and read them back", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "thresholds-"));
+      try {
+        const env = { STOCK_LEDGER_FILE: path.join(dir, "ledger.jsonl") };
+        createThresholdStore(env).save({ [productId]: 7 });
+
+        expect(fs.existsSync(path.join(dir, "reorder-thresholds.json"))).toBe(
+          true
+        );
+        expect(createThresholdStore(env).load()).toEqual({ [productId]: 7 });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should keep the threshold unchanged if it cannot be saved", () => {
+      reorderThresholds[productId] = 5;
+      jest.spyOn(thresholdStore, "save").mockImplementation(() => {
+        throw new Error("disk full");
+      });
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+      call(setReorderThresholdHandler, { body: { threshold: 8 } });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(reorderThresholds[productId]).toBe(5);
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 if threshold is not a non-negative integer", () => {
+      call(setReorderThresholdHandler, { body: { threshold: -1 } });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        '"threshold" must be a non-negative integer.'
+      );
+    });
+  });
+
+  describe("batch stock lookup", () => {
+    let mockResponse: Partial<Response>;
+    let responseJsonPayload: any;
+
+    const call = (handler: any, request: any) =>
+      handler(
+        { params: {}, query: {}, headers: {}, body: {}, ...request },
+        mockResponse as Response,
+        jest.fn()
+      );
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      for (const key in reorderThresholds) {
+        delete reorderThresholds[key];
+      }
+      stockLevels["a"] = 1;
+      stockLevels["c"] = 3;
+      setReservationStore(new ReservationStore());
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockImplementation((payload) => {
+          responseJsonPayload = payload;
+        }),
+      };
+    });
+
+    it("should return found levels and list missing ids in notFound (GET)", () => {
+      call(listAllStockHandler, { query: { productIds: "c,b,a,c" } });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseJsonPayload).toEqual({
+        data: [
+          { productId: "c", quantity: 3, reserved: 0, available: 3 },
+          { productId: "a", quantity: 1, reserved: 0, available: 1 },
+        ],
+        notFound: ["b"],
+      });
+    });
+
+    it("should look up the ids in the request body (POST)", () => {
+      call(batchGetStockHandler, { body: { productIds: ["a", "x"] } });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(
+        responseJsonPayload.data.map((item: any) => item.productId)
+      ).toEqual(["a"]);
+      expect(responseJsonPayload.notFound).toEqual(["x"]);
+    });
+
+    it("should return 400 for an empty or oversized batch", () => {
+      call(batchGetStockHandler, { body: { productIds: [] } });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        "At least one product ID is required."
+      );
+
+      const tooMany = Array.from({ length: 101 }, (_, i) => `p${i}`);
+      call(listAllStockHandler, { query: { productIds: tooMany.join(",") } });
+      expect(mockResponse.status).toHaveBeenLastCalledWith(400);
+      expect(responseJsonPayload.message).toBe(
+        "At most 100 product IDs can be looked up at once."
+      );
+    });
+  });
+
+  describe("metricsHandler", () => {
+    it("should expose inventory gauges computed from stockLevels", async () => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      stockLevels["a"] = 5;
+      stockLevels["b"] = 0;
+      stockLevels["c"] = 8;
+      let body = "";
+      const mockResponse: Partial<Response> = {
+        set: jest.fn().mockReturnThis(),
+        status: jest.fn().mockReturnThis(),
+        end: jest.fn().mockImplementation((payload) => {
+          body = payload;
+        }) as any,
+      };
+
+      await metricsHandler(new Logger("stock-service"))(
+        {} as Request,
+        mockResponse as Response,
+        jest.fn()
+      );
+
+      expect(body).toContain("stock_units_on_hand 13");
+      expect(body).toContain("stock_tracked_products 3");
+      expect(body).toContain("stock_zero_stock_products 1");
+      expect(body).toContain("http_requests_total");
+    });
+  });
+
+  describe("idempotent adjustments", () => {
+    // Runs an adjustment through the idempotency middleware and the handler, and
+    // resolves once the response went out (the middleware stores it first).
+    const adjust = async (key: string, body: any) => {
+      const req = {
+        method: "POST",
+        originalUrl: "/stock/product-idem/adjustments",
+        params: { productId: "product-idem" },
+        headers: {},
+        body: body,
+        get: (name: string) =>
+          name.toLowerCase() === "idempotency-key" ? key : undefined,
+      } as unknown as Request;
+      const res: any = new EventEmitter();
+      res.statusCode = 200;
+      res.headers = {};
+      res.status = (code: number) => {
+        res.statusCode = code;
+        return res;
+      };
+      res.set = (name: any, value?: string) => {
+        const headers = typeof name === "string" ? { [name]: value } : name;
+        Object.keys(headers).forEach((h) => {
+          res.headers[h.toLowerCase()] = headers[h];
+        });
+        return res;
+      };
+      res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+      res.json = (payload: unknown) => {
+        res.body = payload;
+        res.writableFinished = true;
+        res.emit("finish");
+        return res;
+      };
+      const finished = new Promise((resolve) => res.once("finish", resolve));
+      await adjustmentIdempotency(req, res, () =>
+        adjustStockHandler(req, res, jest.fn())
+      );
+      await finished;
+      return res;
+    };
+
+    beforeEach(() => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      stockLevels["product-idem"] = 10;
+      setIdempotencyStore(
+        new InMemoryIdempotencyStore({ ttlSeconds: 60, maxEntries: 100 })
+      );
+    });
+
+    it("should apply a retried adjustment only once", async () => {
+      await adjust("sale-1", { delta: -2, reason: "sale" });
+      const retry = await adjust("sale-1", { delta: -2, reason: "sale" });
+
+      expect(stockLevels["product-idem"]).toBe(8);
+      expect(retry.statusCode).toBe(200);
+      expect(retry.body.quantity).toBe(8);
+      expect(retry.headers["idempotent-replayed"]).toBe("true");
+    });
+
+    it("should return 409 when the key is reused with a different body", async () => {
+      await adjust("sale-2", { delta: -2, reason: "sale" });
+      const conflict = await adjust("sale-2", { delta: -3, reason: "sale" });
+
+      expect(conflict.statusCode).toBe(409);
+      expect(stockLevels["product-idem"]).toBe(8);
+    });
+
+    it("should replay a retry on a second instance sharing the key file", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "idempotency-"));
+      const filePath = path.join(dir, "idempotency-keys.json");
+      const config = { ttlSeconds: 60, maxEntries: 100 };
+      try {
+        setIdempotencyStore(new FileIdempotencyStore(filePath, config));
+        await adjust("sale-3", { delta: -2, reason: "sale" });
+        setIdempotencyStore(new FileIdempotencyStore(filePath, config));
+        const retry = await adjust("sale-3", { delta: -2, reason: "sale" });
+
+        expect(stockLevels["product-idem"]).toBe(8);
+        expect(retry.body.quantity).toBe(8);
+        expect(retry.headers["idempotent-replayed"]).toBe("true");
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  // Goes through the real app, so the logging and tracing middleware are exercised as
+  // registered rather than called by hand.
+  describe("request ID and trace propagation", () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentSpanId = "00f067aa0ba902b7";
+    let server: http.Server;
+    let exporter: InMemorySpanExporter;
+    let logLines: any[];
+
+    // Sends a GET to the running app and collects the status, headers and JSON body.
+    const get = (path: string, headers: http.OutgoingHttpHeaders) =>
+      new Promise<{
+        status: number;
+        headers: http.IncomingHttpHeaders;
+        body: any;
+      }>((resolve, reject) => {
+        const { port } = server.address() as AddressInfo;
+        http
+          .get({ port: port, path: path, headers: headers }, (res) => {
+            let raw = "";
+            res.setEncoding("utf8");
+            res.on("data", (chunk: string) => (raw += chunk));
+            res.on("end", () =>
+              resolve({
+                status: res.statusCode as number,
+                headers: res.headers,
+                body: JSON.parse(raw),
+              })
+            );
+          })
+          .on("error", reject);
+      });
+
+    beforeEach(async () => {
+      for (const key in stockLevels) {
+        delete stockLevels[key];
+      }
+      stockLevels["traced-product"] = 7;
+      exporter = new InMemorySpanExporter();
+      setTracer(new Tracer("stock-service", exporter));
+      logLines = [];
+      const capture = (line: string) => {
+        logLines.push(JSON.parse(line));
+      };
+      jest.spyOn(console, "log").mockImplementation(capture);
+      jest.spyOn(console, "error").mockImplementation(capture);
+      await new Promise<void>((resolve) => {
+        server = app.listen(0, () => resolve());
+      });
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should echo the caller's X-Request-Id and continue its trace", async () => {
+      const res = await get("/stock/traced-product", {
+        "X-Request-Id": "req-from-product-service",
+        traceparent: `00-${traceId}-${parentSpanId}-01`,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        productId: "traced-product",
+        quantity: 7,
+      });
+      expect(res.headers["x-request-id"]).toBe("req-from-product-service");
+      expect(exporter.spans[0]).toMatchObject({
+        name: "GET /stock/:productId",
+        kind: "server",
+        traceId: traceId,
+        parentSpanId: parentSpanId,
+        attributes: {
+          "http.route": "/stock/:productId",
+          "http.status_code": 200,
+          "request.id": "req-from-product-service",
+        },
+      });
+      expect(logLines).toContainEqual(
+        expect.objectContaining({
+          service: "stock-service",
+          message: "Request completed",
+          requestId: "req-from-product-service",
+          route: "/stock/:productId",
+          status: 200,
+        })
+      );
+    });
+
+    it("should add a generated request ID to error bodies and start a new trace", async () => {
+      const res = await get("/stock/unknown-product", {});
+
+      expect(res.status).toBe(404);
+      expect(res.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(res.body.requestId).toBe(res.headers["x-request-id"]);
+      expect(exporter.spans[0].traceId).not.toBe(traceId);
+      expect(exporter.spans[0].parentSpanId).toBeUndefined();
+    });
+  });
+
+  describe("readiness probe", () => {
+    const probe = async () => {
+      const res: any = {};
+      res.status = jest.fn().mockImplementation((code: number) => {
+        res.statusCode = code;
+        return res;
+      });
+      res.json = jest.fn().mockImplementation((payload: unknown) => {
+        res.body = payload;
+        return res;
+      });
+      await lifecycle.readinessHandler(
+        {} as Request,
+        res as Response,
+        jest.fn()
+      );
+      return res;
+    };
+
+    it("should be ready until shutdown begins", async () => {
+      const before = await probe();
+      expect(before.statusCode).toBe(200);
+      expect(before.body).toEqual({ status: "ready", checks: {} });
+
+      lifecycle.beginShutdown();
+      const after = await probe();
+      expect(after.statusCode).toBe(503);
+      expect(after.body.status).toBe("shutting_down");
+    });
+  });
 });
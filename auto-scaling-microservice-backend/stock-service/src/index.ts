@@ -6,14 +6,112 @@ import express, {
 } from "express";
 
 import cors from "cors";
+import { randomUUID } from "crypto";
+import path from "path";
+
+// Import the official Prometheus client for Node.js to create and expose custom metrics.
+import client from "prom-client";
+
+import { readPositiveInt } from "../../shared/env";
+import {
+  IdempotencyStore,
+  createIdempotencyStore,
+  idempotency,
+  readIdempotencyConfig,
+} from "../../shared/idempotency";
+import {
+  collectDefaultMetrics,
+  httpMetricsMiddleware,
+  metricsHandler,
+} from "../../shared/instrumentation";
+import {
+  Lifecycle,
+  installGracefulShutdown,
+  readShutdownConfig,
+} from "../../shared/lifecycle";
+import {
+  Logger,
+  currentRequestId,
+  readLogLevel,
+  requestLogging,
+} from "../../shared/logger";
+import {
+  Tracer,
+  createSpanExporter,
+  getTracer,
+  readTracingConfig,
+  setTracer,
+  tracingMiddleware,
+} from "../../shared/tracing";
+import {
+  FileMovementLedger,
+  InMemoryMovementLedger,
+  MovementLedger,
+  MovementReason,
+  StockMovement,
+  levelsFromMovements,
+  quantityFromMovements,
+} from "./movementLedger";
+import {
+  ThresholdStore,
+  Thresholds,
+  createThresholdStore,
+} from "./reorderThresholds";
+import { Reservation, ReservationStore } from "./reservations";
+import {
+  ProcessedEventStore,
+  createProcessedEventStore,
+} from "./processedEvents";
+import {
+  ThresholdEventType,
+  WebhookNotifier,
+  readWebhookConfig,
+} from "./webhooks";
 
 const app: Application = express();
 
 const port: number = 3001;
 
-app.use(cors()); // Enable CORS for all routes
+// How long a reservation holds stock unless the request asks for a different TTL.
+const defaultReservationTtlSeconds = readPositiveInt(
+  process.env,
+  "STOCK_RESERVATION_TTL_SECONDS",
+  900
+);
+const MAX_RESERVATION_TTL_SECONDS = 86400;
+const reservationSweepIntervalMs = readPositiveInt(
+  process.env,
+  "STOCK_RESERVATION_SWEEP_INTERVAL_MS",
+  5000
+);
+
+// Every request gets an ID (taken from X-Request-Id when the caller sent one) and one
+// JSON log line when it completes. Registered first so even requests rejected by the
+// body parser are logged and answered with their ID.
+const logger = new Logger("stock-service", readLogLevel());
+app.use(requestLogging(logger));
+
+// A server span per request, continuing the caller's traceparent (e.g. the Product
+// Service's stock lookups). TRACING_EXPORTER selects where spans go.
+const tracingConfig = readTracingConfig("stock-service");
+setTracer(
+  new Tracer(
+    tracingConfig.serviceName,
+    createSpanExporter(tracingConfig, logger)
+  )
+);
+app.use(tracingMiddleware(getTracer));
+
+app.use(cors({ exposedHeaders: ["X-Request-Id"] })); // Enable CORS for all routes
 app.use(express.json());
 
+// --- Prometheus Metrics Instrumentation ---
+
+// Default process metrics plus request counts and durations for every route. The
+// middleware must be registered before the routes to ensure it runs for every request.
+collectDefaultMetrics();
+app.use(httpMetricsMiddleware);
+
 interface StockData {
   [productId: string]: number;
 }
@@ -24,8 +122,350 @@ export const stockLevels: StockData = {
   "1fa7b950-5b2f-4742-a995-17c99022dc12": 150, // Wireless Mouse Ergo
 };
 
+// --- Business Metrics ---
+
+// Inventory gauges, computed from stockLevels whenever Prometheus scrapes /metrics.
+new client.Gauge({
+  name: "stock_units_on_hand",
+  help: "Total units on hand across all tracked products",
+  collect() {
+    this.set(
+      Object.keys(stockLevels).reduce(
+        (total, productId) => total + stockLevels[productId],
+        0
+      )
+    );
+  },
+});
+
+new client.Gauge({
+  name: "stock_tracked_products",
+  help: "Number of products with a stock record",
+  collect() {
+    this.set(Object.keys(stockLevels).length);
+  },
+});
+
+new client.Gauge({
+  name: "stock_zero_stock_products",
+  help: "Number of tracked products with no units on hand",
+  collect() {
+    this.set(
+      Object.keys(stockLevels).filter(
+        (productId) => stockLevels[productId] === 0
+      ).length
+    );
+  },
+});
+
+// Reorder thresholds per product: purchasing is notified when a product's quantity
+// drops below its threshold. Products without an entry are never reported.
+export const reorderThresholds: StockData = {};
+
+// Where thresholds are persisted; loaded once on start.
+let thresholdStore: ThresholdStore = createThresholdStore();
+Object.assign(reorderThresholds, thresholdStore.load());
+
+// Replaces the threshold store; tests pass an in-memory one to inspect what is saved.
+export const setThresholdStore = (store: ThresholdStore): void => {
+  thresholdStore = store;
+};
+
+// Saves the thresholds as they will be after a change, then applies it, so a failed
+// write leaves the stored and in-memory thresholds in agreement.
+const updateThreshold = (productId: string, threshold: number | undefined) => {
+  const next: Thresholds = { ...reorderThresholds };
+  if (threshold !== undefined) {
+    next[productId] = threshold;
+  } else {
+    delete next[productId];
+  }
+  thresholdStore.save(next);
+  if (threshold !== undefined) {
+    reorderThresholds[productId] = threshold;
+  } else {
+    delete reorderThresholds[productId];
+  }
+};
+
+// --- Low-Stock Notifications ---
+
+const webhookConfig = readWebhookConfig();
+let webhookNotifier: WebhookNotifier | undefined = webhookConfig
+  ? new WebhookNotifier(webhookConfig, logger)
+  : undefined;
+
+// Replaces the notifier; tests pass a fake, or undefined to turn notifications off.
+export const setWebhookNotifier = (
+  notifier: WebhookNotifier | undefined
+): void => {
+  webhookNotifier = notifier;
+};
+
+const isBelowThreshold = (
+  quantity: number | undefined,
+  threshold: number | undefined
+): boolean =>
+  quantity !== undefined && threshold !== undefined && quantity < threshold;
+
+// Sends stock.low or stock.replenished when a product moved across its threshold,
+// whether because its quantity or its threshold changed. Delivery runs in the
+// background and never fails the request that caused it.
+const notifyThresholdCrossing = (
+  productId: string,
+  wasBelow: boolean,
+  quantity: number | undefined
+): void => {
+  const threshold = reorderThresholds[productId];
+  if (quantity === undefined || threshold === undefined) {
+    return;
+  }
+  const isBelow = isBelowThreshold(quantity, threshold);
+  if (isBelow === wasBelow) {
+    return;
+  }
+  const type: ThresholdEventType = isBelow ? "stock.low" : "stock.replenished";
+  logger.info("Reorder threshold crossed", {
+    productId,
+    type,
+    quantity,
+    threshold,
+  });
+  if (webhookNotifier) {
+    webhookNotifier.notify({
+      type: type,
+      productId: productId,
+      quantity: quantity,
+      reorderThreshold: threshold,
+      occurredAt: new Date(),
+    });
+  }
+};
+
+// Open checkout holds against stockLevels. Replaceable so tests can control the clock.
+let reservations = new ReservationStore();
+
+export const setReservationStore = (store: ReservationStore): void => {
+  reservations = store;
+};
+
+// --- Movement Ledger ---
+
+// Every change of stockLevels is recorded here. With STOCK_LEDGER_FILE set the ledger
+// is an NDJSON file and stock levels survive restarts by being rebuilt from it.
+let movementLedger: MovementLedger = process.env.STOCK_LEDGER_FILE
+  ? new FileMovementLedger(process.env.STOCK_LEDGER_FILE)
+  : new InMemoryMovementLedger();
+
+export const setMovementLedger = (ledger: MovementLedger): void => {
+  movementLedger = ledger;
+};
+
+// The ID the request is logged under (the caller's X-Request-Id when it sent one), so
+// a movement can be traced to its request. Falls back to the header, or a fresh id,
+// when the handler runs outside the logging middleware.
+const requestIdOf = (req: Request): string => {
+  const current = currentRequestId();
+  if (current) {
+    return current;
+  }
+  const header = req.headers ? req.headers["x-request-id"] : undefined;
+  return typeof header === "string" && header !== "" ? header : randomUUID();
+};
+
+// Sets (or, with undefined, removes) a product's on-hand quantity and records the
+// movement in the ledger. All writes to stockLevels go through here.
+const setStockLevel = (
+  req: Request,
+  productId: string,
+  quantity: number | undefined,
+  reason: MovementReason
+): StockMovement => {
+  const wasBelow = isBelowThreshold(
+    stockLevels[productId],
+    reorderThresholds[productId]
+  );
+  const before =
+    stockLevels[productId] !== undefined ? stockLevels[productId] : 0;
+  const after = quantity !== undefined ? quantity : 0;
+  if (quantity === undefined && reorderThresholds[productId] !== undefined) {
+    updateThreshold(productId, undefined);
+  }
+  if (quantity !== undefined) {
+    stockLevels[productId] = quantity;
+  } else {
+    delete stockLevels[productId];
+  }
+  const movement: StockMovement = {
+    id: randomUUID(),
+    productId: productId,
+    delta: after - before,
+    resultingQuantity: after,
+    reason: reason,
+    occurredAt: new Date(),
+    requestId: requestIdOf(req),
+  };
+  getTracer().trace("ledger.append", (span) => {
+    span.setAttribute("stock.product_id", productId);
+    span.setAttribute("stock.reason", reason);
+    movementLedger.append(movement);
+  });
+  notifyThresholdCrossing(productId, wasBelow, quantity);
+  return movement;
+};
+
+// A persisted ledger replaces the seed data; an empty one starts with the seed.
+const recordedMovements = movementLedger.findAll();
+if (recordedMovements.length > 0) {
+  const levels = levelsFromMovements(recordedMovements);
+  Object.keys(stockLevels).forEach((productId) => {
+    delete stockLevels[productId];
+  });
+  Object.keys(levels).forEach((productId) => {
+    stockLevels[productId] = levels[productId];
+  });
+} else {
+  Object.keys(stockLevels).forEach((productId) => {
+    movementLedger.append({
+      id: randomUUID(),
+      productId: productId,
+      delta: stockLevels[productId],
+      resultingQuantity: stockLevels[productId],
+      reason: "initial",
+      occurredAt: new Date(),
+      requestId: "seed",
+    });
+  });
+}
+
+// The stock level of one product as reported to clients: quantity is the on-hand
+// count, reserved the units held by open reservations and available what can still be
+// reserved or sold.
+const stockLevelBody = (productId: string) => {
+  const quantity = stockLevels[productId];
+  const reserved = reservations.reservedQuantity(productId);
+  const body: {
+    productId: string;
+    quantity: number;
+    reserved: number;
+    available: number;
+    reorderThreshold?: number;
+  } = {
+    productId: productId,
+    quantity: quantity,
+    reserved: reserved,
+    available: Math.max(quantity - reserved, 0),
+  };
+  if (reorderThresholds[productId] !== undefined) {
+    body.reorderThreshold = reorderThresholds[productId];
+  }
+  return body;
+};
+
+// --- Batch Lookup ---
+
+// The most product ids one batch lookup may ask for.
+const MAX_BATCH_SIZE = 100;
+
+// Looks up many products at once. Found products are returned in the order they were
+// asked for (duplicates once); the rest are listed in notFound.
+const lookupStockBatch = (productIds: string[]) =>
+  getTracer().trace("stock.batch_lookup", (span) => {
+    span.setAttribute("stock.product_count", productIds.length);
+    const data: ReturnType<typeof stockLevelBody>[] = [];
+    const notFound: string[] = [];
+    productIds.forEach((productId, index) => {
+      if (productIds.indexOf(productId) !== index) {
+        return;
+      }
+      if (stockLevels[productId] !== undefined) {
+        data.push(stockLevelBody(productId));
+      } else {
+        notFound.push(productId);
+      }
+    });
+    return { data, notFound };
+  });
+
+// Validates a list of product ids for a batch lookup, returning an error message.
+const validateBatchIds = (productIds: string[]): string | undefined => {
+  if (productIds.length === 0) {
+    return "At least one product ID is required.";
+  }
+  if (productIds.length > MAX_BATCH_SIZE) {
+    return `At most ${MAX_BATCH_SIZE} product IDs can be looked up at once.`;
+  }
+  return undefined;
+};
+
+// Looks up the product ids given as { "productIds": string[] }.
+export const batchGetStockHandler: RequestHandler = (req, res) => {
+  try {
+    const { productIds } = req.body || {};
+
+    if (
+      !Array.isArray(productIds) ||
+      productIds.some((id) => typeof id !== "string" || id === "")
+    ) {
+      res.status(400).json({
+        message: '"productIds" must be an array of non-empty strings.',
+      });
+      return; // Exit
+    }
+    const invalid = validateBatchIds(productIds);
+    if (invalid) {
+      res.status(400).json({ message: invalid });
+      return; // Exit
+    }
+
+    res.status(200).json(lookupStockBatch(productIds));
+  } catch (error) {
+    logger.error("Error looking up stock batch", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not fetch stock information." });
+  }
+};
+
+// Stock cursors are opaque base64url strings wrapping the last productId a client has seen.
+// Items are ordered by productId, so creating or removing records between requests never
+// shifts the remaining pages the way offset pagination does.
+const encodeStockCursor = (productId: string): string =>
+  Buffer.from(JSON.stringify([productId])).toString("base64url");
+
+const decodeStockCursor = (cursor: string): string | undefined => {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (Array.isArray(decoded) && typeof decoded[0] === "string") {
+      return decoded[0];
+    }
+  } catch (error) {
+    // Malformed base64 or JSON: treated as an invalid cursor below.
+  }
+  return undefined;
+};
+
+// Lists stock records with page/limit pagination, or with cursor pagination when a
+// `cursor` parameter is present (empty for the first page).
 export const listAllStockHandler: RequestHandler = (req, res) => {
   try {
+    // GET /stock?productIds=a,b,c is a batch lookup rather than a listing.
+    if (req.query.productIds !== undefined) {
+      const productIds =
+        typeof req.query.productIds === "string"
+          ? req.query.productIds.split(",").filter((id) => id !== "")
+          : [];
+      const invalid = validateBatchIds(productIds);
+      if (invalid) {
+        res.status(400).json({ message: invalid });
+        return;
+      }
+      res.status(200).json(lookupStockBatch(productIds));
+      return;
+    }
+
     const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
     const limit = req.query.limit
       ? parseInt(req.query.limit as string, 10)
@@ -39,10 +479,77 @@ export const listAllStockHandler: RequestHandler = (req, res) => {
       return;
     }
 
-    // Convert stockLevels object to an array of {productId, quantity} objects
-    const allStockItems = Object.keys(stockLevels).map((productId) => {
-      return { productId: productId, quantity: stockLevels[productId] };
-    });
+    const belowThreshold = req.query.belowThreshold;
+    if (
+      belowThreshold !== undefined &&
+      belowThreshold !== "true" &&
+      belowThreshold !== "false"
+    ) {
+      res
+        .status(400)
+        .json({ message: '"belowThreshold" must be true or false.' });
+      return;
+    }
+
+    // Convert stockLevels object to an array of {productId, quantity} objects.
+    // The belowThreshold view keeps only products under their reorder threshold
+    // and adds the threshold to each item.
+    const allStockItems =
+      belowThreshold === "true"
+        ? Object.keys(stockLevels)
+            .filter((productId) =>
+              isBelowThreshold(
+                stockLevels[productId],
+                reorderThresholds[productId]
+              )
+            )
+            .map((productId) => {
+              return {
+                productId: productId,
+                quantity: stockLevels[productId],
+                reorderThreshold: reorderThresholds[productId],
+              };
+            })
+        : Object.keys(stockLevels).map((productId) => {
+            return { productId: productId, quantity: stockLevels[productId] };
+          });
+
+    const cursor = req.query.cursor;
+    if (cursor !== undefined) {
+      if (typeof cursor !== "string" || req.query.page) {
+        res.status(400).json({
+          message: "Cursor pagination cannot be combined with page parameter.",
+        });
+        return;
+      }
+      const afterProductId = cursor ? decodeStockCursor(cursor) : undefined;
+      if (cursor && afterProductId === undefined) {
+        res.status(400).json({ message: "Invalid cursor." });
+        return;
+      }
+
+      const remainingItems = allStockItems
+        .filter(
+          (item) =>
+            afterProductId === undefined || item.productId > afterProductId
+        )
+        .sort((a, b) => (a.productId < b.productId ? -1 : 1));
+      const results = remainingItems.slice(0, limit);
+      const hasNextPage = remainingItems.length > limit;
+
+      res.status(200).json({
+        data: results,
+        pagination: {
+          totalItems: allStockItems.length,
+          limit: limit,
+          hasNextPage: hasNextPage,
+          nextCursor: hasNextPage
+            ? encodeStockCursor(results[results.length - 1].productId)
+            : null,
+        },
+      });
+      return;
+    }
 
     const startIndex = (page - 1) * limit;
     const endIndex = page * limit;
@@ -63,7 +570,7 @@ export const listAllStockHandler: RequestHandler = (req, res) => {
       },
     });
   } catch (error) {
-    console.error("Error listing all stock:", error);
+    logger.error("Error listing all stock", { error: error });
     res
       .status(500)
       .json({ message: "Server error: Could not list all stock information." });
@@ -75,26 +582,26 @@ export const getStockByProductIdHandler: RequestHandler = (req, res) => {
     const { productId } = req.params;
 
     if (stockLevels[productId] !== undefined) {
-      res.status(200).json({
-        productId: productId,
-        quantity: stockLevels[productId],
-      });
+      res.status(200).json(stockLevelBody(productId));
     } else {
       res.status(404).json({
         message: `Stock information not found for product ID: ${productId}`,
       });
     }
   } catch (error) {
-    console.error(
-      `Error fetching stock for product ID ${req.params.productId}:`,
-      error
-    );
+    logger.error("Error fetching stock", {
+      productId: req.params.productId,
+      error: error,
+    });
     res
       .status(500)
       .json({ message: "Server error: Could not fetch stock information." });
   }
 };
 
+// Sets a product's quantity, creating the record if needed. With If-None-Match: * the
+// record is only created: an existing one is left alone and the answer is 412, so
+// reconciliation can seed missing records without overwriting one that appeared.
 export const updateStockHandler: RequestHandler = (req, res) => {
   try {
     const { productId } = req.params;
@@ -116,37 +623,706 @@ export const updateStockHandler: RequestHandler = (req, res) => {
       return; // Exit
     }
 
+    const ifNoneMatch = req.headers ? req.headers["if-none-match"] : undefined;
+    if (ifNoneMatch === "*" && stockLevels[productId] !== undefined) {
+      res.status(412).json({
+        message: `Stock information already exists for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+    // Like a decreasing adjustment, an overwrite may not drop below the units held for
+    // checkouts, otherwise committing those reservations later would oversell.
+    const reserved = reservations.reservedQuantity(productId);
+    if (quantity < reserved) {
+      res.status(409).json({
+        message: `Quantity ${quantity} is below the ${reserved} units reserved for product ID ${productId}.`,
+      });
+      return; // Exit
+    }
+
     // Update or set the stock level for the productId
-    stockLevels[productId] = quantity;
+    setStockLevel(req, productId, quantity, "overwrite");
 
-    console.log(`Stock updated for product ID ${productId}:`, { quantity });
+    logger.info("Stock updated", { productId, quantity });
     res.status(200).json({
       productId: productId,
       quantity: stockLevels[productId],
     });
   } catch (error) {
-    console.error(
-      `Error updating stock for product ID ${req.params.productId}:`,
-      error
-    );
+    logger.error("Error updating stock", {
+      productId: req.params.productId,
+      error: error,
+    });
     res
       .status(500)
       .json({ message: "Server error: Could not update stock information." });
   }
 };
 
+// Removes a product's stock record, together with its reservations and reorder
+// threshold. Used to clean up records whose product no longer exists.
+export const deleteStockHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    if (stockLevels[productId] === undefined) {
+      res.status(404).json({
+        message: `Stock information not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    setStockLevel(req, productId, undefined, "removal");
+    reservations.removeForProduct(productId);
+
+    logger.info("Stock removed", { productId });
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Error removing stock", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not remove stock information." });
+  }
+};
+
+// --- Reorder Thresholds ---
+
+// Sets a product's reorder threshold. Expects { "threshold": number }.
+export const setReorderThresholdHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+    const { threshold } = req.body || {};
+
+    if (threshold === undefined) {
+      res.status(400).json({ message: 'Missing "threshold" in request body.' });
+      return; // Exit
+    }
+    if (
+      typeof threshold !== "number" ||
+      threshold < 0 ||
+      !Number.isInteger(threshold)
+    ) {
+      res
+        .status(400)
+        .json({ message: '"threshold" must be a non-negative integer.' });
+      return; // Exit
+    }
+    if (stockLevels[productId] === undefined) {
+      res.status(404).json({
+        message: `Stock information not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    const wasBelow = isBelowThreshold(
+      stockLevels[productId],
+      reorderThresholds[productId]
+    );
+    updateThreshold(productId, threshold);
+    notifyThresholdCrossing(productId, wasBelow, stockLevels[productId]);
+
+    logger.info("Reorder threshold set", { productId, threshold });
+    res.status(200).json(stockLevelBody(productId));
+  } catch (error) {
+    logger.error("Error setting reorder threshold", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not set reorder threshold." });
+  }
+};
+
+// Removes a product's reorder threshold, which stops its low-stock notifications.
+export const deleteReorderThresholdHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    if (reorderThresholds[productId] === undefined) {
+      res.status(404).json({
+        message: `Reorder threshold not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    updateThreshold(productId, undefined);
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Error removing reorder threshold", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not remove reorder threshold." });
+  }
+};
+
+// --- Movements ---
+
+const parseDateParam = (value: unknown): Date | undefined | null => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+// Lists a product's stock movements, oldest first, with page/limit pagination and
+// optional `from`/`to` timestamps (inclusive, ISO 8601).
+export const listStockMovementsHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+    const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string, 10)
+      : 10;
+
+    if (isNaN(page) || isNaN(limit) || page < 1 || limit < 1) {
+      res.status(400).json({
+        message:
+          "Invalid pagination parameters. Page and limit must be positive numbers.",
+      });
+      return; // Exit
+    }
+    const from = parseDateParam(req.query.from);
+    const to = parseDateParam(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({
+        message: '"from" and "to" must be valid ISO 8601 timestamps.',
+      });
+      return; // Exit
+    }
+
+    const allMovements = movementLedger.findByProductId(productId);
+    if (allMovements.length === 0 && stockLevels[productId] === undefined) {
+      res.status(404).json({
+        message: `Stock information not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    const movements = movementLedger.findByProductId(productId, { from, to });
+    const startIndex = (page - 1) * limit;
+    const endIndex = page * limit;
+    const totalItems = movements.length;
+
+    res.status(200).json({
+      productId: productId,
+      data: movements.slice(startIndex, endIndex),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / limit),
+        totalItems: totalItems,
+        limit: limit,
+        hasNextPage: endIndex < totalItems,
+        hasPreviousPage: startIndex > 0,
+      },
+    });
+  } catch (error) {
+    logger.error("Error listing stock movements", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not list stock movements." });
+  }
+};
+
+// Recomputes a product's quantity from its movements and compares it with the
+// current stock level, to verify that no change bypassed the ledger.
+export const verifyStockMovementsHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+    const movements = movementLedger.findByProductId(productId);
+    const quantity =
+      stockLevels[productId] !== undefined ? stockLevels[productId] : null;
+
+    if (movements.length === 0 && quantity === null) {
+      res.status(404).json({
+        message: `Stock information not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    const ledgerQuantity = quantityFromMovements(movements);
+    res.status(200).json({
+      productId: productId,
+      quantity: quantity,
+      ledgerQuantity: ledgerQuantity,
+      movementCount: movements.length,
+      consistent: ledgerQuantity === (quantity !== null ? quantity : 0),
+    });
+  } catch (error) {
+    logger.error("Error verifying stock movements", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not verify stock movements." });
+  }
+};
+
+// --- Adjustments ---
+
+// Responses of POST /stock/:productId/adjustments by Idempotency-Key, so a retried
+// adjustment is applied once. With STOCK_LEDGER_FILE set the keys are kept in the
+// ledger's directory, so a retry reaching another replica is still replayed.
+// Replaceable so tests start from an empty store.
+let idempotencyStore: IdempotencyStore = createIdempotencyStore(
+  readIdempotencyConfig(),
+  process.env.STOCK_LEDGER_FILE
+    ? path.join(
+        path.dirname(process.env.STOCK_LEDGER_FILE),
+        "idempotency-keys.json"
+      )
+    : undefined
+);
+
+export const setIdempotencyStore = (store: IdempotencyStore): void => {
+  idempotencyStore = store;
+};
+
+export const adjustmentIdempotency = idempotency(
+  () => idempotencyStore,
+  logger
+);
+
+// Why a stock level changed. Sales only lower stock, restocks and returns only raise
+// it, and corrections go either way.
+const ADJUSTMENT_REASONS = ["sale", "restock", "return", "correction"];
+
+// Applies a signed change to the on-hand quantity. Expects { "delta": number,
+// "reason": string }. Unlike PUT, concurrent adjustments compose instead of
+// overwriting each other; an adjustment that would drive stock below zero is refused.
+export const adjustStockHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+    const { delta, reason } = req.body || {};
+
+    if (delta === undefined) {
+      res.status(400).json({ message: 'Missing "delta" in request body.' });
+      return; // Exit
+    }
+    if (typeof delta !== "number" || !Number.isInteger(delta) || delta === 0) {
+      res.status(400).json({ message: '"delta" must be a non-zero integer.' });
+      return; // Exit
+    }
+    if (ADJUSTMENT_REASONS.indexOf(reason) === -1) {
+      res.status(400).json({
+        message: `"reason" must be one of: ${ADJUSTMENT_REASONS.join(", ")}.`,
+      });
+      return; // Exit
+    }
+
+    if (reason === "sale" && delta > 0) {
+      res.status(400).json({ message: 'A "sale" must have a negative delta.' });
+      return; // Exit
+    }
+    if ((reason === "restock" || reason === "return") && delta < 0) {
+      res
+        .status(400)
+        .json({ message: `A "${reason}" must have a positive delta.` });
+      return; // Exit
+    }
+
+    // A product without a stock record starts from zero, so a restock creates it.
+    const current =
+      stockLevels[productId] !== undefined ? stockLevels[productId] : 0;
+    const quantity = current + delta;
+    if (quantity < 0) {
+      res.status(409).json({
+        message: `Adjustment would make stock negative for product ID ${productId}: current ${current}, delta ${delta}.`,
+      });
+      return; // Exit
+    }
+    // Units held for checkouts are spoken for: a decrease may only take available units,
+    // otherwise committing those reservations later would oversell.
+    const reserved = reservations.reservedQuantity(productId);
+    if (delta < 0 && quantity < reserved) {
+      res.status(409).json({
+        message: `Adjustment would take reserved stock for product ID ${productId}: available ${current - reserved}, delta ${delta}.`,
+      });
+      return; // Exit
+    }
+
+    setStockLevel(req, productId, quantity, reason);
+
+    logger.info("Stock adjusted", {
+      productId,
+      delta,
+      reason,
+      quantity,
+    });
+    res.status(200).json({
+      ...stockLevelBody(productId),
+      delta: delta,
+      reason: reason,
+    });
+  } catch (error) {
+    logger.error("Error adjusting stock", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res.status(500).json({ message: "Server error: Could not adjust stock." });
+  }
+};
+
+// --- Reservations ---
+
+const formatReservation = (reservation: Reservation) => ({
+  id: reservation.id,
+  productId: reservation.productId,
+  quantity: reservation.quantity,
+  createdAt: reservation.createdAt.toISOString(),
+  expiresAt: reservation.expiresAt.toISOString(),
+});
+
+// Holds units of a product for a checkout. Expects { "quantity": number } and an
+// optional { "ttlSeconds": number }; fails with 409 when not enough stock is available.
+export const createReservationHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId } = req.params;
+    const { quantity, ttlSeconds } = req.body || {};
+
+    if (quantity === undefined) {
+      res.status(400).json({ message: 'Missing "quantity" in request body.' });
+      return; // Exit
+    }
+    if (
+      typeof quantity !== "number" ||
+      quantity < 1 ||
+      !Number.isInteger(quantity)
+    ) {
+      res
+        .status(400)
+        .json({ message: '"quantity" must be a positive integer.' });
+      return; // Exit
+    }
+    if (
+      ttlSeconds !== undefined &&
+      (typeof ttlSeconds !== "number" ||
+        !Number.isInteger(ttlSeconds) ||
+        ttlSeconds < 1 ||
+        ttlSeconds > MAX_RESERVATION_TTL_SECONDS)
+    ) {
+      res.status(400).json({
+        message: `"ttlSeconds" must be an integer between 1 and ${MAX_RESERVATION_TTL_SECONDS}.`,
+      });
+      return; // Exit
+    }
+    if (stockLevels[productId] === undefined) {
+      res.status(404).json({
+        message: `Stock information not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    const level = stockLevelBody(productId);
+    if (quantity > level.available) {
+      res.status(409).json({
+        message: `Insufficient stock for product ID ${productId}: requested ${quantity}, available ${level.available}.`,
+      });
+      return; // Exit
+    }
+
+    const createdAt = reservations.now();
+    const reservation: Reservation = {
+      id: randomUUID(),
+      productId: productId,
+      quantity: quantity,
+      createdAt: createdAt,
+      expiresAt: new Date(
+        createdAt.getTime() +
+          (ttlSeconds || defaultReservationTtlSeconds) * 1000
+      ),
+    };
+    reservations.add(reservation);
+
+    logger.info("Reservation created", {
+      productId,
+      reservationId: reservation.id,
+      quantity,
+    });
+    res.status(201).json(formatReservation(reservation));
+  } catch (error) {
+    logger.error("Error reserving stock", {
+      productId: req.params.productId,
+      error: error,
+    });
+    res.status(500).json({ message: "Server error: Could not reserve stock." });
+  }
+};
+
+// Turns a reservation into a sale: the held units leave the on-hand quantity.
+export const commitReservationHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId, reservationId } = req.params;
+    const reservation = reservations.find(productId, reservationId);
+
+    if (!reservation) {
+      res.status(404).json({
+        message: `Reservation '${reservationId}' not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+    if (reservations.isExpired(reservation)) {
+      reservations.remove(reservation.id);
+      res
+        .status(410)
+        .json({ message: `Reservation '${reservationId}' has expired.` });
+      return; // Exit
+    }
+
+    // The on-hand quantity may have been overwritten below the hold in the meantime.
+    // Committing anyway would record units leaving that never existed, so the
+    // reservation stays in place until stock is corrected or it is released.
+    const onHand =
+      stockLevels[productId] !== undefined ? stockLevels[productId] : 0;
+    if (onHand < reservation.quantity) {
+      res.status(409).json({
+        message: `Cannot commit reservation '${reservationId}': it holds ${reservation.quantity} units but only ${onHand} are on hand for product ID ${productId}.`,
+      });
+      return; // Exit
+    }
+
+    reservations.remove(reservation.id);
+    setStockLevel(req, productId, onHand - reservation.quantity, "sale");
+
+    logger.info("Reservation committed", {
+      productId,
+      reservationId: reservation.id,
+      quantity: reservation.quantity,
+    });
+    res.status(200).json(stockLevelBody(productId));
+  } catch (error) {
+    logger.error("Error committing reservation", {
+      reservationId: req.params.reservationId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not commit reservation." });
+  }
+};
+
+// Releases a reservation, returning its units to the available quantity.
+export const releaseReservationHandler: RequestHandler = (req, res) => {
+  try {
+    const { productId, reservationId } = req.params;
+    const reservation = reservations.find(productId, reservationId);
+
+    if (!reservation) {
+      res.status(404).json({
+        message: `Reservation '${reservationId}' not found for product ID: ${productId}`,
+      });
+      return; // Exit
+    }
+
+    reservations.remove(reservation.id);
+    logger.info("Reservation released", {
+      productId,
+      reservationId: reservation.id,
+    });
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Error releasing reservation", {
+      reservationId: req.params.reservationId,
+      error: error,
+    });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not release reservation." });
+  }
+};
+
+// Releases every expired reservation. Runs periodically once the server listens.
+export const sweepExpiredReservations = (): number => {
+  const released = reservations.releaseExpired();
+  released.forEach((reservation) => {
+    logger.info("Reservation expired", {
+      productId: reservation.productId,
+      reservationId: reservation.id,
+      quantity: reservation.quantity,
+    });
+  });
+  return released.length;
+};
+
+// --- Product Events ---
+
+// Event types published by the product service's outbox.
+const PRODUCT_EVENT_TYPES = [
+  "product.created",
+  "product.updated",
+  "product.deleted",
+  "product.restored",
+];
+
+// The catalog's stockQuantity carried by an event, if it is a valid quantity.
+const catalogQuantity = (data: any): number => {
+  const quantity = data ? data.stockQuantity : undefined;
+  return typeof quantity === "number" &&
+    Number.isInteger(quantity) &&
+    quantity >= 0
+    ? quantity
+    : 0;
+};
+
+// The on-hand quantity a product had when its stock record was last removed, read
+// from the ledger; undefined if it never was.
+const quantityBeforeRemoval = (productId: string): number | undefined => {
+  const removals = movementLedger
+    .findByProductId(productId)
+    .filter((movement) => movement.reason === "removal");
+  return removals.length > 0 ? -removals[removals.length - 1].delta : undefined;
+};
+
+// Ids of applied events. The product service delivers at least once, so the same
+// event can arrive again after a lost acknowledgement; remembering its id makes the
+// redelivery a no-op. With STOCK_LEDGER_FILE set the ids are kept next to the ledger,
+// so they survive restarts like the stock levels do.
+let processedEvents: ProcessedEventStore = createProcessedEventStore();
+
+// Replaces the processed event store; tests start each case from an empty one.
+export const setProcessedEventStore = (store: ProcessedEventStore): void => {
+  processedEvents = store;
+};
+
+// Consumes a product lifecycle event. Created and updated products get a stock record
+// seeded from the catalog's stockQuantity unless one exists already (the stock service
+// owns the quantity from then on); deleted products lose their stock record. Restored
+// products get back the quantity they had when they were deleted, as the catalog's
+// stockQuantity is only the seed value.
+export const productEventHandler: RequestHandler = (req, res) => {
+  try {
+    const { id, type, productId, data } = req.body || {};
+
+    if (typeof id !== "string" || id.length === 0) {
+      res.status(400).json({ message: 'Missing "id" in event body.' });
+      return; // Exit
+    }
+    if (typeof productId !== "string" || productId.length === 0) {
+      res.status(400).json({ message: 'Missing "productId" in event body.' });
+      return; // Exit
+    }
+    if (typeof type !== "string") {
+      res.status(400).json({ message: 'Missing "type" in event body.' });
+      return; // Exit
+    }
+
+    if (processedEvents.has(id)) {
+      res.status(200).json({ eventId: id, status: "duplicate" });
+      return; // Exit
+    }
+    if (PRODUCT_EVENT_TYPES.indexOf(type) === -1) {
+      // Acknowledge events we do not understand so the publisher stops retrying them.
+      res.status(200).json({ eventId: id, status: "ignored" });
+      return; // Exit
+    }
+
+    if (type === "product.deleted") {
+      if (stockLevels[productId] !== undefined) {
+        setStockLevel(req, productId, undefined, "removal");
+      }
+      reservations.removeForProduct(productId);
+    } else if (stockLevels[productId] === undefined) {
+      const removedQuantity =
+        type === "product.restored"
+          ? quantityBeforeRemoval(productId)
+          : undefined;
+      setStockLevel(
+        req,
+        productId,
+        removedQuantity !== undefined ? removedQuantity : catalogQuantity(data),
+        "initial"
+      );
+    }
+
+    processedEvents.add(id);
+    logger.info("Applied product event", { eventId: id, type, productId });
+    res.status(200).json({ eventId: id, status: "applied" });
+  } catch (error) {
+    logger.error("Error applying product event", { error: error });
+    res
+      .status(500)
+      .json({ message: "Server error: Could not apply product event." });
+  }
+};
+
+// --- Health Probes ---
+
+// Stock levels live in memory, so the service has no dependency to check; readiness
+// only turns false while shutting down.
+export const lifecycle = new Lifecycle({});
+
 app.get("/", (req: Request, res: Response) => {
   res.send("Hello World! Stock Service is running.");
 });
 
+// Liveness and readiness probes for Kubernetes.
+app.get("/healthz", lifecycle.healthHandler);
+app.get("/readyz", lifecycle.readinessHandler);
+
+// The endpoint that Prometheus will scrape to collect our custom and default metrics.
+app.get("/metrics", metricsHandler(logger));
+
 app.get("/stock", listAllStockHandler);
+app.post("/stock/batch-get", batchGetStockHandler);
 app.get("/stock/:productId", getStockByProductIdHandler);
 app.put("/stock/:productId", updateStockHandler);
+app.delete("/stock/:productId", deleteStockHandler);
+app.post(
+  "/stock/:productId/adjustments",
+  adjustmentIdempotency,
+  adjustStockHandler
+);
+app.put("/stock/:productId/threshold", setReorderThresholdHandler);
+app.delete("/stock/:productId/threshold", deleteReorderThresholdHandler);
+app.get("/stock/:productId/movements", listStockMovementsHandler);
+app.get("/stock/:productId/movements/verify", verifyStockMovementsHandler);
+app.post("/stock/:productId/reservations", createReservationHandler);
+app.post(
+  "/stock/:productId/reservations/:reservationId/commit",
+  commitReservationHandler
+);
+app.delete(
+  "/stock/:productId/reservations/:reservationId",
+  releaseReservationHandler
+);
+app.post("/events", productEventHandler);
 
 if (process.env.NODE_ENV !== "test") {
-  app.listen(port, () => {
-    console.log(`Server is running on http://localhost:${port}`);
+  const server = app.listen(port, () => {
+    logger.info("Server is running", { port: port });
   });
+
+  // Return the units of abandoned checkouts to the available stock.
+  const sweepTimer = setInterval(
+    sweepExpiredReservations,
+    reservationSweepIntervalMs
+  );
+
+  installGracefulShutdown(
+    server,
+    lifecycle,
+    readShutdownConfig(),
+    logger,
+    async () => {
+      clearInterval(sweepTimer);
+      // Send the spans still buffered by the exporter.
+      const exporter = getTracer().exporter;
+      if (exporter) {
+        await exporter.flush();
+      }
+    }
+  );
 }
 
 export default app;
@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+
+// --- Stock Movement Ledger ---
+
+// Why a stock level changed: the adjustment reasons, plus the changes the service
+// makes on its own behalf.
+export type MovementReason =
+  | "sale"
+  | "restock"
+  | "return"
+  | "correction"
+  // PUT /stock/:productId replaced the quantity.
+  | "overwrite"
+  // A stock record was created by a product event or the seed data.
+  | "initial"
+  // The product was deleted, so its stock record was removed.
+  | "removal";
+
+// One change of one product's on-hand quantity.
+export interface StockMovement {
+  id: string;
+  productId: string;
+  delta: number;
+  // The on-hand quantity right after this movement.
+  resultingQuantity: number;
+  reason: MovementReason;
+  occurredAt: Date;
+  // The X-Request-Id of the request that caused the movement.
+  requestId: string;
+}
+
+export interface MovementQuery {
+  from?: Date;
+  to?: Date;
+}
+
+export interface MovementLedger {
+  append(movement: StockMovement): void;
+  // Movements of one product, oldest first, optionally limited to [from, to].
+  findByProductId(productId: string, query?: MovementQuery): StockMovement[];
+  // Every movement, oldest first.
+  findAll(): StockMovement[];
+}
+
+const inRange = (movement: StockMovement, query: MovementQuery): boolean =>
+  (!query.from || movement.occurredAt.getTime() >= query.from.getTime()) &&
+  (!query.to || movement.occurredAt.getTime() <= query.to.getTime());
+
+/**
+ * Keeps movements in memory. Like stockLevels itself, the ledger is lost on restart.
+ */
+export class InMemoryMovementLedger implements MovementLedger {
+  protected movements: StockMovement[] = [];
+
+  append(movement: StockMovement): void {
+    this.movements.push({ ...movement });
+  }
+
+  findByProductId(
+    productId: string,
+    query: MovementQuery = {}
+  ): StockMovement[] {
+    return this.movements.filter(
+      (movement) => movement.productId === productId && inRange(movement, query)
+    );
+  }
+
+  findAll(): StockMovement[] {
+    return this.movements.slice();
+  }
+}
+
+/**
+ * Appends movements to an NDJSON file, one movement per line, and keeps them in
+ * memory for queries. The file is read once on start, so stock levels can be rebuilt
+ * from it after a restart.
+ */
+export class FileMovementLedger extends InMemoryMovementLedger {
+  constructor(private readonly filePath: string) {
+    super();
+    let raw = "";
+    try {
+      raw = fs.readFileSync(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    this.movements = raw
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        const stored = JSON.parse(line);
+        return { ...stored, occurredAt: new Date(stored.occurredAt) };
+      });
+  }
+
+  append(movement: StockMovement): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(movement)}\n`, "utf8");
+    super.append(movement);
+  }
+}
+
+// Rebuilds stock levels from the ledger: every product ends at the resulting quantity
+// of its last movement, and products whose last movement removed them are dropped.
+export const levelsFromMovements = (
+  movements: StockMovement[]
+): { [productId: string]: number } => {
+  const levels: { [productId: string]: number } = {};
+  movements.forEach((movement) => {
+    if (movement.reason === "removal") {
+      delete levels[movement.productId];
+    } else {
+      levels[movement.productId] = movement.resultingQuantity;
+    }
+  });
+  return levels;
+};
+
+// Sums a product's deltas: the quantity the ledger says the product should have.
+export const quantityFromMovements = (movements: StockMovement[]): number =>
+  movements.reduce((total, movement) => total + movement.delta, 0);
@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+
+// --- Processed Product Events ---
+
+export interface ProcessedEventStore {
+  has(eventId: string): boolean;
+  add(eventId: string): void;
+}
+
+/**
+ * Remembers processed event ids in memory. Like the in-memory ledger, they are lost
+ * on restart.
+ */
+export class InMemoryProcessedEventStore implements ProcessedEventStore {
+  protected eventIds = new Set<string>();
+
+  has(eventId: string): boolean {
+    return this.eventIds.has(eventId);
+  }
+
+  add(eventId: string): void {
+    this.eventIds.add(eventId);
+  }
+}
+
+/**
+ * Appends processed event ids to a file, one per line, and keeps them in memory for
+ * lookups. The file is read once on start, so a redelivery after a restart is still
+ * recognized.
+ */
+export class FileProcessedEventStore extends InMemoryProcessedEventStore {
+  constructor(private readonly filePath: string) {
+    super();
+    let raw = "";
+    try {
+      raw = fs.readFileSync(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    raw
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .forEach((line) => this.eventIds.add(line.trim()));
+  }
+
+  add(eventId: string): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${eventId}\n`, "utf8");
+    super.add(eventId);
+  }
+}
+
+// Keeps processed event ids in processed-events.log next to STOCK_LEDGER_FILE, so they
+// are persisted exactly when the stock levels they protect are. Memory otherwise.
+export const createProcessedEventStore = (
+  env: NodeJS.ProcessEnv = process.env
+): ProcessedEventStore =>
+  env.STOCK_LEDGER_FILE
+    ? new FileProcessedEventStore(
+        path.join(path.dirname(env.STOCK_LEDGER_FILE), "processed-events.log")
+      )
+    : new InMemoryProcessedEventStore();
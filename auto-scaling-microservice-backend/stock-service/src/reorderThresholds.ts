@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+
+// --- Reorder Threshold Storage ---
+
+export interface Thresholds {
+  [productId: string]: number;
+}
+
+export interface ThresholdStore {
+  // Every stored threshold, read once on start.
+  load(): Thresholds;
+  // Replaces the stored thresholds with the given ones.
+  save(thresholds: Thresholds): void;
+}
+
+/**
+ * Keeps thresholds in memory. Like the in-memory ledger, they are lost on restart.
+ */
+export class InMemoryThresholdStore implements ThresholdStore {
+  private thresholds: Thresholds = {};
+
+  load(): Thresholds {
+    return { ...this.thresholds };
+  }
+
+  save(thresholds: Thresholds): void {
+    this.thresholds = { ...thresholds };
+  }
+}
+
+/**
+ * Stores thresholds as one JSON object. Writes go to a temporary file that is renamed
+ * over the original, so a crash mid-write keeps the previous thresholds.
+ */
+export class FileThresholdStore implements ThresholdStore {
+  constructor(private readonly filePath: string) {}
+
+  load(): Thresholds {
+    let raw = "";
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    return raw.trim() ? JSON.parse(raw) : {};
+  }
+
+  save(thresholds: Thresholds): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(thresholds, null, 2), "utf8");
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Picks where thresholds are kept: STOCK_THRESHOLDS_FILE when set, otherwise
+ * reorder-thresholds.json next to STOCK_LEDGER_FILE, so a persisted ledger never
+ * comes back from a restart without its thresholds. Memory when neither is set.
+ */
+export const createThresholdStore = (
+  env: NodeJS.ProcessEnv = process.env
+): ThresholdStore => {
+  if (env.STOCK_THRESHOLDS_FILE) {
+    return new FileThresholdStore(env.STOCK_THRESHOLDS_FILE);
+  }
+  if (env.STOCK_LEDGER_FILE) {
+    return new FileThresholdStore(
+      path.join(path.dirname(env.STOCK_LEDGER_FILE), "reorder-thresholds.json")
+    );
+  }
+  return new InMemoryThresholdStore();
+};
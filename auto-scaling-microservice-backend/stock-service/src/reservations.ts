@@ -0,0 +1,79 @@
+// --- Stock Reservations ---
+
+// A hold on units of one product for a checkout in progress. Held units stay in the
+// on-hand quantity until the reservation is committed, but no one else can reserve them.
+export interface Reservation {
+  id: string;
+  productId: string;
+  quantity: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Keeps the open reservations of all products. Committed, released and expired
+ * reservations are removed, so everything in the store is an active hold, apart from
+ * expired ones the sweeper has not reached yet (isExpired tells those apart).
+ */
+export class ReservationStore {
+  private reservations = new Map<string, Reservation>();
+
+  // The clock reservations are created and expired by; injectable for tests.
+  constructor(readonly now: () => Date = () => new Date()) {}
+
+  add(reservation: Reservation): void {
+    this.reservations.set(reservation.id, { ...reservation });
+  }
+
+  // Looks a reservation up within its product, so ids cannot be used across products.
+  find(productId: string, id: string): Reservation | undefined {
+    const reservation = this.reservations.get(id);
+    return reservation && reservation.productId === productId
+      ? { ...reservation }
+      : undefined;
+  }
+
+  remove(id: string): void {
+    this.reservations.delete(id);
+  }
+
+  // Drops every reservation of a product, e.g. when the product is deleted.
+  removeForProduct(productId: string): void {
+    this.reservations.forEach((reservation, id) => {
+      if (reservation.productId === productId) {
+        this.reservations.delete(id);
+      }
+    });
+  }
+
+  isExpired(reservation: Reservation): boolean {
+    return reservation.expiresAt.getTime() <= this.now().getTime();
+  }
+
+  // Units currently held for a product by unexpired reservations.
+  reservedQuantity(productId: string): number {
+    let reserved = 0;
+    this.reservations.forEach((reservation) => {
+      if (reservation.productId === productId && !this.isExpired(reservation)) {
+        reserved += reservation.quantity;
+      }
+    });
+    return reserved;
+  }
+
+  // Removes expired reservations, returning them so the caller can log the release.
+  releaseExpired(): Reservation[] {
+    const released: Reservation[] = [];
+    this.reservations.forEach((reservation, id) => {
+      if (this.isExpired(reservation)) {
+        this.reservations.delete(id);
+        released.push(reservation);
+      }
+    });
+    return released;
+  }
+
+  clear(): void {
+    this.reservations.clear();
+  }
+}
@@ -0,0 +1,100 @@
+import { createHmac } from "crypto";
+
+import { Logger } from "../../shared/logger";
+import {
+  PostLike,
+  ThresholdEvent,
+  WebhookConfig,
+  WebhookNotifier,
+  readWebhookConfig,
+} from "./webhooks";
+
+// No backoff, so retries do not slow the suite down.
+const config: WebhookConfig = {
+  url: "http://purchasing.test/hooks/stock",
+  secret: "s3cret",
+  timeoutMs: 50,
+  retries: 2,
+  retryDelayMs: 0,
+};
+
+const logger = new Logger("stock-service");
+
+const event: ThresholdEvent = {
+  type: "stock.low",
+  productId: "p1",
+  quantity: 2,
+  reorderThreshold: 5,
+  occurredAt: new Date("2025-01-01T00:00:00.000Z"),
+};
+
+// A fetch stand-in that answers with the given statuses in turn.
+const fakePost = (...statuses: number[]) => {
+  const calls: { url: string; headers: any; body: string }[] = [];
+  const postImpl: PostLike = async (url, init) => {
+    calls.push({ url, headers: init.headers, body: init.body });
+    return { status: statuses.length > 1 ? statuses.shift()! : statuses[0] };
+  };
+  return { postImpl, calls };
+};
+
+describe("WebhookNotifier", () => {
+  it("should sign the timestamp and body with the shared secret", async () => {
+    const { postImpl, calls } = fakePost(204);
+    const notifier = new WebhookNotifier(config, logger, postImpl);
+
+    const delivered = await notifier.notify(event);
+
+    expect(delivered).toBe(true);
+    const { headers, body } = calls[0];
+    const expected = createHmac("sha256", "s3cret")
+      .update(`${headers["X-Stock-Timestamp"]}.${body}`)
+      .digest("hex");
+    expect(headers["X-Stock-Signature"]).toBe(`sha256=${expected}`);
+    expect(headers["X-Stock-Event"]).toBe("stock.low");
+    expect(JSON.parse(body)).toMatchObject({ type: "stock.low", quantity: 2 });
+  });
+
+  it("should retry failed deliveries with the same delivery id and give up after the retries", async () => {
+    const { postImpl, calls } = fakePost(500);
+    const notifier = new WebhookNotifier(config, logger, postImpl);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const delivered = await notifier.notify(event);
+
+    expect(delivered).toBe(false);
+    expect(calls.length).toBe(3);
+    expect(calls[2].headers["X-Stock-Delivery"]).toBe(
+      calls[0].headers["X-Stock-Delivery"]
+    );
+    (console.error as jest.Mock).mockRestore();
+  });
+});
+
+describe("readWebhookConfig", () => {
+  it("should be disabled without a URL", () => {
+    expect(readWebhookConfig({})).toBeUndefined();
+  });
+
+  it("should refuse a URL without a secret", () => {
+    expect(() => readWebhookConfig({ STOCK_WEBHOOK_URL: config.url })).toThrow(
+      "STOCK_WEBHOOK_SECRET must be set when STOCK_WEBHOOK_URL is set."
+    );
+  });
+
+  it("should read the URL, secret and delivery settings", () => {
+    expect(
+      readWebhookConfig({
+        STOCK_WEBHOOK_URL: config.url,
+        STOCK_WEBHOOK_SECRET: "s3cret",
+        STOCK_WEBHOOK_RETRIES: "5",
+      })
+    ).toEqual({
+      url: config.url,
+      secret: "s3cret",
+      timeoutMs: 2000,
+      retries: 5,
+      retryDelayMs: 1000,
+    });
+  });
+});
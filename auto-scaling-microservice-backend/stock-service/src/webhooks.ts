@@ -0,0 +1,162 @@
+import { createHmac, randomUUID } from "crypto";
+
+import { readNonNegativeInt } from "../../shared/env";
+import { Logger } from "../../shared/logger";
+import { getTracer, injectTraceHeaders } from "../../shared/tracing";
+
+// --- Low-Stock Webhooks ---
+
+// Sent when a product's quantity drops below its reorder threshold, and again once it
+// is back at or above it.
+export type ThresholdEventType = "stock.low" | "stock.replenished";
+
+export interface ThresholdEvent {
+  type: ThresholdEventType;
+  productId: string;
+  quantity: number;
+  reorderThreshold: number;
+  occurredAt: Date;
+}
+
+export interface WebhookConfig {
+  url: string;
+  // Shared secret for the X-Stock-Signature header.
+  secret: string;
+  timeoutMs: number;
+  retries: number;
+  // Base of the exponential backoff between attempts.
+  retryDelayMs: number;
+}
+
+/**
+ * Reads the webhook configuration from environment variables. Notifications are only
+ * sent when STOCK_WEBHOOK_URL is set, and then STOCK_WEBHOOK_SECRET is required:
+ * receivers could not tell unsigned deliveries from forged ones.
+ */
+export const readWebhookConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): WebhookConfig | undefined => {
+  if (!env.STOCK_WEBHOOK_URL) {
+    return undefined;
+  }
+  if (!env.STOCK_WEBHOOK_SECRET) {
+    throw new Error(
+      "STOCK_WEBHOOK_SECRET must be set when STOCK_WEBHOOK_URL is set."
+    );
+  }
+  return {
+    url: env.STOCK_WEBHOOK_URL,
+    secret: env.STOCK_WEBHOOK_SECRET,
+    timeoutMs: readNonNegativeInt(env, "STOCK_WEBHOOK_TIMEOUT_MS", 2000),
+    retries: readNonNegativeInt(env, "STOCK_WEBHOOK_RETRIES", 3),
+    retryDelayMs: readNonNegativeInt(env, "STOCK_WEBHOOK_RETRY_DELAY_MS", 1000),
+  };
+};
+
+// Signs `${timestamp}.${body}` so receivers can reject both forged and replayed
+// deliveries. Receivers recompute it with the shared secret and compare.
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: string,
+  body: string
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// The subset of the fetch API the notifier needs, so tests can pass a fake.
+export type PostLike = (
+  url: string,
+  init: {
+    method: "POST";
+    headers: { [name: string]: string };
+    body: string;
+    signal: AbortSignal;
+  }
+) => Promise<{ status: number }>;
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Posts threshold events to the configured webhook. Delivery happens in the
+ * background: notify() never throws, and retries non-2xx answers, timeouts and
+ * network errors with exponential backoff before giving up and logging the event.
+ */
+export class WebhookNotifier {
+  constructor(
+    private readonly config: WebhookConfig,
+    private readonly logger: Logger,
+    private readonly postImpl: PostLike = fetch
+  ) {}
+
+  // Resolves with whether the event was delivered; callers may ignore the promise.
+  async notify(event: ThresholdEvent): Promise<boolean> {
+    const deliveryId = randomUUID();
+    const body = JSON.stringify({ id: deliveryId, ...event });
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      if (attempt > 0) {
+        await delay(this.config.retryDelayMs * Math.pow(2, attempt - 1));
+      }
+      try {
+        // One client span per attempt; the receiver may continue the trace.
+        await getTracer().trace(
+          "webhook deliver",
+          (span) => {
+            span.setAttribute("http.method", "POST");
+            span.setAttribute("http.url", this.config.url);
+            span.setAttribute("webhook.attempt", attempt + 1);
+            return this.postOnce(deliveryId, event.type, body);
+          },
+          "client"
+        );
+        return true;
+      } catch (error) {
+        this.logger.warn("Webhook delivery failed", {
+          deliveryId: deliveryId,
+          attempt: attempt + 1,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+    this.logger.error("Giving up on webhook delivery", {
+      deliveryId: deliveryId,
+      event: event,
+    });
+    return false;
+  }
+
+  private async postOnce(
+    deliveryId: string,
+    type: ThresholdEventType,
+    body: string
+  ): Promise<void> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: { [name: string]: string } = {
+      "Content-Type": "application/json",
+      "X-Stock-Event": type,
+      "X-Stock-Delivery": deliveryId,
+      "X-Stock-Timestamp": timestamp,
+      "X-Stock-Signature": signWebhookPayload(
+        this.config.secret,
+        timestamp,
+        body
+      ),
+    };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    try {
+      const response = await this.postImpl(this.config.url, {
+        method: "POST",
+        headers: injectTraceHeaders(headers),
+        body: body,
+        signal: controller.signal,
+      });
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Webhook answered with status ${response.status}.`);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -18,6 +18,20 @@ interface Product {
   updatedAt?: string;
 }
 
+// A category as listed by GET /categories. Products store the slug.
+interface Category {
+  slug: string;
+  name: string;
+  productCount: number;
+}
+
+// One entry of the `errors` array returned by the Product Service on validation failures.
+interface FieldError {
+  field: string;
+  code: string;
+  message: string;
+}
+
 type ProductFormData = {
   name: string;
   description: string;
@@ -43,9 +57,15 @@ export default function ProductEditPage() {
     category: "",
   });
   const [originalProduct, setOriginalProduct] = useState<Product | null>(null);
+  // ETag of the version being edited, sent back as If-Match so concurrent edits are detected.
+  const [etag, setEtag] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Field-level validation messages from the Product Service, keyed by field name.
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // The categories offered in the category dropdown.
+  const [categories, setCategories] = useState<Category[]>([]);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   //todo("Change this URL when deploying to production");
@@ -66,6 +86,7 @@ export default function ProductEditPage() {
             throw new Error(`API request is fail: ${response.status}`);
           }
           const data: Product = await response.json();
+          setEtag(response.headers.get("ETag"));
           setOriginalProduct(data);
           setFormData({
             name: data.name,
@@ -93,8 +114,27 @@ export default function ProductEditPage() {
     }
   }, [id, PRODUCT_SERVICE_BASE_API_URL]);
 
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch(
+          `${PRODUCT_SERVICE_BASE_API_URL}/categories`
+        );
+        if (response.ok) {
+          const body: { data: Category[] } = await response.json();
+          setCategories(body.data);
+        }
+      } catch {
+        setError("Could not load categories.");
+      }
+    };
+    fetchCategories();
+  }, [PRODUCT_SERVICE_BASE_API_URL]);
+
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
@@ -109,6 +149,7 @@ export default function ProductEditPage() {
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
     setSuccessMessage(null);
     setIsSubmitting(true);
 
@@ -125,19 +166,33 @@ export default function ProductEditPage() {
           method: "PUT",
           headers: {
             "Content-Type": "application/json",
+            ...(etag ? { "If-Match": etag } : {}),
           },
           body: JSON.stringify(formData),
         }
       );
 
+      if (response.status === 412) {
+        throw new Error(
+          "This product was changed by someone else. Reload the page to see the latest version before saving."
+        );
+      }
       if (!response.ok) {
         const errorData = await response.json();
+        if (Array.isArray(errorData.errors)) {
+          const messages: Record<string, string> = {};
+          for (const fieldError of errorData.errors as FieldError[]) {
+            messages[fieldError.field] ??= fieldError.message;
+          }
+          setFieldErrors(messages);
+        }
         throw new Error(
           errorData.message || `Update failed: ${response.status}`
         );
       }
 
       const updatedProductData: Product = await response.json();
+      setEtag(response.headers.get("ETag"));
       setSuccessMessage(
         `Product updated successfully! (ID: ${updatedProductData.id})`
       );
@@ -225,6 +280,9 @@ export default function ProductEditPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           />
+          {fieldErrors.name && (
+            <p className="mt-1 text-sm text-red-400">{fieldErrors.name}</p>
+          )}
         </div>
         <div>
           <label
@@ -243,6 +301,11 @@ export default function ProductEditPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           ></textarea>
+          {fieldErrors.description && (
+            <p className="mt-1 text-sm text-red-400">
+              {fieldErrors.description}
+            </p>
+          )}
         </div>
         <div>
           <label
@@ -260,6 +323,11 @@ export default function ProductEditPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           ></textarea>
+          {fieldErrors.detailedDescription && (
+            <p className="mt-1 text-sm text-red-400">
+              {fieldErrors.detailedDescription}
+            </p>
+          )}
         </div>
         <div>
           <label
@@ -278,6 +346,9 @@ export default function ProductEditPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           />
+          {fieldErrors.imageUrl && (
+            <p className="mt-1 text-sm text-red-400">{fieldErrors.imageUrl}</p>
+          )}
           {formData.imageUrl && (
             <Image
               src={formData.imageUrl}
@@ -307,6 +378,9 @@ export default function ProductEditPage() {
               className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
             />
+            {fieldErrors.price && (
+              <p className="mt-1 text-sm text-red-400">{fieldErrors.price}</p>
+            )}
           </div>
           <div>
             <label
@@ -326,6 +400,11 @@ export default function ProductEditPage() {
               className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
             />
+            {fieldErrors.stockQuantity && (
+              <p className="mt-1 text-sm text-red-400">
+                {fieldErrors.stockQuantity}
+              </p>
+            )}
           </div>
         </div>
         <div>
@@ -335,8 +414,7 @@ export default function ProductEditPage() {
           >
             Category <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
+          <select
             name="category"
             id="category"
             value={formData.category}
@@ -344,7 +422,19 @@ export default function ProductEditPage() {
             required
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
-          />
+          >
+            <option value="" disabled>
+              Select a category
+            </option>
+            {categories.map((category) => (
+              <option key={category.slug} value={category.slug}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          {fieldErrors.category && (
+            <p className="mt-1 text-sm text-red-400">{fieldErrors.category}</p>
+          )}
         </div>
         <button
           type="submit"
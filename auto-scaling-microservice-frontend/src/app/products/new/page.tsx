@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, FormEvent } from "react";
+import { useEffect, useState, FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 
@@ -17,6 +17,20 @@ interface Product {
   updatedAt?: string;
 }
 
+// A category as listed by GET /categories. Products store the slug.
+interface Category {
+  slug: string;
+  name: string;
+  productCount: number;
+}
+
+// One entry of the `errors` array returned by the Product Service on validation failures.
+interface FieldError {
+  field: string;
+  code: string;
+  message: string;
+}
+
 type NewProductData = {
   name: string;
   description: string;
@@ -40,12 +54,34 @@ export default function NewProductPage() {
   });
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Field-level validation messages from the Product Service, keyed by field name.
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // The categories offered in the category dropdown.
+  const [categories, setCategories] = useState<Category[]>([]);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   const PRODUCT_SERVICE_BASE_API_URL = "http://127.0.0.1:51674/products";
+  const CATEGORIES_API_URL = "http://127.0.0.1:51674/categories";
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch(CATEGORIES_API_URL);
+        if (response.ok) {
+          const body: { data: Category[] } = await response.json();
+          setCategories(body.data);
+        }
+      } catch {
+        setError("Could not load categories.");
+      }
+    };
+    fetchCategories();
+  }, [CATEGORIES_API_URL]);
 
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
@@ -60,6 +96,7 @@ export default function NewProductPage() {
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
     setSuccessMessage(null);
     setIsSubmitting(true);
 
@@ -93,6 +130,13 @@ export default function NewProductPage() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (Array.isArray(errorData.errors)) {
+          const messages: Record<string, string> = {};
+          for (const fieldError of errorData.errors as FieldError[]) {
+            messages[fieldError.field] ??= fieldError.message;
+          }
+          setFieldErrors(messages);
+        }
         throw new Error(
           errorData.message || `Product not created: ${response.status}`
         );
@@ -164,6 +208,9 @@ export default function NewProductPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           />
+          {fieldErrors.name && (
+            <p className="mt-1 text-sm text-red-400">{fieldErrors.name}</p>
+          )}
         </div>
         <div>
           <label
@@ -182,6 +229,11 @@ export default function NewProductPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           ></textarea>
+          {fieldErrors.description && (
+            <p className="mt-1 text-sm text-red-400">
+              {fieldErrors.description}
+            </p>
+          )}
         </div>
         <div>
           <label
@@ -199,6 +251,11 @@ export default function NewProductPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           ></textarea>
+          {fieldErrors.detailedDescription && (
+            <p className="mt-1 text-sm text-red-400">
+              {fieldErrors.detailedDescription}
+            </p>
+          )}
         </div>
         <div>
           <label
@@ -217,6 +274,9 @@ export default function NewProductPage() {
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
           />
+          {fieldErrors.imageUrl && (
+            <p className="mt-1 text-sm text-red-400">{fieldErrors.imageUrl}</p>
+          )}
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
@@ -238,6 +298,9 @@ export default function NewProductPage() {
               className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
             />
+            {fieldErrors.price && (
+              <p className="mt-1 text-sm text-red-400">{fieldErrors.price}</p>
+            )}
           </div>
           <div>
             <label
@@ -258,6 +321,11 @@ export default function NewProductPage() {
               className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
             />
+            {fieldErrors.stockQuantity && (
+              <p className="mt-1 text-sm text-red-400">
+                {fieldErrors.stockQuantity}
+              </p>
+            )}
           </div>
         </div>
         <div>
@@ -267,8 +335,7 @@ export default function NewProductPage() {
           >
             Category <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
+          <select
             name="category"
             id="category"
             value={formData.category}
@@ -276,7 +343,19 @@ export default function NewProductPage() {
             required
             className="mt-1 block w-full px-3 py-2 bg-white/4 border border-gray-300 rounded-md shadow-sm
               focus:outline-none focus:bg-white/20 focus:border-amber-400 transition-colors duration-200"
-          />
+          >
+            <option value="" disabled>
+              Select a category
+            </option>
+            {categories.map((category) => (
+              <option key={category.slug} value={category.slug}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          {fieldErrors.category && (
+            <p className="mt-1 text-sm text-red-400">{fieldErrors.category}</p>
+          )}
         </div>
         <button
           type="submit"